@@ -0,0 +1,53 @@
+import { BenchmarkDraw, benchmarkFlock, BENCHMARK_FLOCKS } from './engine/benchmark';
+import { FIXED_STEP_MS } from './engine/timestep';
+import { DEFAULT_ACCESSIBILITY } from './services/accessibility';
+import { BackgroundLayer } from './services/renderLayers';
+import { drawBackground, drawEntities, generateGrass } from './services/sceneRenderer';
+
+// Browser entry for benchmark.html: runs each flock size in turn and tabulates simulation and
+// drawing time per frame
+const status = document.getElementById('status')!;
+const table = document.getElementById('results') as HTMLTableElement;
+
+const fmt = (ms: number) => ms.toFixed(2);
+
+// Full motion so the grass bends however the system's reduced-motion setting is set
+const ACCESSIBILITY = { ...DEFAULT_ACCESSIBILITY, motion: 'full' as const };
+
+// Draws the field the way the game does at 1× zoom: the cached background, then grass and
+// animals. Reading back a pixel makes the browser finish the frame, so the time is real.
+const canvasDraw = (): BenchmarkDraw => {
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d')!;
+  const background = new BackgroundLayer();
+  let grass = generateGrass(0, 0);
+  return (state, pastures, world, time) => {
+    if (canvas.width !== world.w || canvas.height !== world.h) {
+      canvas.width = world.w;
+      canvas.height = world.h;
+      grass = generateGrass(world.w, world.h);
+    }
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    background.draw(ctx, world, 1, 1, [pastures, state.fences, state.obstacles], bg => drawBackground(bg, state, world, pastures, ACCESSIBILITY));
+    drawEntities(ctx, time, state, world, grass, ACCESSIBILITY);
+    ctx.getImageData(0, 0, 1, 1);
+  };
+};
+
+table.innerHTML = '<tr><th>Sheep</th><th>Sim mean ms</th><th>Sim p95</th><th>Draw mean ms</th><th>Draw p95</th><th>Frame budget used</th></tr>';
+
+const run = async () => {
+  for (const count of BENCHMARK_FLOCKS) {
+    status.textContent = `Running ${count} sheep...`;
+    // Let the page paint between runs
+    await new Promise(resolve => setTimeout(resolve, 50));
+    const r = benchmarkFlock(count, 600, canvasDraw());
+    const draw = r.draw!;
+    const row = table.insertRow();
+    [String(r.sheep), fmt(r.sim.meanMs), fmt(r.sim.p95Ms), fmt(draw.meanMs), fmt(draw.p95Ms), `${Math.round(((r.sim.meanMs + draw.meanMs) / FIXED_STEP_MS) * 100)}%`]
+      .forEach(text => { row.insertCell().textContent = text; });
+  }
+  status.textContent = 'Done.';
+};
+
+run();
@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+import { Accessibility } from 'lucide-react';
+import { AccessibilitySettings, GAME_SPEEDS, MotionSetting } from '../services/accessibility';
+
+interface AccessibilityControlsProps {
+  settings: AccessibilitySettings;
+  onChange: (settings: AccessibilitySettings) => void;
+}
+
+const MOTION_OPTIONS: { value: MotionSetting; label: string }[] = [
+  { value: 'auto', label: 'Match system' },
+  { value: 'reduced', label: 'Reduced' },
+  { value: 'full', label: 'Full' },
+];
+
+// Markings, contrast, motion and game speed
+export const AccessibilityOptions: React.FC<AccessibilityControlsProps> = ({ settings, onChange }) => (
+  <>
+    <label className="flex items-center gap-3">
+      <input
+        type="checkbox"
+        checked={settings.markings}
+        onChange={(e) => onChange({ ...settings, markings: e.target.checked })}
+        className="accent-[#7ea157]"
+      />
+      <span>Flock markings</span>
+    </label>
+    <label className="flex items-center gap-3">
+      <input
+        type="checkbox"
+        checked={settings.highContrast}
+        onChange={(e) => onChange({ ...settings, highContrast: e.target.checked })}
+        className="accent-[#7ea157]"
+      />
+      <span>High contrast</span>
+    </label>
+    <label className="flex items-center gap-3">
+      <span className="w-14 opacity-70 text-left">Motion</span>
+      <select
+        value={settings.motion}
+        onChange={(e) => onChange({ ...settings, motion: e.target.value as MotionSetting })}
+        className="bg-transparent border border-stone-300 rounded-full px-2 py-0.5"
+      >
+        {MOTION_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+      </select>
+    </label>
+    <div className="flex items-center gap-3" role="radiogroup" aria-label="Game speed">
+      <span className="w-14 opacity-70 text-left">Speed</span>
+      {GAME_SPEEDS.map(speed => (
+        <button
+          key={speed}
+          role="radio"
+          aria-checked={settings.gameSpeed === speed}
+          onClick={() => onChange({ ...settings, gameSpeed: speed })}
+          className={`px-2 py-0.5 rounded-full font-mono ${settings.gameSpeed === speed ? 'bg-[#7ea157] text-white' : 'hover:bg-stone-200'}`}
+        >
+          {speed}×
+        </button>
+      ))}
+    </div>
+  </>
+);
+
+// Button in the corner of the menus; opens the options
+const AccessibilityControls: React.FC<AccessibilityControlsProps> = ({ settings, onChange }) => {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <div className="absolute top-4 right-4 flex flex-col items-end gap-2 z-10">
+      <button
+        onClick={() => setOpen(o => !o)}
+        className="bg-white/80 p-2 rounded-full hover:bg-white text-stone-600 transition-colors"
+        title="Accessibility"
+        aria-expanded={open}
+      >
+        <Accessibility className="w-6 h-6" />
+      </button>
+      {open && (
+        <div className="bg-white/90 backdrop-blur text-stone-700 px-4 py-3 rounded-2xl shadow-lg border border-[#c5d6a9] flex flex-col gap-2 text-sm">
+          <AccessibilityOptions settings={settings} onChange={onChange} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AccessibilityControls;
@@ -0,0 +1,29 @@
+import React from 'react';
+
+interface CommandButtonsProps {
+  onCommand: (command: 'bark' | 'lieDown', held: boolean) => void;
+}
+
+const COMMANDS: { command: 'bark' | 'lieDown'; label: string }[] = [
+  { command: 'lieDown', label: 'Lie down' },
+  { command: 'bark', label: 'Bark' },
+];
+
+// Hold-to-use voice commands for touch devices, opposite the thumbstick
+const CommandButtons: React.FC<CommandButtonsProps> = ({ onCommand }) => (
+  <div className="absolute bottom-8 right-8 flex gap-4 z-10 touch-none select-none">
+    {COMMANDS.map(c => (
+      <div
+        key={c.command}
+        className="w-20 h-20 rounded-full bg-white/30 border-2 border-white/60 backdrop-blur-sm flex items-center justify-center text-sm font-bold text-stone-700 active:bg-white/60"
+        onPointerDown={(e) => { e.currentTarget.setPointerCapture(e.pointerId); onCommand(c.command, true); }}
+        onPointerUp={() => onCommand(c.command, false)}
+        onPointerCancel={() => onCommand(c.command, false)}
+      >
+        {c.label}
+      </div>
+    ))}
+  </div>
+);
+
+export default CommandButtons;
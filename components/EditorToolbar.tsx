@@ -0,0 +1,161 @@
+import React, { useState } from 'react';
+import { Download, Eraser, Grid2x2Plus, Loader2, MousePointer2, Play, Sparkles, Upload, X } from 'lucide-react';
+import { PASTURE_SETTINGS } from '../constants';
+import { SheepType } from '../types';
+import { BREEDS } from '../engine/breeds';
+import { EditorTool } from '../engine/editor';
+
+interface EditorToolbarProps {
+  tool: EditorTool;
+  flockType: SheepType;
+  breed: string;
+  name: string;
+  selectedZoneCount: number | null;
+  sheepTotal: number;
+  error: string | null;
+  notice: string | null;
+  generating: boolean;
+  onTool: (tool: EditorTool) => void;
+  onFlockType: (type: SheepType) => void;
+  onBreed: (breed: string) => void;
+  onName: (name: string) => void;
+  onZoneCount: (count: number) => void;
+  onTest: () => void;
+  onExport: () => void;
+  onImport: () => void;
+  onGenerate: (description: string) => void;
+  onExit: () => void;
+}
+
+const TOOLS: { tool: EditorTool; label: string }[] = [
+  { tool: 'SELECT', label: 'Move' },
+  { tool: 'PASTURE', label: 'Pasture' },
+  { tool: 'SPAWN', label: 'Flock' },
+  { tool: 'TREE', label: 'Tree' },
+  { tool: 'ROCK', label: 'Rock' },
+  { tool: 'BUSH', label: 'Bush' },
+  { tool: 'ERASE', label: 'Erase' },
+];
+
+const toolIcon = (tool: EditorTool) => {
+  if (tool === 'SELECT') return <MousePointer2 className="w-4 h-4" />;
+  if (tool === 'ERASE') return <Eraser className="w-4 h-4" />;
+  if (tool === 'PASTURE' || tool === 'SPAWN') return <Grid2x2Plus className="w-4 h-4" />;
+  return null;
+};
+
+const EditorToolbar: React.FC<EditorToolbarProps> = (props) => {
+  const { tool, flockType, breed, name, selectedZoneCount, sheepTotal, error, notice, generating } = props;
+  const [description, setDescription] = useState('');
+
+  return (
+    <div className="absolute top-4 left-1/2 -translate-x-1/2 bg-white/90 backdrop-blur text-stone-700 px-4 py-3 rounded-2xl shadow-lg border border-[#c5d6a9] flex flex-col gap-2 z-10 max-w-[95vw]">
+      <div className="flex items-center gap-2 flex-wrap">
+        <input
+          value={name}
+          onChange={(e) => props.onName(e.target.value)}
+          className="font-serif font-bold text-[#556b3e] bg-transparent border-b border-stone-300 focus:outline-none focus:border-[#7ea157] w-44"
+        />
+        <div className="flex gap-1">
+          {TOOLS.map(t => (
+            <button
+              key={t.tool}
+              onClick={() => props.onTool(t.tool)}
+              className={`flex items-center gap-1 px-3 py-1 rounded-full text-sm transition-colors ${tool === t.tool ? 'bg-[#7ea157] text-white' : 'hover:bg-stone-100'}`}
+            >
+              {toolIcon(t.tool)}
+              <span>{t.label}</span>
+            </button>
+          ))}
+        </div>
+        <div className="flex gap-1 ml-auto">
+          <button
+            onClick={props.onTest}
+            disabled={sheepTotal === 0}
+            className="flex items-center gap-1 px-3 py-1 rounded-full text-sm bg-[#8b7355] text-white hover:bg-[#725e44] disabled:opacity-40 transition-colors"
+          >
+            <Play className="w-4 h-4 fill-current" />
+            <span>Test</span>
+          </button>
+          <button onClick={props.onExport} className="p-2 rounded-full hover:bg-stone-100 transition-colors" title="Export level JSON">
+            <Download className="w-4 h-4" />
+          </button>
+          <button onClick={props.onImport} className="p-2 rounded-full hover:bg-stone-100 transition-colors" title="Import level JSON">
+            <Upload className="w-4 h-4" />
+          </button>
+          <button onClick={props.onExit} className="p-2 rounded-full hover:bg-stone-100 transition-colors" title="Leave editor">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+      <form
+        onSubmit={(e) => { e.preventDefault(); if (description.trim()) props.onGenerate(description.trim()); }}
+        className="flex items-center gap-2 text-sm"
+      >
+        <input
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          placeholder="Describe a pasture, e.g. a narrow valley with a rocky river crossing and three flocks"
+          className="flex-1 min-w-0 bg-transparent border border-stone-300 rounded-full px-3 py-1 focus:outline-none focus:border-[#7ea157]"
+        />
+        <button
+          type="submit"
+          disabled={generating || !description.trim()}
+          className="flex items-center gap-1 px-3 py-1 rounded-full bg-[#7ea157] text-white hover:bg-[#658a44] disabled:opacity-40 transition-colors"
+        >
+          {generating ? <Loader2 className="w-4 h-4 animate-spin" /> : <Sparkles className="w-4 h-4" />}
+          <span>Generate</span>
+        </button>
+      </form>
+      <div className="flex items-center gap-4 text-sm min-h-[1.75rem]">
+        {tool === 'PASTURE' && (
+          <div className="flex items-center gap-2">
+            <span className="opacity-60">Pen</span>
+            {PASTURE_SETTINGS.map(p => (
+              <button
+                key={p.type}
+                onClick={() => props.onFlockType(p.type as SheepType)}
+                className={`w-6 h-6 rounded-full border-2 ${flockType === p.type ? 'border-[#7ea157]' : 'border-stone-300'}`}
+                style={{ backgroundColor: p.borderColor }}
+                title={p.label}
+              />
+            ))}
+          </div>
+        )}
+        {tool === 'SPAWN' && (
+          <div className="flex items-center gap-2">
+            <span className="opacity-60">Breed</span>
+            {Object.values(BREEDS).map(b => (
+              <button
+                key={b.id}
+                onClick={() => props.onBreed(b.id)}
+                className={`flex items-center gap-1 px-2 py-0.5 rounded-full border-2 ${breed === b.id ? 'border-[#7ea157]' : 'border-stone-300'}`}
+              >
+                <span className="w-3 h-3 rounded-full border border-stone-300" style={{ backgroundColor: b.colors.body }} />
+                <span>{b.name}</span>
+              </button>
+            ))}
+          </div>
+        )}
+        {selectedZoneCount !== null && (
+          <label className="flex items-center gap-2">
+            <span className="opacity-60">Sheep in zone</span>
+            <input
+              type="number"
+              min={0}
+              max={200}
+              value={selectedZoneCount}
+              onChange={(e) => props.onZoneCount(Math.max(0, Math.floor(Number(e.target.value) || 0)))}
+              className="w-16 bg-transparent border border-stone-300 rounded-full px-2 text-center"
+            />
+          </label>
+        )}
+        <span className="opacity-60 ml-auto">{sheepTotal} sheep</span>
+        {error && <span className="text-[#e05252]">{error}</span>}
+        {!error && notice && <span className="opacity-60">{notice}</span>}
+      </div>
+    </div>
+  );
+};
+
+export default EditorToolbar;
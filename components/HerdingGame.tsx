@@ -1,776 +1,1007 @@
 import React, { useEffect, useRef, useState, useCallback } from 'react';
 import { 
   COLORS, 
-  PASTURE_SETTINGS, 
-  DOG_RADIUS, 
-  DOG_SPEED, 
-  SHEEP_RADIUS,
-  PERCEPTION_RADIUS,
-  SHEEP_MAX_SPEED,
-  SHEEP_WANDER_SPEED,
-  SEPARATION_RADIUS,
-  FLOCKING_RADIUS,
-  ALIGNMENT_WEIGHT,
-  COHESION_WEIGHT,
   DOG_PALETTES,
-  MAX_LEVELS
+  PASTURE_SETTINGS
 } from '../constants';
-import { GameState, Sheep, SheepType, Vector2, Obstacle, DogPalette, Pasture } from '../types';
-import { Loader2, Play, RefreshCw, Trophy, Volume2, VolumeX, CheckCircle2, ArrowRight } from 'lucide-react';
-import { getLevelFlavorText } from '../services/aiService';
-
-// --- Vector Math Helpers ---
-const vecAdd = (v1: Vector2, v2: Vector2) => ({ x: v1.x + v2.x, y: v1.y + v2.y });
-const vecSub = (v1: Vector2, v2: Vector2) => ({ x: v1.x - v2.x, y: v1.y - v2.y });
-const vecMult = (v: Vector2, s: number) => ({ x: v.x * s, y: v.y * s });
-const vecMag = (v: Vector2) => Math.sqrt(v.x * v.x + v.y * v.y);
-const vecNorm = (v: Vector2) => {
-  const m = vecMag(v);
-  return m === 0 ? { x: 0, y: 0 } : { x: v.x / m, y: v.y / m };
-};
-const vecLimit = (v: Vector2, max: number) => {
-  const m = vecMag(v);
-  return m > max ? vecMult(vecNorm(v), max) : v;
+import { GameState, SheepType, DogPalette, LevelConfig, Vector2, Weather } from '../types';
+import { Loader2, Play, RefreshCw, Trophy, CheckCircle2, ArrowRight, Download, Film, Upload, PencilRuler, Gamepad2, Globe, Hand, User, Users, Crosshair, Scan, Pause, Sun, Moon, Wind, CloudRain, CloudFog } from 'lucide-react';
+import { generateLevelLayout, getLevelFlavorText } from '../services/aiService';
+import { layoutPastures, PastureView } from '../engine/pastures';
+import { buildLevelState, levelSheepCount, levelWorld, parseLevelConfig } from '../engine/level';
+import { createRng, parseSeed, randomSeed } from '../engine/random';
+import { stepSimulation, WorldSize } from '../engine/simulation';
+import { FIXED_STEP_MS, FixedTimestep } from '../engine/timestep';
+import { applyCamera, Camera, CameraMode, cameraTarget, createCamera, fitCamera, screenToWorld, snapCamera, updateCamera, zoomCamera } from '../engine/camera';
+import { Screen, ScreenMachine } from '../engine/screenFlow';
+import { createEnvironment, darknessAt } from '../engine/environment';
+import { flockCalm, VolumeSettings, ZenAudio } from '../services/audioService';
+import { AccessibilitySettings, HIGH_CONTRAST_FLOCKS, securedAnnouncement, takenAnnouncement } from '../services/accessibility';
+import { BREEDS, defaultBreedFor } from '../engine/breeds';
+import { parseReplay, quantizeInput, Replay, ReplayPlayer, ReplayRecorder, serializeReplay } from '../engine/replay';
+import { Autopilot } from '../engine/autopilot';
+import { createDog } from '../engine/dogs';
+import ReplayControls, { ReplayView } from './ReplayControls';
+import EditorToolbar from './EditorToolbar';
+import ScoreBreakdown, { formatTime } from './ScoreBreakdown';
+import { emptyStats, scoreLevel, ScoreBreakdown as LevelResult } from '../engine/scoring';
+import {
+  addObstacle,
+  addRect,
+  applyDrag,
+  blankLevel,
+  checkedLevelConfig,
+  EditableLevel,
+  EditorDrag,
+  EditorTarget,
+  EditorTool,
+  HANDLE_SIZE,
+  hitTest,
+  rectCorners,
+  rectFromPoints,
+  removeTarget,
+  targetRect,
+  toEditable,
+  toLevelConfig,
+} from '../engine/editor';
+import { getLevelConfig, LEVELS, MAX_LEVELS } from '../levels';
+import LevelSelect from './LevelSelect';
+import OnlinePanel from './OnlinePanel';
+import PauseMenu from './PauseMenu';
+import VirtualJoystick from './VirtualJoystick';
+import CommandButtons from './CommandButtons';
+import VolumeControls from './VolumeControls';
+import AccessibilityControls from './AccessibilityControls';
+import { ControlScheme, detectControlScheme, InputBinding, InputManager } from '../services/inputService';
+import { loadProgress, PaletteKey, recordLevelResult, saveProgress, SaveData } from '../services/progressService';
+import { OnlineSession, OnlineView } from '../services/multiplayerService';
+import { BackgroundLayer, currentPixelRatio } from '../services/renderLayers';
+import { drawBackground, drawEntities, generateGrass, GrassBlade } from '../services/sceneRenderer';
+
+const audio = new ZenAudio();
+
+
+// Field overview, top right under the corner buttons
+const MINIMAP_WIDTH = 180;
+const MINIMAP_MARGIN = 16;
+const MINIMAP_TOP = 72;
+const WHEEL_ZOOM_RATE = 0.0015; // Per pixel of wheel travel
+const KEY_ZOOM_STEP = 1.25;
+
+const formatClock = (hour: number) => {
+  const minutes = Math.floor(hour * 60) % (24 * 60);
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
 };
-const dist = (v1: Vector2, v2: Vector2) => Math.sqrt(Math.pow(v2.x - v1.x, 2) + Math.pow(v2.y - v1.y, 2));
-
-// --- Helper to Generate Pastures based on Screen Size ---
-const getPastures = (w: number, h: number): (Pasture & { color: string, borderColor: string, label: string })[] => {
-    const size = Math.min(w, h) * 0.25; // 25% of smallest dimension
-    const clampedSize = Math.max(160, Math.min(350, size)); // Min 160px, Max 350px
-    const margin = 40;
-
-    return [
-        {
-            ...PASTURE_SETTINGS[0],
-            id: 'p_white',
-            type: SheepType.WHITE,
-            bounds: { x: margin, y: margin, w: clampedSize, h: clampedSize },
-        },
-        {
-            ...PASTURE_SETTINGS[1],
-            id: 'p_black',
-            type: SheepType.BLACK,
-            bounds: { x: w - clampedSize - margin, y: margin, w: clampedSize, h: clampedSize },
-        }
-    ];
+
+const WeatherIcon: React.FC<{ weather: Weather, night: boolean }> = ({ weather, night }) => {
+  if (weather === 'WIND') return <Wind className="w-4 h-4" />;
+  if (weather === 'RAIN') return <CloudRain className="w-4 h-4" />;
+  if (weather === 'FOG') return <CloudFog className="w-4 h-4" />;
+  return night ? <Moon className="w-4 h-4" /> : <Sun className="w-4 h-4" />;
 };
 
-interface GrassBlade {
-  x: number;
-  y: number;
-  angle: number;
-  size: number;
+// Grass, pastures, fences and rocks, painted once per level
+const background = new BackgroundLayer();
+
+interface ReplaySession {
+  player: ReplayPlayer;
+  timestep: FixedTimestep;
+  paused: boolean;
+  speed: number;
+  title: string | null; // The run's flavor title, once it's been looked up
 }
 
-// --- Procedural Audio Engine (Zen Mode) ---
-class ZenAudio {
-  ctx: AudioContext | null = null;
-  windGain: GainNode | null = null;
-  droneGain: GainNode | null = null;
-  isMuted: boolean = false;
-
-  init() {
-    if (this.ctx) return;
-    this.ctx = new (window.AudioContext || (window as any).webkitAudioContext)();
-    
-    // 1. Wind (Pink Noise -> Lowpass Filter)
-    const bufferSize = this.ctx.sampleRate * 2;
-    const buffer = this.ctx.createBuffer(1, bufferSize, this.ctx.sampleRate);
-    const data = buffer.getChannelData(0);
-    let lastOut = 0;
-    for (let i = 0; i < bufferSize; i++) {
-      const white = Math.random() * 2 - 1;
-      data[i] = (lastOut + (0.02 * white)) / 1.02;
-      lastOut = data[i];
-      data[i] *= 3.5; 
-    }
+// Attract mode: the autopilot working through the levels behind the intro screen
+interface DemoSession {
+  state: GameState;
+  pastures: PastureView[];
+  world: WorldSize;
+  pilot: Autopilot;
+  timestep: FixedTimestep;
+}
 
-    const noise = this.ctx.createBufferSource();
-    noise.buffer = buffer;
-    noise.loop = true;
-
-    const windFilter = this.ctx.createBiquadFilter();
-    windFilter.type = 'lowpass';
-    windFilter.frequency.value = 400;
-
-    this.windGain = this.ctx.createGain();
-    this.windGain.gain.value = 0.03;
-
-    noise.connect(windFilter);
-    windFilter.connect(this.windGain);
-    this.windGain.connect(this.ctx.destination);
-    noise.start();
-
-    // 2. Drone (Sine Oscillators)
-    const osc1 = this.ctx.createOscillator();
-    osc1.type = 'sine';
-    osc1.frequency.value = 110; // A2
-    
-    const osc2 = this.ctx.createOscillator();
-    osc2.type = 'sine';
-    osc2.frequency.value = 164.81; // E3
-
-    this.droneGain = this.ctx.createGain();
-    this.droneGain.gain.value = 0.02;
-
-    osc1.connect(this.droneGain);
-    osc2.connect(this.droneGain);
-    this.droneGain.connect(this.ctx.destination);
-    
-    osc1.start();
-    osc2.start();
-    
-    // LFO for subtle movement
-    const lfo = this.ctx.createOscillator();
-    lfo.frequency.value = 0.1;
-    const lfoGain = this.ctx.createGain();
-    lfoGain.gain.value = 200;
-    lfo.connect(lfoGain);
-    lfoGain.connect(windFilter.frequency);
-    lfo.start();
-  }
-
-  toggleMute() {
-    this.isMuted = !this.isMuted;
-    if (this.ctx) {
-      if (this.isMuted) this.ctx.suspend();
-      else this.ctx.resume();
-    }
-    return this.isMuted;
-  }
-  
-  resume() {
-    if (this.ctx && this.ctx.state === 'suspended' && !this.isMuted) {
-      this.ctx.resume();
-    }
-  }
+const DEMO_IDLE_MS = 15000;
+const DEMO_TIME_LIMIT = 2; // Move on after twice the level's par, finished or not
+
+const createDemo = (base: GameState, level: number): DemoSession => {
+  const config = getLevelConfig(level);
+  const world = levelWorld(config);
+  const pastures = layoutPastures(config.pastures, world);
+  // A lone dog, whoever is set up to play
+  const state = buildLevelState({ ...base, dogs: base.dogs.slice(0, 1) }, config, level, randomSeed(), world, pastures);
+  state.isPlaying = true;
+  return { state, pastures, world, pilot: new Autopilot(), timestep: new FixedTimestep() };
+};
+
+interface OnlineLink {
+  session: OnlineSession;
+  timestep: FixedTimestep; // Paces the inputs sent to the server
+  framed: GameState | null; // Level the camera last jumped to
 }
 
-const audio = new ZenAudio();
+interface EditorSession {
+  level: EditableLevel;
+  preview: GameState; // Field as the level would start, rebuilt after every edit
+  pastures: PastureView[];
+  drag: EditorDrag | null;
+  painting: { start: Vector2; current: Vector2 } | null; // Rect being drawn by PASTURE/SPAWN
+  selected: EditorTarget | null;
+}
+
+const downloadJson = (data: unknown, filename: string) => {
+  const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+const downloadReplay = (replay: Replay) => {
+  downloadJson(JSON.parse(serializeReplay(replay)), `herdlight-level${replay.level}-seed${replay.seed}.json`);
+};
 
 const HerdingGame: React.FC = () => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const requestRef = useRef<number>(0);
+  const timestep = useRef(new FixedTimestep());
   
-  // Responsive Dimensions
-  const [windowSize, setWindowSize] = useState({ w: window.innerWidth, h: window.innerHeight });
-  const dimensions = useRef({ w: window.innerWidth, h: window.innerHeight });
-  const pasturesRef = useRef(getPastures(window.innerWidth, window.innerHeight));
-  const grassRef = useRef<GrassBlade[]>([]);
+  // The canvas fills the window at the screen's pixel ratio; the field on it is the level's
+  // own size, seen through a camera
+  const [windowSize, setWindowSize] = useState({ w: window.innerWidth, h: window.innerHeight, dpr: currentPixelRatio() });
+  const viewportRef = useRef(windowSize);
+  const contextRef = useRef<CanvasRenderingContext2D | null>(null);
+  const levelConfigRef = useRef<LevelConfig>(getLevelConfig(1));
+  const worldRef = useRef<WorldSize>(levelWorld(levelConfigRef.current));
+  const pasturesRef = useRef(layoutPastures(levelConfigRef.current.pastures, worldRef.current));
+  const grassRef = useRef<{ world: WorldSize, blades: GrassBlade[] }>({ world: { w: 0, h: 0 }, blades: [] });
+  const cameraRef = useRef<Camera>(createCamera(worldRef.current));
+  const viewRef = useRef<Camera>(cameraRef.current); // Whatever camera drew the last frame, for pointer input
+  const lastFrameRef = useRef(0);
+  const [cameraMode, setCameraMode] = useState<CameraMode>('FOLLOW');
 
   // Game States
   const [level, setLevel] = useState(1);
-  const [gameState, setGameState] = useState<'INTRO' | 'SELECT_DOG' | 'START' | 'PLAYING' | 'WON' | 'COMPLETED'>('INTRO');
+  const [gameState, setGameState] = useState<Screen>('INTRO');
   const [flavor, setFlavor] = useState({ title: "The Pasture", description: "Guide them home." });
-  const [loadingLevel, setLoadingLevel] = useState(false);
-  const [isMuted, setIsMuted] = useState(false);
-  const [selectedPalette, setSelectedPalette] = useState<DogPalette>(DOG_PALETTES.BLACK);
+  const [progress, setProgress] = useState<SaveData>(loadProgress);
+  // Read every frame by the render loop
+  const accessibilityRef = useRef<AccessibilitySettings>(progress.accessibility);
+  accessibilityRef.current = progress.accessibility;
+  // What the screen reader's live region last said
+  const [announcement, setAnnouncement] = useState('');
+  const [selectedPalettes, setSelectedPalettes] = useState<DogPalette[]>([DOG_PALETTES[progress.palette]]);
+  // Co-op: how many players, whose turn it is on the companion screen and which controls each one has
+  const [playerCount, setPlayerCount] = useState(1);
+  const [pickingPlayer, setPickingPlayer] = useState(0);
+  const bindingsRef = useRef<InputBinding[]>(['any']);
+  const changingCompanionRef = useRef(false); // Picking a new dog from the pause menu, mid-level
+  const [seed, setSeed] = useState(randomSeed);
+  const [seedInput, setSeedInput] = useState(String(seed));
+
+  // Keep the editable field in sync when the seed changes from elsewhere
+  useEffect(() => setSeedInput(String(seed)), [seed]);
+
+  // Replays: the run being recorded, the last finished recording and any playback session
+  const recorderRef = useRef<ReplayRecorder | null>(null);
+  const lastReplayRef = useRef<Replay | null>(null);
+  const replayRef = useRef<ReplaySession | null>(null);
+  const replayFileRef = useRef<HTMLInputElement>(null);
+  const [replayView, setReplayView] = useState<ReplayView | null>(null);
+  const [replayError, setReplayError] = useState<string | null>(null);
+
+  // Online play: the connection to the relay server and what the online screens show
+  const onlineRef = useRef<OnlineLink | null>(null);
+  const [onlineView, setOnlineView] = useState<OnlineView | null>(null);
+
+  const demoRef = useRef<DemoSession | null>(null);
+  const [demoActive, setDemoActive] = useState(false);
+
+  // Level editor: the layout being authored, and the level under test when play-testing it
+  const editorRef = useRef<EditorSession | null>(null);
+  const customLevelRef = useRef<LevelConfig | null>(null);
+  const levelFileRef = useRef<HTMLInputElement>(null);
+  const [editorTool, setEditorTool] = useState<EditorTool>('SELECT');
+  const [editorFlock, setEditorFlock] = useState<SheepType>(SheepType.WHITE);
+  const [editorBreed, setEditorBreed] = useState('ewe');
+  const [editorView, setEditorView] = useState({ name: '', selectedZoneCount: null as number | null, sheepTotal: 0 });
+  const [editorError, setEditorError] = useState<string | null>(null);
+  const [editorNotice, setEditorNotice] = useState<string | null>(null); // What repair changed in a generated level
+  const [editorGenerating, setEditorGenerating] = useState(false);
+
+  // Scoring: live HUD readout, the level just finished and every level of this run
+  const [hud, setHud] = useState({ score: 0, time: 0, hour: 9, weather: 'CLEAR' as Weather, lost: 0 });
+  const [lastResult, setLastResult] = useState<LevelResult | null>(null);
+  const [runResults, setRunResults] = useState<{ level: number, result: LevelResult }[]>([]);
+
+  // Screen flow: every change of screen goes through the machine, which runs the entry and
+  // exit actions below. `gameState` mirrors it for rendering; the render loop and window
+  // listeners are created once, so they ask the machine directly.
+  const [flow] = useState(() => new ScreenMachine({
+    enter: {
+      PLAYING: (from) => {
+        input.current.clear();
+        if (from !== 'START') return;
+        audio.resume();
+        state.current.isPlaying = true;
+        recorderRef.current = new ReplayRecorder({
+          level: state.current.level,
+          seed: state.current.seed,
+          config: levelConfigRef.current,
+          world: { ...worldRef.current },
+          palettes: state.current.dogs.map(d => d.palette),
+        });
+      },
+      PAUSED: () => input.current.clear(),
+    },
+    exit: {
+      // A key that was down when the level stopped shouldn't stay held
+      PLAYING: () => input.current.clear(),
+      // Leaving a paused level any way but Resume abandons the run
+      PAUSED: (to) => {
+        if (to === 'PLAYING') return;
+        state.current.isPlaying = false;
+        recorderRef.current = null;
+      },
+      REPLAY: () => {
+        replayRef.current = null;
+        setReplayView(null);
+      },
+      ONLINE: () => {
+        onlineRef.current?.session.close();
+        onlineRef.current = null;
+        setOnlineView(null);
+      },
+      EDITOR: (to) => {
+        if (to !== 'INTRO') return;
+        editorRef.current = null;
+        customLevelRef.current = null;
+      },
+    },
+    onChange: setGameState,
+  }, () => ({ testRun: customLevelRef.current !== null })));
 
   // Mutable game state
   const state = useRef<GameState>({
     sheep: [],
-    dog: { 
-      id: 'dog', 
-      pos: { x: window.innerWidth / 2, y: window.innerHeight / 2 }, 
-      vel: { x: 0, y: 0 }, 
-      radius: DOG_RADIUS, 
-      speed: DOG_SPEED,
-      facingDir: { x: 0, y: 1 } 
-    },
+    dogs: [{ ...createDog(DOG_PALETTES[progress.palette]), pos: { x: worldRef.current.w / 2, y: worldRef.current.h / 2 } }],
+    wolves: [],
     obstacles: [],
+    barkWaves: [],
+    fences: [],
+    environment: createEnvironment(),
     level: 1,
+    seed: 0,
+    rng: createRng(0),
     score: 0,
     timeElapsed: 0,
+    parTime: 0,
+    stats: emptyStats(),
+    lossLimit: 0,
     isPlaying: false,
-    isLevelComplete: false,
-    dogPalette: DOG_PALETTES.BLACK
+    isLevelComplete: false
   });
 
-  const keys = useRef<{ [key: string]: boolean }>({});
-
-  // Generate Grass
-  const generateGrass = (w: number, h: number) => {
-    const grass: GrassBlade[] = [];
-    // Density based on area, but capped for performance
-    const count = Math.min(150, Math.floor((w * h) / 10000));
-    
-    for (let i = 0; i < count; i++) {
-      grass.push({
-        x: Math.random() * w,
-        y: Math.random() * h,
-        angle: (Math.random() * Math.PI) / 4 - Math.PI / 8, // slight random tilt
-        size: 3 + Math.random() * 2
-      });
+  // Persist progress whenever it changes, and apply the saved mute preference once
+  useEffect(() => saveProgress(progress), [progress]);
+  useEffect(() => { audio.setVolume(progress.volume); }, []);
+
+  const input = useRef(new InputManager());
+  const [controlScheme, setControlScheme] = useState<ControlScheme>(detectControlScheme);
+
+  // Grass is scattered once per field size
+  const grassFor = (world: WorldSize) => {
+    if (grassRef.current.world.w !== world.w || grassRef.current.world.h !== world.h) {
+      grassRef.current = { world: { ...world }, blades: generateGrass(world.w, world.h) };
     }
-    grassRef.current = grass;
+    return grassRef.current.blades;
   };
 
-  // Resize Handler
+  // Resize Handler: only the view changes, the field stays the same size
   useEffect(() => {
       const handleResize = () => {
-          const w = window.innerWidth;
-          const h = window.innerHeight;
-          setWindowSize({ w, h });
-          dimensions.current = { w, h };
-          pasturesRef.current = getPastures(w, h);
-          generateGrass(w, h);
+          viewportRef.current = { w: window.innerWidth, h: window.innerHeight, dpr: currentPixelRatio() };
+          setWindowSize(viewportRef.current);
       };
-      
-      // Init grass
-      generateGrass(window.innerWidth, window.innerHeight);
-
       window.addEventListener('resize', handleResize);
+      // Pasture labels are painted into the background once; repaint when the font arrives
+      document.fonts?.ready.then(() => background.invalidate());
       return () => window.removeEventListener('resize', handleResize);
   }, []);
 
-  const toggleMute = () => {
-    const muted = audio.toggleMute();
-    setIsMuted(muted);
+  const toggleCameraMode = () => {
+    const mode = cameraRef.current.mode === 'FOLLOW' ? 'FLOCK' : 'FOLLOW';
+    cameraRef.current.mode = mode;
+    setCameraMode(mode);
   };
 
-  const isPointInRect = (p: Vector2, rect: {x: number, y: number, w: number, h: number}) => {
-    return p.x >= rect.x && p.x <= rect.x + rect.w && p.y >= rect.y && p.y <= rect.y + rect.h;
+  const handleVolume = (volume: VolumeSettings) => {
+    audio.setVolume(volume);
+    setProgress(p => ({ ...p, volume }));
   };
 
-  // Initialize Level
-  const initLevel = useCallback(async (lvl: number) => {
-    setLoadingLevel(true);
-    const { w, h } = dimensions.current;
-    
-    const newSheep: Sheep[] = [];
-    const newObstacles: Obstacle[] = [];
-    const sheepCount = 4 + (lvl * 2); 
-    
-    // Generate Obstacles (Progression)
-    const obstacleCount = Math.floor(lvl * 1.5) + Math.floor(w/800); 
-    for(let i=0; i<obstacleCount; i++) {
-        const type = Math.random() > 0.3 ? 'TREE' : 'ROCK';
-        const radius = type === 'TREE' ? 25 : 15;
-        let valid = false;
-        let pos = { x: 0, y: 0 };
-        let attempts = 0;
-        
-        while(!valid && attempts < 20) {
-            pos = {
-                x: Math.random() * (w - 100) + 50,
-                y: Math.random() * (h - 100) + 50
-            };
-            const inPasture = pasturesRef.current.some(p => isPointInRect(pos, p.bounds));
-            const dCenter = dist(pos, {x: w/2, y: h/2});
-            
-            if (!inPasture && dCenter > 150) valid = true;
-            attempts++;
-        }
-
-        if (valid) {
-            newObstacles.push({
-                id: `obs_${i}`,
-                pos,
-                vel: {x:0, y:0},
-                radius,
-                type: type as 'TREE' | 'ROCK',
-                wobbleOffset: Math.random() * 10
-            });
-        }
-    }
-
-    // Generate Sheep
-    for (let i = 0; i < sheepCount; i++) {
-      const type = Math.random() > 0.5 ? SheepType.WHITE : SheepType.BLACK;
-      let pos = { x: 0, y: 0 };
-      let valid = false;
-      while(!valid) {
-          pos = {
-             x: Math.random() * (w - 100) + 50,
-             y: Math.random() * (h / 2) + h / 3
-          };
-          const hitObs = newObstacles.some(o => dist(pos, o.pos) < o.radius + SHEEP_RADIUS + 5);
-          // Keep away from pastures initially
-          const inPasture = pasturesRef.current.some(p => isPointInRect(pos, p.bounds));
-
-          if(!hitObs && !inPasture) valid = true;
-      }
+  const handleAccessibility = (accessibility: AccessibilitySettings) => {
+    accessibilityRef.current = accessibility;
+    setProgress(p => ({ ...p, accessibility }));
+  };
 
-      newSheep.push({
-        id: `s_${i}`,
-        pos,
-        vel: { x: (Math.random() - 0.5), y: (Math.random() - 0.5) },
-        radius: SHEEP_RADIUS,
-        type,
-        state: 'GRAZING',
-        panicLevel: 0,
-        wobbleOffset: Math.random() * 100
-      });
-    }
+  // Rebuild the field for a level from the run seed (no flavor text fetch)
+  const buildLevel = (lvl: number, runSeed: number) => {
+    const config = customLevelRef.current ?? getLevelConfig(lvl);
+    levelConfigRef.current = config;
+    worldRef.current = levelWorld(config);
+    pasturesRef.current = layoutPastures(config.pastures, worldRef.current);
+    state.current = buildLevelState(state.current, config, lvl, runSeed, worldRef.current, pasturesRef.current);
+    const camera = cameraRef.current;
+    snapCamera(camera, cameraTarget(camera, state.current, worldRef.current, viewportRef.current));
+  };
 
-    state.current = {
-      ...state.current,
-      sheep: newSheep,
-      obstacles: newObstacles,
-      dog: { 
-        ...state.current.dog, 
-        pos: { x: w / 2, y: h / 2 },
-        facingDir: { x: 0, y: 1 } // Reset facing
-      },
-      level: lvl,
-      isPlaying: false,
-      isLevelComplete: false,
-      dogPalette: state.current.dogPalette
-    };
+  // Initialize Level
+  const initLevel = useCallback(async (lvl: number, runSeed: number) => {
+    if (!flow.send('LOAD_LEVEL')) return;
+    buildLevel(lvl, runSeed);
 
-    const text = await getLevelFlavorText(lvl);
+    const text = await getLevelFlavorText(lvl, runSeed, levelConfigRef.current);
     setFlavor(text);
-    setLoadingLevel(false);
-    setGameState('START');
+    flow.send('LEVEL_READY');
   }, []);
 
   const handleIntroComplete = () => {
-    setGameState('SELECT_DOG');
+    flow.send('CHOOSE_COMPANION');
   };
 
-  const handleDogSelect = (palette: DogPalette) => {
-    setSelectedPalette(palette);
-    state.current.dogPalette = palette;
+  const handlePlayerCount = (count: number) => {
+    setPlayerCount(count);
+    setPickingPlayer(0);
+  };
+
+  const handleDogSelect = (key: PaletteKey) => {
+    const palettes = [...selectedPalettes.slice(0, pickingPlayer), DOG_PALETTES[key]];
+    setSelectedPalettes(palettes);
+    if (pickingPlayer === 0) setProgress(p => ({ ...p, palette: key }));
+    if (palettes.length < playerCount) {
+      setPickingPlayer(palettes.length);
+      return;
+    }
+    setPickingPlayer(0);
+    state.current.dogs = palettes.map((palette, i) => createDog(palette, i));
+    // One player can use anything; two split the keyboard and take a gamepad each
+    bindingsRef.current = palettes.length > 1 ? ['wasd', 'arrows'] : ['any'];
     audio.init(); 
-    initLevel(1); 
+    if (changingCompanionRef.current) {
+      changingCompanionRef.current = false;
+      initLevel(level, seed);
+    } else if (progress.highestLevel > 1) {
+      flow.send('CHOOSE_LEVEL');
+    } else {
+      initLevel(1, seed); 
+    }
   };
 
-  const handleStart = () => {
-    audio.resume();
-    state.current.isPlaying = true;
-    setGameState('PLAYING');
+  const handleLevelSelect = (lvl: number) => {
+    setLevel(lvl);
+    initLevel(lvl, seed);
   };
 
-  const handleNextLevel = () => {
-    const nextLevel = level + 1;
-    if (nextLevel > MAX_LEVELS) {
-      setGameState('COMPLETED');
-    } else {
-      setLevel(nextLevel);
-      initLevel(nextLevel);
+  const handleSeedSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const parsed = parseSeed(seedInput);
+    if (parsed === null) {
+      setSeedInput(String(seed));
+      return;
     }
+    setSeed(parsed);
+    buildLevel(level, parsed);
+    // The title and blurb are written for the seed, so the old ones no longer fit
+    getLevelFlavorText(level, parsed, levelConfigRef.current).then(setFlavor);
   };
-  
-  const handleRestart = () => {
-      setLevel(1);
-      setGameState('INTRO');
+
+  const handleStart = () => {
+    flow.send('START');
   };
 
-  // --- Physics Engine ---
-  const updatePhysics = () => {
-    if (!state.current.isPlaying) return;
+  // --- Replay Playback ---
+  const syncReplayView = () => {
+    const session = replayRef.current;
+    if (!session) return;
+    setReplayView({
+      tick: session.player.tick,
+      length: session.player.length,
+      paused: session.paused,
+      speed: session.speed,
+      level: session.player.replay.level,
+      seed: session.player.replay.seed,
+      title: session.title,
+    });
+  };
 
-    const { dog, sheep, obstacles } = state.current;
-    const { w, h } = dimensions.current;
-    const pastures = pasturesRef.current;
+  const openReplay = (replay: Replay) => {
+    if (!flow.send('WATCH_REPLAY')) return;
+    replayRef.current = {
+      player: new ReplayPlayer(replay, state.current),
+      timestep: new FixedTimestep(),
+      paused: false,
+      speed: 1,
+      title: null,
+    };
+    setReplayError(null);
+    syncReplayView();
+    // Cached from when the run was played, if it was played here
+    getLevelFlavorText(replay.level, replay.seed, replay.config).then(text => {
+      if (replayRef.current?.player.replay !== replay) return;
+      replayRef.current.title = text.title;
+      syncReplayView();
+    });
+  };
 
-    // 1. Dog Movement
-    let inputVec = { x: 0, y: 0 };
-    if (keys.current['ArrowUp'] || keys.current['w']) inputVec.y -= 1;
-    if (keys.current['ArrowDown'] || keys.current['s']) inputVec.y += 1;
-    if (keys.current['ArrowLeft'] || keys.current['a']) inputVec.x -= 1;
-    if (keys.current['ArrowRight'] || keys.current['d']) inputVec.x += 1;
+  // Back to whichever screen the replay was opened from
+  const closeReplay = () => {
+    flow.send('CLOSE_REPLAY');
+  };
 
-    if (inputVec.x !== 0 || inputVec.y !== 0) {
-      inputVec = vecMult(vecNorm(inputVec), dog.speed);
+  const handleReplayFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      openReplay(parseReplay(await file.text()));
+    } catch (error) {
+      console.error("Could not load replay", error);
+      setReplayError(error instanceof Error ? error.message : "Could not load replay");
     }
-    
-    dog.vel = vecAdd(vecMult(dog.vel, 0.8), vecMult(inputVec, 0.2));
-    dog.pos = vecAdd(dog.pos, dog.vel);
+  };
 
-    // Dog Looking Logic (Head Tracking)
-    const dogSpeed = vecMag(dog.vel);
-    let targetFacing = { x: 0, y: 0 };
+  const handleReplayPause = () => {
+    const session = replayRef.current;
+    if (!session) return;
+    if (session.player.isFinished) session.player.seek(0);
+    session.paused = !session.paused;
+    syncReplayView();
+  };
 
-    if (dogSpeed > 0.5) {
-        // Look where moving
-        targetFacing = vecNorm(dog.vel);
-    } else {
-        // Idle: Look at Flock Center of Mass
-        let flockCenter = { x: 0, y: 0 };
-        let count = 0;
-        sheep.forEach(s => {
-            if (s.state !== 'SECURE') {
-                flockCenter = vecAdd(flockCenter, s.pos);
-                count++;
-            }
-        });
-        
-        if (count > 0) {
-            flockCenter = vecMult(flockCenter, 1/count);
-            targetFacing = vecNorm(vecSub(flockCenter, dog.pos));
-        } else {
-            targetFacing = dog.facingDir; // No sheep? Keep looking same way
-        }
-    }
+  const handleReplaySeek = (tick: number) => {
+    replayRef.current?.player.seek(tick);
+    syncReplayView();
+  };
 
-    // Smooth rotation (Lerp)
-    if (Math.abs(targetFacing.x) > 0.01 || Math.abs(targetFacing.y) > 0.01) {
-        dog.facingDir.x += (targetFacing.x - dog.facingDir.x) * 0.1;
-        dog.facingDir.y += (targetFacing.y - dog.facingDir.y) * 0.1;
-        dog.facingDir = vecNorm(dog.facingDir);
-    }
+  const handleReplaySpeed = (speed: number) => {
+    if (replayRef.current) replayRef.current.speed = speed;
+    syncReplayView();
+  };
 
-    // Dog Obstacle Collision
-    obstacles.forEach(obs => {
-        const d = dist(dog.pos, obs.pos);
-        const minDist = dog.radius + obs.radius;
-        if (d < minDist) {
-            const pushDir = vecNorm(vecSub(dog.pos, obs.pos));
-            const push = vecMult(pushDir, minDist - d);
-            dog.pos = vecAdd(dog.pos, push);
-        }
+  // Whatever has been recorded so far, so a stuck run can still be reported mid-level
+  const currentRecording = () => recorderRef.current?.finish() ?? lastReplayRef.current;
+
+  const handleSaveReplay = () => {
+    const replay = currentRecording();
+    if (replay) downloadReplay(replay);
+  };
+
+  // --- Online Play ---
+  const connectOnline = (url: string, name: string) => {
+    onlineRef.current?.session.close();
+    audio.init();
+    audio.resume();
+    const session = new OnlineSession(url, name, selectedPalettes[0]);
+    session.onChange = () => setOnlineView(session.view);
+    onlineRef.current = { session, timestep: new FixedTimestep(), framed: null };
+    setOnlineView(session.view);
+  };
+
+  const handleOnlineStart = (lvl: number) => {
+    onlineRef.current?.session.start(lvl);
+  };
+
+  const leaveOnline = () => {
+    flow.send('QUIT');
+  };
+
+  // --- Level Editor ---
+  const refreshEditor = () => {
+    const session = editorRef.current;
+    if (!session) return;
+    const config = toLevelConfig(session.level);
+    worldRef.current = levelWorld(config);
+    session.pastures = layoutPastures(config.pastures, worldRef.current);
+    session.preview = buildLevelState(state.current, config, 1, seed, worldRef.current, session.pastures);
+    const selected = session.selected;
+    setEditorView({
+      name: session.level.name,
+      selectedZoneCount: selected?.kind === 'spawn' ? session.level.spawnZones[selected.index].count : null,
+      sheepTotal: config.sheepCount,
     });
+  };
 
-    dog.pos.x = Math.max(dog.radius, Math.min(w - dog.radius, dog.pos.x));
-    dog.pos.y = Math.max(dog.radius, Math.min(h - dog.radius, dog.pos.y));
+  const openEditor = (level: EditableLevel) => {
+    if (!flow.send('OPEN_EDITOR')) return;
+    editorRef.current = { level, preview: state.current, pastures: [], drag: null, painting: null, selected: null };
+    customLevelRef.current = null;
+    setEditorError(null);
+    setEditorNotice(null);
+    refreshEditor();
+  };
 
-    const isDogFast = dogSpeed > DOG_SPEED * 0.8;
+  const closeEditor = () => {
+    setLevel(1);
+    flow.send('QUIT');
+  };
 
-    // 2. Sheep Logic
-    let allCorrect = true;
+  // Pointer position on the field, through whichever camera drew the last frame
+  const canvasPoint = (e: React.PointerEvent<HTMLCanvasElement>): Vector2 => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return screenToWorld(viewRef.current, { w: rect.width, h: rect.height }, { x: e.clientX - rect.left, y: e.clientY - rect.top });
+  };
 
-    sheep.forEach(s => {
-      // Check if secure in pasture
-      const correctPasture = pastures.find(p => p.type === s.type);
-      let inCorrectPasture = false;
-      if (correctPasture) {
-         const p = correctPasture.bounds;
-         // Hysteresis
-         const margin = s.state === 'SECURE' ? 5 : 15;
+  // --- Canvas Pointer ---
+  // While playing, holding the mouse or a finger on the field steers the dog toward it
+  const handleCanvasPointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (gameState === 'PLAYING') {
+      e.currentTarget.setPointerCapture(e.pointerId);
+      input.current.setPointerTarget(canvasPoint(e));
+      return;
+    }
+    handleEditorPointerDown(e);
+  };
 
-         if (s.pos.x > p.x + margin && s.pos.x < p.x + p.w - margin && 
-             s.pos.y > p.y + margin && s.pos.y < p.y + p.h - margin) {
-             inCorrectPasture = true;
-         }
-      }
+  const handleCanvasPointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (gameState === 'PLAYING') {
+      if (input.current.pointerTarget) input.current.setPointerTarget(canvasPoint(e));
+      return;
+    }
+    handleEditorPointerMove(e);
+  };
 
-      if (inCorrectPasture) {
-          s.state = 'SECURE';
-          s.panicLevel = Math.max(0, s.panicLevel - 0.05); 
-      } else {
-          allCorrect = false;
-          // If it was SECURE but drifted out, force state reset so it can move back
-          if (s.state === 'SECURE') {
-              s.state = 'GRAZING';
-          }
-      }
+  const handleCanvasPointerUp = () => {
+    input.current.setPointerTarget(null);
+    handleEditorPointerUp();
+  };
 
-      if (s.state === 'SECURE') {
-          s.vel = vecMult(s.vel, 0.85);
-          let settleSep = {x: 0, y: 0};
-          sheep.forEach(other => {
-              if (s !== other && other.state === 'SECURE') {
-                  const d = dist(s.pos, other.pos);
-                  if (d < SEPARATION_RADIUS) {
-                      settleSep = vecAdd(settleSep, vecMult(vecNorm(vecSub(s.pos, other.pos)), 0.5));
-                  }
-              }
-          });
-          s.vel = vecAdd(s.vel, settleSep);
-          s.pos = vecAdd(s.pos, s.vel);
-          return; 
-      }
+  // The wheel zooms the camera in and out while herding
+  const handleCanvasWheel = (e: React.WheelEvent<HTMLCanvasElement>) => {
+    const herding = gameState === 'PLAYING' || (gameState === 'ONLINE' && onlineView?.phase === 'PLAYING');
+    if (herding) zoomCamera(cameraRef.current, Math.exp(-e.deltaY * WHEEL_ZOOM_RATE));
+  };
 
-      // Forces
-      let force = { x: 0, y: 0 };
-      let separation = { x: 0, y: 0 };
-      let alignment = { x: 0, y: 0 };
-      let cohesion = { x: 0, y: 0 };
-      let flockCount = 0;
-
-      sheep.forEach(other => {
-        if (s.id !== other.id && other.state !== 'SECURE') {
-          const d = dist(s.pos, other.pos);
-          if (d < SEPARATION_RADIUS) {
-            const diff = vecNorm(vecSub(s.pos, other.pos));
-            separation = vecAdd(separation, vecMult(diff, 1.0 / d)); 
-          }
-          if (d < FLOCKING_RADIUS) {
-            alignment = vecAdd(alignment, other.vel);
-            cohesion = vecAdd(cohesion, other.pos);
-            flockCount++;
-          }
-        }
-      });
+  const handleEditorPointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const session = editorRef.current;
+    if (!session || gameState !== 'EDITOR') return;
+    const p = canvasPoint(e);
+    const world = worldRef.current;
+    e.currentTarget.setPointerCapture(e.pointerId);
+
+    if (editorTool === 'SELECT') {
+      const target = hitTest(session.level, p, world);
+      session.selected = target;
+      session.drag = target ? { target, start: p, origin: targetRect(session.level, target, world) } : null;
+    } else if (editorTool === 'ERASE') {
+      const target = hitTest(session.level, p, world);
+      if (target) removeTarget(session.level, target);
+      session.selected = null;
+    } else if (editorTool === 'PASTURE' || editorTool === 'SPAWN') {
+      session.painting = { start: p, current: p };
+    } else {
+      addObstacle(session.level, editorTool, p, world);
+    }
+    refreshEditor();
+  };
 
-      if (flockCount > 0) {
-          alignment = vecMult(vecNorm(alignment), ALIGNMENT_WEIGHT);
-          cohesion = vecMult(cohesion, 1.0 / flockCount);
-          cohesion = vecSub(cohesion, s.pos);
-          cohesion = vecMult(vecNorm(cohesion), COHESION_WEIGHT);
-      }
+  const handleEditorPointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const session = editorRef.current;
+    if (!session || gameState !== 'EDITOR') return;
+    const p = canvasPoint(e);
+    if (session.drag) {
+      applyDrag(session.level, session.drag, p, worldRef.current);
+      refreshEditor();
+    } else if (session.painting) {
+      session.painting.current = p;
+    }
+  };
 
-      if (vecMag(separation) > 0) {
-          separation = vecMult(vecNorm(separation), 2.0);
-      }
+  const handleEditorPointerUp = () => {
+    const session = editorRef.current;
+    if (!session || gameState !== 'EDITOR') return;
+    if (session.painting && (editorTool === 'PASTURE' || editorTool === 'SPAWN')) {
+      const rect = rectFromPoints(session.painting.start, session.painting.current);
+      const breed = editorTool === 'SPAWN' ? editorBreed : undefined;
+      session.selected = addRect(session.level, editorTool, editorFlock, rect, worldRef.current, breed) ?? session.selected;
+    }
+    session.drag = null;
+    session.painting = null;
+    refreshEditor();
+  };
 
-      let fear = { x: 0, y: 0 };
-      const dDog = dist(s.pos, dog.pos);
-      let perception = PERCEPTION_RADIUS;
-      let panicMult = 1.0;
-      
-      if (isDogFast) {
-          perception *= 1.2; 
-          panicMult = 1.5;
-          if (dDog < perception) s.panicLevel = Math.min(1, s.panicLevel + 0.1);
-      } else {
-          s.panicLevel = Math.max(0, s.panicLevel - 0.02);
-      }
+  const handleEditorZoneCount = (count: number) => {
+    const session = editorRef.current;
+    if (session?.selected?.kind !== 'spawn') return;
+    session.level.spawnZones[session.selected.index].count = count;
+    refreshEditor();
+  };
 
-      if (dDog < perception) {
-        const fleeDir = vecNorm(vecSub(s.pos, dog.pos));
-        const panicNoise = s.panicLevel > 0.5 ? { x: (Math.random()-0.5), y: (Math.random()-0.5) } : {x:0, y:0};
-        const finalDir = vecNorm(vecAdd(fleeDir, vecMult(panicNoise, 0.5)));
-        fear = vecMult(finalDir, 2.5 * panicMult);
-        s.state = 'FLEEING';
-      } else {
-        s.state = 'GRAZING';
-      }
+  const handleEditorName = (name: string) => {
+    if (!editorRef.current) return;
+    editorRef.current.level.name = name;
+    refreshEditor();
+  };
 
-      let avoidObs = { x: 0, y: 0 };
-      obstacles.forEach(obs => {
-          const d = dist(s.pos, obs.pos);
-          const safeDist = obs.radius + s.radius + 15;
-          if (d < safeDist) {
-              const push = vecNorm(vecSub(s.pos, obs.pos));
-              avoidObs = vecAdd(avoidObs, vecMult(push, 3.0));
-          }
-      });
+  // The layout as a level file, or null with the reason shown if it can't be played
+  const editorLevelConfig = (session: EditorSession): LevelConfig | null => {
+    try {
+      const config = checkedLevelConfig(session.level);
+      setEditorError(null);
+      return config;
+    } catch (error) {
+      console.error("Level isn't playable", error);
+      setEditorError(error instanceof Error ? error.message : "Level isn't playable");
+      return null;
+    }
+  };
 
-      let wall = { x: 0, y: 0 };
-      const margin = 35;
-      if (s.pos.x < margin) wall.x += 1;
-      if (s.pos.x > w - margin) wall.x -= 1;
-      if (s.pos.y < margin) wall.y += 1;
-      if (s.pos.y > h - margin) wall.y -= 1;
-      if (wall.x !== 0 || wall.y !== 0) wall = vecMult(vecNorm(wall), 4.0);
-
-      force = vecAdd(force, vecMult(separation, 3.5));
-      force = vecAdd(force, alignment);
-      force = vecAdd(force, cohesion);
-      force = vecAdd(force, fear);
-      force = vecAdd(force, avoidObs);
-      force = vecAdd(force, wall);
-
-      if (s.state === 'GRAZING') {
-         const wander = { 
-           x: (Math.random() - 0.5) * 0.4, 
-           y: (Math.random() - 0.5) * 0.4 
-         };
-         force = vecAdd(force, wander);
-      }
+  const handleEditorTest = () => {
+    const session = editorRef.current;
+    if (!session) return;
+    const config = editorLevelConfig(session);
+    if (!config) return;
+    customLevelRef.current = config;
+    audio.init();
+    setLevel(1);
+    initLevel(1, seed);
+  };
 
-      s.vel = vecAdd(s.vel, vecMult(force, 0.15));
-      const maxSpeed = s.state === 'FLEEING' ? SHEEP_MAX_SPEED * (1 + s.panicLevel * 0.5) : SHEEP_WANDER_SPEED;
-      s.vel = vecLimit(s.vel, maxSpeed);
-      s.pos = vecAdd(s.pos, s.vel);
+  const handleEditorExport = () => {
+    const session = editorRef.current;
+    if (!session) return;
+    const config = editorLevelConfig(session);
+    if (!config) return;
+    const slug = session.level.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'pasture';
+    downloadJson(config, `${slug}.json`);
+  };
 
-      s.pos.x = Math.max(s.radius, Math.min(w - s.radius, s.pos.x));
-      s.pos.y = Math.max(s.radius, Math.min(h - s.radius, s.pos.y));
-    });
+  const handleLevelFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !editorRef.current) return;
+    try {
+      const config = parseLevelConfig(JSON.parse(await file.text()), file.name);
+      editorRef.current.level = toEditable(config, levelWorld(config), seed);
+      editorRef.current.selected = null;
+      setEditorError(null);
+      refreshEditor();
+    } catch (error) {
+      console.error("Could not import level", error);
+      setEditorError(error instanceof Error ? error.message : "Could not import level");
+    }
+  };
 
-    if (allCorrect && !state.current.isLevelComplete) {
-      state.current.isLevelComplete = true;
-      state.current.isPlaying = false;
-      setGameState('WON');
+  // Ask the model for a layout and load it in place of the current one, ready to tweak and test
+  const handleEditorGenerate = async (description: string) => {
+    setEditorGenerating(true);
+    setEditorError(null);
+    setEditorNotice(null);
+    try {
+      const { config, fixes } = await generateLevelLayout(description);
+      if (!editorRef.current) return;
+      editorRef.current.level = toEditable(config, levelWorld(config), seed);
+      editorRef.current.selected = null;
+      setEditorNotice(fixes.length > 0 ? `Adjusted: ${fixes.join('; ')}` : null);
+      refreshEditor();
+    } catch (error) {
+      console.error("Could not generate level", error);
+      setEditorError(error instanceof Error ? error.message : "Could not generate level");
+    } finally {
+      setEditorGenerating(false);
     }
   };
 
-  // --- Rendering Helpers ---
-  const drawWobblyCircle = (ctx: CanvasRenderingContext2D, x: number, y: number, r: number, color: string, offset: number) => {
-    ctx.beginPath();
-    const segments = 12;
-    const step = (Math.PI * 2) / segments;
-    for (let i = 0; i <= segments; i++) {
-        const theta = i * step;
-        const rNoise = r + Math.sin(theta * 5 + offset) * 1.5;
-        const px = x + Math.cos(theta) * rNoise;
-        const py = y + Math.sin(theta) * rNoise;
-        if (i === 0) ctx.moveTo(px, py);
-        else ctx.lineTo(px, py);
+  const handleBackToEditor = () => {
+    flow.send('BACK_TO_EDITOR');
+  };
+
+  const handleNextLevel = () => {
+    if (customLevelRef.current) {
+      handleBackToEditor();
+      return;
+    }
+    const nextLevel = level + 1;
+    if (nextLevel > MAX_LEVELS) {
+      flow.send('FINISH_RUN');
+    } else {
+      setLevel(nextLevel);
+      initLevel(nextLevel, seed);
     }
-    ctx.closePath();
-    ctx.fillStyle = color;
-    ctx.fill();
-    ctx.strokeStyle = 'rgba(0,0,0,0.1)';
-    ctx.lineWidth = 1;
-    ctx.stroke();
+  };
+  
+  // Same field, same seed: straight back to the start screen
+  const handleRetry = () => {
+    if (flow.send('RETRY')) buildLevel(state.current.level, state.current.seed);
   };
 
-  const drawShadow = (ctx: CanvasRenderingContext2D, x: number, y: number, r: number) => {
-      ctx.beginPath();
-      ctx.ellipse(x, y + r * 0.5, r, r * 0.4, 0, 0, Math.PI * 2);
-      ctx.fillStyle = COLORS.shadow;
-      ctx.fill();
+  const handleRestart = () => {
+      setLevel(1);
+      setRunResults([]);
+      setSeed(randomSeed());
+      flow.send('QUIT');
   };
 
-  // --- Rendering ---
-  const draw = (ctx: CanvasRenderingContext2D, time: number) => {
-    const { w, h } = dimensions.current;
-    
-    ctx.fillStyle = COLORS.grass;
-    ctx.fillRect(0, 0, w, h);
-    
-    // Draw Grass with Physics (Bending)
-    const { dog, sheep, obstacles, dogPalette } = state.current;
-    
-    ctx.fillStyle = COLORS.grassDetails;
-    grassRef.current.forEach(g => {
-        let offsetX = 0;
-        let offsetY = 0;
-
-        // Bending logic: Check distance to Dog
-        const dDog = Math.sqrt(Math.pow(dog.pos.x - g.x, 2) + Math.pow(dog.pos.y - g.y, 2));
-        if (dDog < dog.radius + 20) {
-            const angle = Math.atan2(g.y - dog.pos.y, g.x - dog.pos.x);
-            const force = (dog.radius + 20 - dDog) / 10;
-            offsetX += Math.cos(angle) * force * 2;
-            offsetY += Math.sin(angle) * force * 2;
-        }
+  // --- Pause ---
+  // The level holds still while paused: the loop stops feeding the fixed timestep. Held
+  // input is dropped both ways, and leaving the pause menu for anywhere else ends the run.
+  const pauseGame = () => {
+    flow.send('PAUSE');
+  };
 
-        // Bending logic: Check distance to Sheep (Optimization: check minimal dist)
-        // We iterate all sheep, but since grass count is low, it's okay for minimal feel.
-        for (const s of sheep) {
-            const dSheep = Math.sqrt(Math.pow(s.pos.x - g.x, 2) + Math.pow(s.pos.y - g.y, 2));
-            if (dSheep < s.radius + 15) {
-                const angle = Math.atan2(g.y - s.pos.y, g.x - s.pos.x);
-                const force = (s.radius + 15 - dSheep) / 8;
-                offsetX += Math.cos(angle) * force * 2;
-                offsetY += Math.sin(angle) * force * 2;
-                // Break early if we found a sheep close enough to save perf? 
-                // No, additive bending looks better if multiple are close.
-            }
-        }
+  const resumeGame = () => {
+    flow.send('RESUME');
+  };
+
+  const handleChangeCompanion = () => {
+    changingCompanionRef.current = true;
+    setPickingPlayer(0);
+    flow.send('CHOOSE_COMPANION');
+  };
+
+  const handleQuit = () => {
+    if (customLevelRef.current) handleBackToEditor();
+    else handleRestart();
+  };
+
+  // --- Rendering ---
+  // Spawn zones, selection and resize handles on top of the editor preview
+  const drawEditorOverlay = (ctx: CanvasRenderingContext2D, session: EditorSession, world: { w: number, h: number }) => {
+    const toPx = (r: { x: number, y: number, w: number, h: number }) => ({ x: r.x * world.w, y: r.y * world.h, w: r.w * world.w, h: r.h * world.h });
+    const isSelected = (kind: string, index: number) => session.selected?.kind === kind && session.selected.index === index;
 
+    const drawHandles = (r: { x: number, y: number, w: number, h: number }) => {
+      ctx.fillStyle = '#fff';
+      ctx.strokeStyle = COLORS.fence;
+      ctx.lineWidth = 2;
+      Object.values(rectCorners(r)).forEach(c => {
         ctx.beginPath();
-        const gx = g.x + offsetX;
-        const gy = g.y + offsetY;
-        ctx.arc(gx, gy, g.size, 0, Math.PI*2);
+        ctx.arc(c.x, c.y, HANDLE_SIZE * 0.6, 0, Math.PI * 2);
         ctx.fill();
+        ctx.stroke();
+      });
+    };
+
+    ctx.font = '600 13px Outfit';
+    ctx.textAlign = 'center';
+    session.level.spawnZones.forEach((z, i) => {
+      const r = toPx(z.bounds);
+      const breed = BREEDS[z.breed ?? defaultBreedFor(z.type)];
+      const tint = PASTURE_SETTINGS.find(p => p.type === breed.pasture) ?? PASTURE_SETTINGS[0];
+      ctx.fillStyle = tint.color;
+      ctx.fillRect(r.x, r.y, r.w, r.h);
+      ctx.strokeStyle = isSelected('spawn', i) ? '#7ea157' : tint.borderColor;
+      ctx.lineWidth = isSelected('spawn', i) ? 3 : 1.5;
+      ctx.setLineDash([6, 6]);
+      ctx.strokeRect(r.x, r.y, r.w, r.h);
+      ctx.setLineDash([]);
+      ctx.fillStyle = tint.borderColor;
+      ctx.fillText(`${z.count} ${breed.name.toLowerCase()}`, r.x + r.w / 2, r.y + r.h + 16);
+      if (editorTool === 'SELECT') drawHandles(r);
     });
 
-    pasturesRef.current.forEach(p => {
-      ctx.fillStyle = p.color;
+    session.pastures.forEach((p, i) => {
+      if (isSelected('pasture', i)) {
+        ctx.strokeStyle = '#7ea157';
+        ctx.lineWidth = 3;
+        ctx.strokeRect(p.bounds.x - 4, p.bounds.y - 4, p.bounds.w + 8, p.bounds.h + 8);
+      }
+      if (editorTool === 'SELECT') drawHandles(p.bounds);
+    });
+
+    if (session.selected?.kind === 'obstacle') {
+      const o = session.preview.obstacles[session.selected.index];
+      if (o) {
+        ctx.strokeStyle = '#7ea157';
+        ctx.lineWidth = 3;
+        ctx.beginPath();
+        ctx.arc(o.pos.x, o.pos.y, o.radius + 6, 0, Math.PI * 2);
+        ctx.stroke();
+      }
+    }
+
+    if (session.painting) {
+      const r = rectFromPoints(session.painting.start, session.painting.current);
+      ctx.strokeStyle = COLORS.fence;
+      ctx.lineWidth = 2;
+      ctx.setLineDash([4, 4]);
+      ctx.strokeRect(r.x, r.y, r.w, r.h);
+      ctx.setLineDash([]);
+    }
+  };
+
+  // The field through a camera: the cached background, then the entities, with the window
+  // around the field filled in wherever it doesn't reach. Leaves the camera's transform in
+  // place for anything drawn on top in world coordinates.
+  const drawView = (ctx: CanvasRenderingContext2D, time: number, game: GameState, world: WorldSize, pastures: PastureView[], camera: Camera, lighting = true) => {
+    const viewport = viewportRef.current;
+    ctx.setTransform(viewport.dpr, 0, 0, viewport.dpr, 0, 0);
+    ctx.fillStyle = '#f0f4f0';
+    ctx.fillRect(0, 0, viewport.w, viewport.h);
+    applyCamera(ctx, camera, viewport, viewport.dpr);
+    background.draw(ctx, world, viewport.dpr, camera.zoom, [pastures, game.fences, game.obstacles, accessibilityRef.current], bg => drawBackground(bg, game, world, pastures, accessibilityRef.current));
+    drawEntities(ctx, time, game, world, grassFor(world), accessibilityRef.current, lighting);
+    viewRef.current = camera;
+  };
+
+  // UI overlay, in screen space: the whole field in the corner with its pastures, obstacles,
+  // the flock, the dogs and the part on screen
+  const drawMinimap = (ctx: CanvasRenderingContext2D, game: GameState, world: WorldSize, pastures: PastureView[], camera: Camera) => {
+    const viewport = viewportRef.current;
+    const scale = MINIMAP_WIDTH / world.w;
+    const left = viewport.w - MINIMAP_WIDTH - MINIMAP_MARGIN;
+    const top = MINIMAP_TOP;
+    const at = (p: Vector2) => ({ x: left + p.x * scale, y: top + p.y * scale });
+    const dot = (p: Vector2, r: number) => {
+      const m = at(p);
       ctx.beginPath();
-      ctx.roundRect(p.bounds.x, p.bounds.y, p.bounds.w, p.bounds.h, 12);
+      ctx.arc(m.x, m.y, r, 0, Math.PI * 2);
       ctx.fill();
-      
-      ctx.strokeStyle = COLORS.fence;
-      ctx.lineWidth = 3;
-      ctx.lineCap = 'round';
-      ctx.setLineDash([15, 10]);
+    };
+
+    ctx.setTransform(viewport.dpr, 0, 0, viewport.dpr, 0, 0);
+    ctx.save();
+    ctx.fillStyle = COLORS.grass;
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.9)';
+    ctx.lineWidth = 2;
+    ctx.fillRect(left, top, MINIMAP_WIDTH, world.h * scale);
+    ctx.strokeRect(left, top, MINIMAP_WIDTH, world.h * scale);
+    ctx.beginPath();
+    ctx.rect(left, top, MINIMAP_WIDTH, world.h * scale);
+    ctx.clip();
+
+    const { highContrast } = accessibilityRef.current;
+    pastures.forEach(p => {
+      ctx.fillStyle = highContrast ? HIGH_CONTRAST_FLOCKS[p.type].pasture : p.color;
+      ctx.strokeStyle = highContrast ? HIGH_CONTRAST_FLOCKS[p.type].border : COLORS.fence;
+      ctx.lineWidth = 1;
       ctx.beginPath();
-      ctx.roundRect(p.bounds.x, p.bounds.y, p.bounds.w, p.bounds.h, 12);
+      p.outline.forEach((pt, i) => {
+        const m = at(pt);
+        if (i === 0) ctx.moveTo(m.x, m.y);
+        else ctx.lineTo(m.x, m.y);
+      });
+      ctx.closePath();
+      ctx.fill();
       ctx.stroke();
-      ctx.setLineDash([]);
+    });
 
-      ctx.fillStyle = COLORS.fence;
-      ctx.font = '600 16px Outfit';
-      ctx.textAlign = 'center';
-      ctx.fillText(p.label, p.bounds.x + p.bounds.w/2, p.bounds.y - 12);
+    game.obstacles.forEach(o => {
+      ctx.fillStyle = o.type === 'ROCK' ? COLORS.rockShadow : COLORS.bushLeaves;
+      dot(o.pos, Math.max(1.5, o.radius * scale));
     });
 
-    const renderList = [
-        ...sheep.map(s => ({ type: 'sheep', obj: s, y: s.pos.y })),
-        ...obstacles.map(o => ({ type: 'obstacle', obj: o, y: o.pos.y })),
-        { type: 'dog', obj: dog, y: dog.pos.y }
-    ].sort((a, b) => a.y - b.y);
-
-    renderList.forEach(item => {
-        if (item.type === 'obstacle') {
-            const obs = item.obj as Obstacle;
-            drawShadow(ctx, obs.pos.x, obs.pos.y, obs.radius * 1.2);
-            if (obs.type === 'ROCK') {
-                drawWobblyCircle(ctx, obs.pos.x, obs.pos.y, obs.radius, COLORS.rock, obs.wobbleOffset);
-                ctx.fillStyle = COLORS.rockShadow;
-                ctx.beginPath();
-                ctx.arc(obs.pos.x - 5, obs.pos.y - 5, obs.radius * 0.3, 0, Math.PI*2);
-                ctx.fill();
-            } else {
-                ctx.fillStyle = COLORS.treeTrunk;
-                ctx.beginPath();
-                ctx.arc(obs.pos.x, obs.pos.y, obs.radius * 0.3, 0, Math.PI*2);
-                ctx.fill();
-                drawWobblyCircle(ctx, obs.pos.x, obs.pos.y - 15, obs.radius, COLORS.treeLeaves, obs.wobbleOffset + time * 0.001);
-            }
-        }
-        else if (item.type === 'sheep') {
-            const s = item.obj as Sheep;
-            drawShadow(ctx, s.pos.x, s.pos.y, s.radius);
-            
-            const color = s.type === SheepType.WHITE ? COLORS.sheepWhite : COLORS.sheepBlack;
-            const wobble = s.state === 'FLEEING' ? time * 0.02 : s.wobbleOffset;
-            
-            drawWobblyCircle(ctx, s.pos.x, s.pos.y, s.radius, color, wobble);
-
-            const headOffset = vecMult(vecNorm(s.vel), s.radius * 0.5);
-            const headX = s.pos.x + (vecMag(s.vel) > 0.1 ? headOffset.x : 0);
-            const headY = s.pos.y + (vecMag(s.vel) > 0.1 ? headOffset.y : 0);
-            
-            const headColor = s.type === SheepType.WHITE ? COLORS.sheepWhiteShadow : COLORS.sheepBlackShadow;
-            ctx.fillStyle = headColor;
-            ctx.beginPath();
-            ctx.arc(headX, headY, s.radius * 0.6, 0, Math.PI*2);
-            ctx.fill();
-
-            if (s.state === 'FLEEING' && s.panicLevel > 0.5) {
-                ctx.fillStyle = '#60a5fa'; 
-                const dropY = s.pos.y - s.radius - 5 - Math.sin(time * 0.01) * 3;
-                ctx.beginPath();
-                ctx.arc(s.pos.x + 5, dropY, 3, 0, Math.PI*2);
-                ctx.fill();
-            }
-        }
-        else if (item.type === 'dog') {
-            const d = item.obj as any;
-            const isIdle = vecMag(d.vel) < 0.2;
-            
-            // Breathing animation
-            const breath = isIdle ? Math.sin(time * 0.005) * 0.8 : 0;
-            const r = d.radius + breath;
-
-            drawShadow(ctx, d.pos.x, d.pos.y, r);
-            
-            // Body Main Color
-            ctx.fillStyle = dogPalette.primary;
-            ctx.beginPath();
-            ctx.arc(d.pos.x, d.pos.y, r, 0, Math.PI * 2);
-            ctx.fill();
-            
-            // White Markings
-            ctx.fillStyle = dogPalette.secondary;
-            ctx.beginPath();
-            ctx.arc(d.pos.x, d.pos.y, r * 0.5, 0, Math.PI * 2);
-            ctx.fill();
-
-            // Collar
-            ctx.strokeStyle = COLORS.dogCollar;
-            ctx.lineWidth = 2.5;
-            ctx.beginPath();
-            ctx.arc(d.pos.x, d.pos.y, r, 0, Math.PI * 2);
-            ctx.stroke();
-
-            // Head/Snout indicator (Uses facingDir now)
-            // Normalized facingDir stored in d.facingDir
-            const snoutX = d.pos.x + d.facingDir.x * r * 0.7;
-            const snoutY = d.pos.y + d.facingDir.y * r * 0.7;
-            ctx.fillStyle = '#111';
-            ctx.beginPath();
-            ctx.arc(snoutX, snoutY, 3, 0, Math.PI*2);
-            ctx.fill();
-        }
+    game.sheep.forEach(s => {
+      if (highContrast) ctx.fillStyle = HIGH_CONTRAST_FLOCKS[s.type].body;
+      else ctx.fillStyle = s.type === SheepType.BLACK ? COLORS.sheepBlack : s.type === SheepType.GOAT ? COLORS.goat : COLORS.sheepWhite;
+      dot(s.pos, 1.75);
+    });
+
+    // Ringed in black on high contrast, where the pens are pale
+    game.dogs.forEach(d => {
+      ctx.fillStyle = highContrast ? '#000' : '#fff';
+      dot(d.pos, 4);
+      ctx.fillStyle = d.palette.primary;
+      dot(d.pos, 2.75);
     });
+
+    // What's on screen right now
+    const halfW = viewport.w / camera.zoom / 2;
+    const halfH = viewport.h / camera.zoom / 2;
+    const corner = at({ x: camera.x - halfW, y: camera.y - halfH });
+    ctx.strokeStyle = 'rgba(85, 107, 62, 0.9)';
+    ctx.lineWidth = 1.5;
+    ctx.strokeRect(corner.x, corner.y, halfW * 2 * scale, halfH * 2 * scale);
+    ctx.restore();
+  };
+
+  // Ease the play camera toward its target; `focus` follows only that dog
+  const moveCamera = (game: GameState, world: WorldSize, viewport: WorldSize, dt: number, focus?: number) => {
+    const camera = cameraRef.current;
+    updateCamera(camera, cameraTarget(camera, game, world, viewport, focus), world, viewport, dt);
+    return camera;
   };
 
   const loop = useCallback((time: number) => {
     const canvas = canvasRef.current;
+    // Camera easing runs on frame time; a long stall (hidden tab) shouldn't swing it
+    const frameSeconds = Math.min(0.1, Math.max(0, (time - lastFrameRef.current) / 1000));
+    lastFrameRef.current = time;
     if (canvas) {
-      const ctx = canvas.getContext('2d');
-      if (ctx) {
-        updatePhysics();
-        draw(ctx, time);
+      // Fetched once; resizing the canvas resets the context's state but keeps the object
+      const ctx = contextRef.current ?? (contextRef.current = canvas.getContext('2d'));
+      const viewport = viewportRef.current;
+      const session = replayRef.current;
+      const editor = editorRef.current;
+      const demo = demoRef.current;
+      const online = onlineRef.current;
+      if (ctx && editor && flow.screen === 'EDITOR') {
+        drawView(ctx, time, editor.preview, worldRef.current, editor.pastures, fitCamera(worldRef.current, viewport), false);
+        drawEditorOverlay(ctx, editor, worldRef.current);
+      } else if (ctx && session) {
+        const { player } = session;
+        const ticks = session.timestep.advance(time, () => player.step(), session.paused ? 0 : session.speed);
+        if (ticks > 0) syncReplayView();
+
+        drawView(ctx, time, player.state, player.replay.world, player.pastures, fitCamera(player.replay.world, viewport));
+      } else if (ctx && online && flow.screen === 'ONLINE') {
+        // Our own dog is steered from local input; everything else is what the server sends
+        const { session } = online;
+        const shown = session.stateAt(time);
+        online.timestep.advance(time, () => {
+          const dogIndex = session.me?.dogIndex ?? null;
+          if (!shown || dogIndex === null || !shown.dogs[dogIndex]) return;
+          session.sendInput(quantizeInput(input.current.read(shown.dogs[dogIndex].pos)));
+        });
+        if (shown) {
+          const dogIndex = session.me?.dogIndex ?? undefined;
+          const camera = moveCamera(shown, session.world, viewport, frameSeconds, dogIndex);
+          if (online.framed !== session.base) {
+            snapCamera(camera, cameraTarget(camera, shown, session.world, viewport, dogIndex));
+            online.framed = session.base;
+          }
+          drawView(ctx, time, shown, session.world, session.pastures, camera);
+          if (session.phase === 'PLAYING') drawMinimap(ctx, shown, session.world, session.pastures, camera);
+        } else {
+          drawView(ctx, time, state.current, worldRef.current, pasturesRef.current, fitCamera(worldRef.current, viewport));
+        }
+      } else if (ctx && demo && flow.screen === 'INTRO') {
+        demo.timestep.advance(time, () => {
+          const current = demoRef.current!;
+          const { state: game, pastures, world } = current;
+          if (!game.isPlaying || game.timeElapsed > game.parTime * DEMO_TIME_LIMIT) {
+            demoRef.current = createDemo(game, (game.level % MAX_LEVELS) + 1);
+            return;
+          }
+          stepSimulation(game, pastures, world, [quantizeInput(current.pilot.read(game, pastures, world))]);
+        });
+        const shown = demoRef.current!;
+        drawView(ctx, time, shown.state, shown.world, shown.pastures, fitCamera(shown.world, viewport));
+      } else if (ctx) {
+        const paused = flow.screen === 'PAUSED';
+        timestep.current.advance(time, () => {
+          if (!state.current.isPlaying) return;
+          const tickInputs = state.current.dogs.map((dog, i) => quantizeInput(input.current.read(dog.pos, bindingsRef.current[i])));
+          recorderRef.current?.record(tickInputs);
+          const { levelComplete, levelFailed, barked, layDown, howled, sheepTaken, penned } = stepSimulation(
+            state.current,
+            pasturesRef.current,
+            worldRef.current,
+            tickInputs
+          );
+          audio.listen(state.current, worldRef.current, FIXED_STEP_MS / 1000);
+          if (barked) audio.bark();
+          if (layDown) audio.whistle();
+          if (howled) audio.howl();
+          if (penned > 0) audio.chime(state.current.sheep.filter(s => s.state === 'SECURE').length);
+          if (penned > 0) setAnnouncement(securedAnnouncement(state.current));
+          if (sheepTaken) setAnnouncement(takenAnnouncement(state.current));
+          if (levelFailed) {
+            lastReplayRef.current = recorderRef.current?.finish() ?? null;
+            recorderRef.current = null;
+            setLastResult(scoreLevel(state.current));
+            setAnnouncement('The wolves got in');
+            flow.send('LOSE');
+          }
+          if (levelComplete) {
+            lastReplayRef.current = recorderRef.current?.finish() ?? null;
+            recorderRef.current = null;
+            const result = scoreLevel(state.current);
+            audio.resolve();
+            setLastResult(result);
+            setAnnouncement('Pasture secured');
+            if (!customLevelRef.current) {
+              const finished = state.current.level;
+              setRunResults(results => [...results, { level: finished, result }]);
+              setProgress(p => recordLevelResult(p, finished, result, MAX_LEVELS));
+            }
+            flow.send('WIN');
+          }
+        }, paused ? 0 : accessibilityRef.current.gameSpeed);
+        const camera = moveCamera(state.current, worldRef.current, viewport, frameSeconds);
+        drawView(ctx, time, state.current, worldRef.current, pasturesRef.current, camera);
+        if (flow.screen === 'PLAYING') drawMinimap(ctx, state.current, worldRef.current, pasturesRef.current, camera);
       }
     }
     requestRef.current = requestAnimationFrame(loop);
@@ -783,10 +1014,41 @@ const HerdingGame: React.FC = () => {
     };
   }, [loop]);
 
+  // HUD readout and ambience don't need to follow every frame
+  useEffect(() => {
+    if (gameState !== 'PLAYING') return;
+    const sync = () => {
+      const { score, timeElapsed, environment, stats } = state.current;
+      setHud({ score, time: timeElapsed, hour: environment.hour, weather: environment.weather, lost: stats.sheepLost });
+      audio.setEnvironment(state.current.environment, state.current.timeElapsed);
+      audio.setCalm(flockCalm(state.current.sheep));
+    };
+    sync();
+    const id = window.setInterval(sync, 250);
+    return () => {
+      window.clearInterval(id);
+      audio.setEnvironment(createEnvironment(), 0);
+      audio.setCalm(0);
+    };
+  }, [gameState]);
+
   // Key listeners
   useEffect(() => {
-    const handleDown = (e: KeyboardEvent) => { keys.current[e.key] = true; };
-    const handleUp = (e: KeyboardEvent) => { keys.current[e.key] = false; };
+    const handleDown = (e: KeyboardEvent) => {
+      // Space and Enter bark; don't let them scroll or press a focused button mid-level
+      const herding = flow.screen === 'PLAYING' || (flow.screen === 'ONLINE' && onlineRef.current?.session.phase === 'PLAYING');
+      if ((e.key === ' ' || e.key === 'Enter') && herding) e.preventDefault();
+      if (e.key === 'Escape' && flow.can('PAUSE')) pauseGame();
+      else if (e.key === 'Escape' && flow.can('RESUME')) resumeGame();
+      // C switches between following the dog and framing the flock; + and - zoom
+      if (herding && !e.repeat) {
+        if (e.key === 'c' || e.key === 'C') toggleCameraMode();
+        if (e.key === '+' || e.key === '=') zoomCamera(cameraRef.current, KEY_ZOOM_STEP);
+        if (e.key === '-' || e.key === '_') zoomCamera(cameraRef.current, 1 / KEY_ZOOM_STEP);
+      }
+      input.current.keyDown(e.code);
+    };
+    const handleUp = (e: KeyboardEvent) => { input.current.keyUp(e.code); };
     window.addEventListener('keydown', handleDown);
     window.addEventListener('keyup', handleUp);
     return () => {
@@ -795,76 +1057,214 @@ const HerdingGame: React.FC = () => {
     };
   }, []);
 
+  // Switching tabs or windows pauses a level in progress; either way every held key is let go
+  useEffect(() => {
+    const handleBlur = () => {
+      if (flow.can('PAUSE')) pauseGame();
+      else input.current.clear();
+    };
+    const handleVisibility = () => { if (document.hidden) handleBlur(); };
+    window.addEventListener('blur', handleBlur);
+    document.addEventListener('visibilitychange', handleVisibility);
+    return () => {
+      window.removeEventListener('blur', handleBlur);
+      document.removeEventListener('visibilitychange', handleVisibility);
+    };
+  }, []);
+
+  // Attract mode: leave the intro screen alone for a while and the autopilot takes the
+  // field. Any key, click or touch brings the intro back.
+  useEffect(() => {
+    if (gameState !== 'INTRO') return;
+    let timer = 0;
+    const idle = () => {
+      window.clearTimeout(timer);
+      timer = window.setTimeout(() => {
+        demoRef.current = createDemo(state.current, 1);
+        setDemoActive(true);
+      }, DEMO_IDLE_MS);
+    };
+    const wake = () => {
+      if (demoRef.current) {
+        demoRef.current = null;
+        setDemoActive(false);
+      }
+      idle();
+    };
+    const events = ['keydown', 'pointerdown', 'pointermove', 'wheel'];
+    events.forEach(e => window.addEventListener(e, wake));
+    idle();
+    return () => {
+      window.clearTimeout(timer);
+      events.forEach(e => window.removeEventListener(e, wake));
+      demoRef.current = null;
+      setDemoActive(false);
+    };
+  }, [gameState]);
+
+  // Control hints follow whatever device is plugged in
+  useEffect(() => {
+    const refresh = () => setControlScheme(detectControlScheme());
+    window.addEventListener('gamepadconnected', refresh);
+    window.addEventListener('gamepaddisconnected', refresh);
+    return () => {
+      window.removeEventListener('gamepadconnected', refresh);
+      window.removeEventListener('gamepaddisconnected', refresh);
+    };
+  }, []);
+
   return (
     <div className="relative w-full h-full overflow-hidden shadow-2xl bg-white">
       <canvas 
         ref={canvasRef} 
-        width={windowSize.w} 
-        height={windowSize.h}
-        className="block bg-[#dbe7c5] cursor-none w-full h-full"
+        width={Math.round(windowSize.w * windowSize.dpr)}
+        height={Math.round(windowSize.h * windowSize.dpr)}
+        className={`block bg-[#dbe7c5] w-full h-full touch-none ${gameState === 'EDITOR' ? 'cursor-crosshair' : 'cursor-none'}`}
+        onPointerDown={handleCanvasPointerDown}
+        onPointerMove={handleCanvasPointerMove}
+        onPointerUp={handleCanvasPointerUp}
+        onPointerCancel={handleCanvasPointerUp}
+        onWheel={handleCanvasWheel}
       />
 
       {/* Intro Screen */}
       {gameState === 'INTRO' && (
-        <div className="absolute inset-0 bg-[#f4f6f0] flex flex-col items-center justify-center text-stone-800 p-8 text-center animate-in fade-in z-20">
+        <div className={`absolute inset-0 ${demoActive ? 'bg-[#f4f6f0]/30 pointer-events-none' : 'bg-[#f4f6f0]'} flex flex-col items-center justify-center text-stone-800 p-8 text-center animate-in fade-in z-20`}>
            <h1 className="text-6xl font-serif mb-4 text-[#556b3e] tracking-tighter">Herdlight</h1>
            <p className="text-xl font-light italic opacity-70 mb-12">Harmony in the fields.</p>
            
-           <div className="flex flex-col gap-6 mb-12 text-stone-600 bg-white/50 p-6 rounded-2xl border border-stone-200">
-                <div className="flex items-center justify-center gap-4">
-                    <div className="flex gap-2">
-                        <div className="w-10 h-10 bg-white border-2 border-stone-300 rounded-lg flex items-center justify-center font-bold text-stone-500 shadow-sm">W</div>
-                        <div className="w-10 h-10 bg-white border-2 border-stone-300 rounded-lg flex items-center justify-center font-bold text-stone-500 shadow-sm">A</div>
-                        <div className="w-10 h-10 bg-white border-2 border-stone-300 rounded-lg flex items-center justify-center font-bold text-stone-500 shadow-sm">S</div>
-                        <div className="w-10 h-10 bg-white border-2 border-stone-300 rounded-lg flex items-center justify-center font-bold text-stone-500 shadow-sm">D</div>
-                    </div>
-                    <span className="text-sm uppercase tracking-widest opacity-50 font-bold">OR</span>
-                    <div className="flex gap-2">
-                        <div className="w-10 h-10 bg-white border-2 border-stone-300 rounded-lg flex items-center justify-center text-stone-500 shadow-sm">↑</div>
-                        <div className="w-10 h-10 bg-white border-2 border-stone-300 rounded-lg flex items-center justify-center text-stone-500 shadow-sm">←</div>
-                        <div className="w-10 h-10 bg-white border-2 border-stone-300 rounded-lg flex items-center justify-center text-stone-500 shadow-sm">↓</div>
-                        <div className="w-10 h-10 bg-white border-2 border-stone-300 rounded-lg flex items-center justify-center text-stone-500 shadow-sm">→</div>
-                    </div>
-                </div>
-                <p className="text-lg font-serif">Move your faithful companion to guide the flock.</p>
-                <div className="flex items-center justify-center gap-6 text-sm opacity-90">
-                    <div className="flex items-center gap-2">
-                        <div className="w-4 h-4 rounded-full bg-[#fcfcfc] border border-stone-300 shadow-sm"></div>
-                        <span>White Sheep</span>
-                        <ArrowRight className="w-4 h-4 opacity-50" />
-                        <span className="font-bold text-[#a3a3a3]">Light Pasture</span>
-                    </div>
-                    <div className="flex items-center gap-2">
-                        <div className="w-4 h-4 rounded-full bg-[#383838] shadow-sm"></div>
-                        <span>Dark Sheep</span>
-                        <ArrowRight className="w-4 h-4 opacity-50" />
-                        <span className="font-bold text-[#6b7280]">Dark Pasture</span>
-                    </div>
-                </div>
-           </div>
+           {demoActive ? (
+             <p className="text-lg font-serif text-stone-600 bg-white/60 px-6 py-3 rounded-full animate-pulse">Press any key to play</p>
+           ) : (
+             <>
+             <div className="flex flex-col gap-6 mb-12 text-stone-600 bg-white/50 p-6 rounded-2xl border border-stone-200">
+                  {controlScheme === 'keyboard' && (
+                      <div className="flex items-center justify-center gap-4">
+                          <div className="flex gap-2">
+                              <div className="w-10 h-10 bg-white border-2 border-stone-300 rounded-lg flex items-center justify-center font-bold text-stone-500 shadow-sm">W</div>
+                              <div className="w-10 h-10 bg-white border-2 border-stone-300 rounded-lg flex items-center justify-center font-bold text-stone-500 shadow-sm">A</div>
+                              <div className="w-10 h-10 bg-white border-2 border-stone-300 rounded-lg flex items-center justify-center font-bold text-stone-500 shadow-sm">S</div>
+                              <div className="w-10 h-10 bg-white border-2 border-stone-300 rounded-lg flex items-center justify-center font-bold text-stone-500 shadow-sm">D</div>
+                          </div>
+                          <span className="text-sm uppercase tracking-widest opacity-50 font-bold">OR</span>
+                          <div className="flex gap-2">
+                              <div className="w-10 h-10 bg-white border-2 border-stone-300 rounded-lg flex items-center justify-center text-stone-500 shadow-sm">↑</div>
+                              <div className="w-10 h-10 bg-white border-2 border-stone-300 rounded-lg flex items-center justify-center text-stone-500 shadow-sm">←</div>
+                              <div className="w-10 h-10 bg-white border-2 border-stone-300 rounded-lg flex items-center justify-center text-stone-500 shadow-sm">↓</div>
+                              <div className="w-10 h-10 bg-white border-2 border-stone-300 rounded-lg flex items-center justify-center text-stone-500 shadow-sm">→</div>
+                          </div>
+                      </div>
+                  )}
+                  {controlScheme === 'keyboard' && (
+                      <div className="flex items-center justify-center gap-6 text-sm text-stone-500">
+                          <span><span className="px-3 py-1 bg-white border-2 border-stone-300 rounded-lg font-bold shadow-sm mr-2">Space</span>Bark to push</span>
+                          <span><span className="px-3 py-1 bg-white border-2 border-stone-300 rounded-lg font-bold shadow-sm mr-2">Shift</span>Hold to lie down and calm</span>
+                      </div>
+                  )}
+                  {controlScheme === 'touch' && (
+                      <div className="flex items-center justify-center gap-3 text-stone-500">
+                          <Hand className="w-8 h-8" />
+                          <span>Hold a finger on the field for your companion to follow, or use the thumbstick. Bark to push the flock, lie down to calm it.</span>
+                      </div>
+                  )}
+                  {controlScheme === 'gamepad' && (
+                      <div className="flex items-center justify-center gap-3 text-stone-500">
+                          <Gamepad2 className="w-8 h-8" />
+                          <span>Left stick to move. Press gently to walk, fully to run. A to bark, hold B to lie down.</span>
+                      </div>
+                  )}
+                  <p className="text-lg font-serif">Move your faithful companion to guide the flock.</p>
+                  <div className="flex items-center justify-center gap-6 text-sm opacity-90">
+                      <div className="flex items-center gap-2">
+                          <div className="w-4 h-4 rounded-full bg-[#fcfcfc] border border-stone-300 shadow-sm"></div>
+                          <span>White Sheep</span>
+                          <ArrowRight className="w-4 h-4 opacity-50" />
+                          <span className="font-bold text-[#a3a3a3]">Light Pasture</span>
+                      </div>
+                      <div className="flex items-center gap-2">
+                          <div className="w-4 h-4 rounded-full bg-[#383838] shadow-sm"></div>
+                          <span>Dark Sheep</span>
+                          <ArrowRight className="w-4 h-4 opacity-50" />
+                          <span className="font-bold text-[#6b7280]">Dark Pasture</span>
+                      </div>
+                  </div>
+             </div>
 
-           <button 
-             onClick={handleIntroComplete}
-             className="group flex items-center gap-3 bg-[#8b7355] text-white px-10 py-4 rounded-full transition-all hover:bg-[#725e44] hover:scale-105 shadow-xl hover:shadow-2xl"
-           >
-             <span className="text-xl tracking-wide font-medium">Enter the Valley</span>
-             <ArrowRight className="w-5 h-5 group-hover:translate-x-1 transition-transform" />
-           </button>
+             <button 
+               onClick={handleIntroComplete}
+               className="group flex items-center gap-3 bg-[#8b7355] text-white px-10 py-4 rounded-full transition-all hover:bg-[#725e44] hover:scale-105 shadow-xl hover:shadow-2xl"
+             >
+               <span className="text-xl tracking-wide font-medium">Enter the Valley</span>
+               <ArrowRight className="w-5 h-5 group-hover:translate-x-1 transition-transform" />
+             </button>
+
+             <button
+               onClick={() => flow.send('GO_ONLINE')}
+               className="mt-6 flex items-center gap-2 text-sm text-stone-500 hover:text-[#8b7355] transition-colors"
+             >
+               <Globe className="w-4 h-4" />
+               <span>Play online</span>
+             </button>
+             <button
+               onClick={() => replayFileRef.current?.click()}
+               className="mt-2 flex items-center gap-2 text-sm text-stone-500 hover:text-[#8b7355] transition-colors"
+             >
+               <Upload className="w-4 h-4" />
+               <span>Load a replay</span>
+             </button>
+             <input ref={replayFileRef} type="file" accept="application/json,.json" className="hidden" onChange={handleReplayFile} />
+             <button
+               onClick={() => openEditor(blankLevel())}
+               className="mt-2 flex items-center gap-2 text-sm text-stone-500 hover:text-[#8b7355] transition-colors"
+             >
+               <PencilRuler className="w-4 h-4" />
+               <span>Design a pasture</span>
+             </button>
+             {replayError && <p className="mt-2 text-sm text-[#e05252]">{replayError}</p>}
+             </>
+           )}
         </div>
       )}
 
+      {/* Online Play */}
+      {gameState === 'ONLINE' && (
+        <OnlinePanel view={onlineView} levels={LEVELS} onConnect={connectOnline} onStart={handleOnlineStart} onLeave={leaveOnline} />
+      )}
+
       {/* Select Dog Screen */}
       {gameState === 'SELECT_DOG' && (
         <div className="absolute inset-0 bg-[#f4f6f0] flex flex-col items-center justify-center text-stone-800 p-8 text-center animate-in fade-in z-20">
-           <h2 className="text-4xl font-serif mb-2 text-[#556b3e]">Choose Your Companion</h2>
-           <p className="text-lg mb-8 opacity-70 italic">Who will guide the flock today?</p>
+           <div className="flex gap-2 mb-6 bg-white/60 p-1 rounded-full border border-stone-200">
+              {[1, 2].map(count => (
+                <button
+                  key={count}
+                  onClick={() => handlePlayerCount(count)}
+                  className={`flex items-center gap-2 px-4 py-2 rounded-full text-sm transition-colors ${playerCount === count ? 'bg-[#8b7355] text-white' : 'text-stone-500 hover:text-[#8b7355]'}`}
+                >
+                  {count === 1 ? <User className="w-4 h-4" /> : <Users className="w-4 h-4" />}
+                  <span>{count === 1 ? 'Solo' : 'Two players'}</span>
+                </button>
+              ))}
+           </div>
+
+           <h2 className="text-4xl font-serif mb-2 text-[#556b3e]">
+             {playerCount > 1 ? `Player ${pickingPlayer + 1}, Choose Your Companion` : 'Choose Your Companion'}
+           </h2>
+           <p className="text-lg mb-8 opacity-70 italic">
+             {playerCount === 1
+               ? 'Who will guide the flock today?'
+               : pickingPlayer === 0
+                 ? 'WASD to move, Space to bark, left Shift to lie down (or the first gamepad)'
+                 : 'Arrow keys to move, Enter to bark, right Shift to lie down (or the second gamepad)'}
+           </p>
            
            <div className="grid grid-cols-2 gap-4 mb-8">
-              {Object.values(DOG_PALETTES).map((p) => (
+              {(Object.entries(DOG_PALETTES) as [PaletteKey, DogPalette][]).map(([key, p]) => (
                 <button 
                   key={p.name}
-                  onClick={() => handleDogSelect(p)}
-                  className="flex flex-col items-center gap-3 p-4 rounded-xl border-2 border-stone-200 hover:border-[#8b7355] hover:bg-stone-50 transition-all group"
+                  onClick={() => handleDogSelect(key)}
+                  disabled={selectedPalettes.slice(0, pickingPlayer).includes(p)}
+                  className={`flex flex-col items-center gap-3 p-4 rounded-xl border-2 hover:border-[#8b7355] hover:bg-stone-50 transition-all group disabled:opacity-30 disabled:pointer-events-none ${key === progress.palette ? 'border-[#c5d6a9]' : 'border-stone-200'}`}
                 >
                   <div className="w-16 h-16 rounded-full border-4 border-[#e05252] shadow-md relative" style={{ backgroundColor: p.primary }}>
                      <div className="absolute inset-0 m-auto w-8 h-8 rounded-full" style={{ backgroundColor: p.secondary }} />
@@ -876,21 +1276,31 @@ const HerdingGame: React.FC = () => {
         </div>
       )}
 
+      {/* Level Select */}
+      {gameState === 'LEVEL_SELECT' && (
+        <LevelSelect levels={LEVELS} progress={progress} onSelect={handleLevelSelect} />
+      )}
+
       {/* Level Start / Flavor */}
-      {gameState === 'START' && (
+      {(gameState === 'LOADING' || gameState === 'START') && (
         <div className="absolute inset-0 bg-[#374151]/80 backdrop-blur-sm flex flex-col items-center justify-center text-white p-8 text-center transition-all duration-500 z-20">
-           {loadingLevel ? (
+           {gameState === 'LOADING' ? (
              <div className="flex flex-col items-center">
                <Loader2 className="w-12 h-12 animate-spin mb-4 text-[#7ea157]" />
                <p className="text-xl font-light font-serif">Growing the grass...</p>
              </div>
            ) : (
              <>
-              <div className="uppercase tracking-widest text-sm text-[#7ea157] font-bold mb-2">Pasture {level} of {MAX_LEVELS}</div>
+              <div className="uppercase tracking-widest text-sm text-[#7ea157] font-bold mb-2">{customLevelRef.current ? customLevelRef.current.name ?? 'Custom Pasture' : `Pasture ${level} of ${MAX_LEVELS}`}</div>
               <h2 className="text-4xl md:text-6xl font-serif mb-4 text-[#dbe7c5]">{flavor.title}</h2>
-              <p className="text-lg md:text-xl font-light italic opacity-90 mb-8 max-w-lg font-serif">
+              <p className="text-lg md:text-xl font-light italic opacity-90 mb-8 max-w-lg font-serif whitespace-pre-line">
                 "{flavor.description}"
               </p>
+              {levelConfigRef.current.targets?.time && (
+                <p className="-mt-4 mb-8 text-sm uppercase tracking-widest opacity-70">
+                  {levelSheepCount(levelConfigRef.current)} sheep · Par {formatTime(levelConfigRef.current.targets.time)}
+                </p>
+              )}
               <button 
                 onClick={handleStart}
                 className="group flex items-center gap-3 bg-[#7ea157] hover:bg-[#658a44] text-white px-8 py-4 rounded-full transition-all transform hover:scale-105 shadow-xl border-2 border-[#f4f6f0]/20"
@@ -898,6 +1308,17 @@ const HerdingGame: React.FC = () => {
                 <Play className="w-6 h-6 fill-current" />
                 <span className="text-xl tracking-wide font-medium">Begin</span>
               </button>
+              <form onSubmit={handleSeedSubmit} className="mt-8 flex items-center gap-2 text-sm opacity-80">
+                <label htmlFor="seed" className="uppercase tracking-widest font-bold text-[#dbe7c5]">Seed</label>
+                <input
+                  id="seed"
+                  value={seedInput}
+                  onChange={(e) => setSeedInput(e.target.value)}
+                  inputMode="numeric"
+                  className="w-24 bg-white/10 border border-white/30 rounded-full px-3 py-1 text-center font-mono focus:outline-none focus:border-[#7ea157]"
+                />
+                <button type="submit" className="px-3 py-1 rounded-full border border-white/30 hover:bg-white/10 transition-colors">Replant</button>
+              </form>
              </>
            )}
         </div>
@@ -909,13 +1330,59 @@ const HerdingGame: React.FC = () => {
           <CheckCircle2 className="w-16 h-16 text-yellow-100 mb-6 drop-shadow-lg" />
           <h2 className="text-5xl font-serif mb-4">Pasture Secured</h2>
           <p className="text-xl font-light opacity-90 mb-8 font-serif">The flock rests easy.</p>
+          {lastResult && <ScoreBreakdown result={lastResult} target={levelConfigRef.current.targets?.score} />}
           <button 
             onClick={handleNextLevel}
             className="flex items-center gap-3 bg-white text-[#556b3e] hover:bg-[#f4f6f0] px-8 py-4 rounded-full transition-all transform hover:scale-105 shadow-lg border-b-4 border-[#dbe7c5]"
           >
-            <span className="text-xl font-bold">Next Pasture</span>
+            <span className="text-xl font-bold">{customLevelRef.current ? 'Back to Editor' : 'Next Pasture'}</span>
             <RefreshCw className="w-5 h-5" />
           </button>
+          {lastReplayRef.current && (
+            <div className="mt-6 flex items-center gap-4 text-sm">
+              <button onClick={() => openReplay(lastReplayRef.current!)} className="flex items-center gap-2 opacity-80 hover:opacity-100 transition-opacity">
+                <Film className="w-4 h-4" />
+                <span>Watch replay</span>
+              </button>
+              <button onClick={handleSaveReplay} className="flex items-center gap-2 opacity-80 hover:opacity-100 transition-opacity">
+                <Download className="w-4 h-4" />
+                <span>Save replay</span>
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Level Lost to Wolves */}
+      {gameState === 'LOST' && (
+        <div className="absolute inset-0 bg-[#4b4e54]/90 backdrop-blur-md flex flex-col items-center justify-center text-white p-8 text-center animate-in fade-in duration-700 z-20">
+          <h2 className="text-5xl font-serif mb-4">The Wolves Got In</h2>
+          <p className="text-xl font-light opacity-90 mb-8 font-serif">
+            {lastResult?.sheepLost === 1 ? 'One sheep' : `${lastResult?.sheepLost ?? 0} sheep`} taken. Keep the stragglers close.
+          </p>
+          {lastResult && <ScoreBreakdown result={lastResult} />}
+          <button
+            onClick={handleRetry}
+            className="flex items-center gap-3 bg-white text-[#4b4e54] hover:bg-[#f4f6f0] px-8 py-4 rounded-full transition-all transform hover:scale-105 shadow-lg border-b-4 border-stone-300"
+          >
+            <span className="text-xl font-bold">Try Again</span>
+            <RefreshCw className="w-5 h-5" />
+          </button>
+          <button onClick={handleQuit} className="mt-4 text-sm opacity-80 hover:opacity-100 transition-opacity">
+            {customLevelRef.current ? 'Back to editor' : 'Quit to menu'}
+          </button>
+          {lastReplayRef.current && (
+            <div className="mt-6 flex items-center gap-4 text-sm">
+              <button onClick={() => openReplay(lastReplayRef.current!)} className="flex items-center gap-2 opacity-80 hover:opacity-100 transition-opacity">
+                <Film className="w-4 h-4" />
+                <span>Watch replay</span>
+              </button>
+              <button onClick={handleSaveReplay} className="flex items-center gap-2 opacity-80 hover:opacity-100 transition-opacity">
+                <Download className="w-4 h-4" />
+                <span>Save replay</span>
+              </button>
+            </div>
+          )}
         </div>
       )}
 
@@ -925,8 +1392,22 @@ const HerdingGame: React.FC = () => {
           <Trophy className="w-20 h-20 text-yellow-300 mb-6 drop-shadow-lg" />
           <h2 className="text-6xl font-serif mb-6">Master Shepherd</h2>
           <p className="text-2xl font-light opacity-90 mb-10 font-serif max-w-lg">
-            You have guided all flocks to safety. The valley is at peace thanks to you and {selectedPalette.name}.
+            You have guided all flocks to safety. The valley is at peace thanks to you and {selectedPalettes.map(p => p.name).join(' and ')}.
           </p>
+          {runResults.length > 0 && (
+            <div className="bg-white/15 rounded-2xl px-6 py-4 mb-10 min-w-[18rem] text-left">
+              {runResults.map(({ level: lvl, result }, i) => (
+                <div key={i} className="flex justify-between gap-8">
+                  <span className="opacity-80">Pasture {lvl} · {formatTime(result.time)}</span>
+                  <span className="font-mono">{result.total}</span>
+                </div>
+              ))}
+              <div className="flex justify-between gap-8 border-t border-white/30 mt-2 pt-2 font-bold text-lg">
+                <span>Total</span>
+                <span className="font-mono">{runResults.reduce((sum, r) => sum + r.result.total, 0)}</span>
+              </div>
+            </div>
+          )}
           <button 
             onClick={handleRestart}
             className="flex items-center gap-3 bg-white text-[#556b3e] hover:bg-[#f4f6f0] px-10 py-5 rounded-full transition-all transform hover:scale-105 shadow-xl border-b-4 border-[#dbe7c5]"
@@ -941,21 +1422,119 @@ const HerdingGame: React.FC = () => {
       {gameState === 'PLAYING' && (
          <>
          <div className="absolute top-4 left-4 bg-white/90 backdrop-blur text-[#556b3e] px-4 py-2 rounded-full shadow-md border border-[#c5d6a9] pointer-events-none z-10">
-           <span className="font-serif font-bold text-lg tracking-wide">Level {level} / {MAX_LEVELS}</span>
+           <span className="font-serif font-bold text-lg tracking-wide">{customLevelRef.current ? 'Test Run' : `Level ${level} / ${MAX_LEVELS}`}</span>
          </div>
+         <div className="absolute top-16 left-4 bg-white/80 backdrop-blur text-stone-600 px-4 py-1 rounded-full shadow-sm border border-[#c5d6a9] pointer-events-none z-10 flex gap-4 text-sm">
+           <span>Score <span className="font-mono font-bold text-[#556b3e]">{hud.score}</span></span>
+           <span className="font-mono">{formatTime(hud.time)}</span>
+           <span className="flex items-center gap-1" title={hud.weather === 'CLEAR' ? 'Clear' : hud.weather.toLowerCase()}>
+             <WeatherIcon weather={hud.weather} night={darknessAt(hud.hour) > 0.5} />
+             <span className="font-mono">{formatClock(hud.hour)}</span>
+           </span>
+           {hud.lost > 0 && <span className="text-red-700">Lost <span className="font-mono font-bold">{hud.lost}</span></span>}
+         </div>
+         <button
+           onClick={handleSaveReplay}
+           className="absolute top-4 right-16 bg-white/80 p-2 rounded-full hover:bg-white text-stone-600 transition-colors z-10"
+           title="Save replay of this run"
+         >
+           <Download className="w-6 h-6" />
+         </button>
+         <button
+           onClick={pauseGame}
+           className="absolute top-4 right-40 bg-white/80 p-2 rounded-full hover:bg-white text-stone-600 transition-colors z-10"
+           title="Pause (Esc)"
+         >
+           <Pause className="w-6 h-6" />
+         </button>
+         <button
+           onClick={toggleCameraMode}
+           className="absolute top-4 right-28 bg-white/80 p-2 rounded-full hover:bg-white text-stone-600 transition-colors z-10"
+           title={cameraMode === 'FOLLOW' ? 'Camera follows the dog (C to frame the flock)' : 'Camera frames the flock (C to follow the dog)'}
+         >
+           {cameraMode === 'FOLLOW' ? <Crosshair className="w-6 h-6" /> : <Scan className="w-6 h-6" />}
+         </button>
          </>
       )}
 
-      {/* Audio Toggle (Always Visible except selection and intro) */}
-      {gameState !== 'SELECT_DOG' && gameState !== 'INTRO' && (
-        <button 
-            onClick={toggleMute}
-            className="absolute top-4 right-4 bg-white/80 p-2 rounded-full hover:bg-white text-stone-600 transition-colors z-10"
-            title={isMuted ? "Unmute Nature" : "Mute Nature"}
-        >
-            {isMuted ? <VolumeX className="w-6 h-6" /> : <Volume2 className="w-6 h-6" />}
-        </button>
+      {/* Pause Menu */}
+      {gameState === 'PAUSED' && (
+        <PauseMenu
+          title={customLevelRef.current ? 'Test Run' : `Pasture ${level} of ${MAX_LEVELS}`}
+          quitLabel={customLevelRef.current ? 'Back to editor' : 'Quit to menu'}
+          volume={progress.volume}
+          cameraMode={cameraMode}
+          accessibility={progress.accessibility}
+          onVolume={handleVolume}
+          onAccessibility={handleAccessibility}
+          onCameraMode={toggleCameraMode}
+          onResume={resumeGame}
+          onRestart={handleRetry}
+          onChangeCompanion={handleChangeCompanion}
+          onQuit={handleQuit}
+        />
+      )}
+
+      {/* Touch Thumbstick */}
+      {(gameState === 'PLAYING' || (gameState === 'ONLINE' && onlineView?.phase === 'PLAYING')) && controlScheme === 'touch' && (
+        <>
+          <VirtualJoystick onChange={(v) => input.current.setJoystick(v)} />
+          <CommandButtons onCommand={(command, held) => input.current.setTouchCommand(command, held)} />
+        </>
       )}
+
+      {/* Level Editor */}
+      {gameState === 'EDITOR' && (
+        <>
+          <EditorToolbar
+            tool={editorTool}
+            flockType={editorFlock}
+            breed={editorBreed}
+            name={editorView.name}
+            selectedZoneCount={editorView.selectedZoneCount}
+            sheepTotal={editorView.sheepTotal}
+            error={editorError}
+            notice={editorNotice}
+            generating={editorGenerating}
+            onTool={setEditorTool}
+            onFlockType={setEditorFlock}
+            onBreed={setEditorBreed}
+            onName={handleEditorName}
+            onZoneCount={handleEditorZoneCount}
+            onTest={handleEditorTest}
+            onExport={handleEditorExport}
+            onImport={() => levelFileRef.current?.click()}
+            onGenerate={handleEditorGenerate}
+            onExit={closeEditor}
+          />
+          <input ref={levelFileRef} type="file" accept="application/json,.json" className="hidden" onChange={handleLevelFile} />
+        </>
+      )}
+
+      {/* Replay Playback */}
+      {gameState === 'REPLAY' && replayView && (
+        <ReplayControls
+          view={replayView}
+          onTogglePause={handleReplayPause}
+          onSeek={handleReplaySeek}
+          onSpeed={handleReplaySpeed}
+          onDownload={() => replayRef.current && downloadReplay(replayRef.current.player.replay)}
+          onExit={closeReplay}
+        />
+      )}
+
+      {/* Volume (Always Visible except selection and intro) */}
+      {gameState !== 'SELECT_DOG' && gameState !== 'INTRO' && gameState !== 'EDITOR' && gameState !== 'LEVEL_SELECT' && (
+        <VolumeControls volume={progress.volume} onChange={handleVolume} />
+      )}
+
+      {/* Accessibility settings in the corner of the menus; the pause menu has them too */}
+      {(gameState === 'INTRO' || gameState === 'SELECT_DOG' || gameState === 'LEVEL_SELECT') && (
+        <AccessibilityControls settings={progress.accessibility} onChange={handleAccessibility} />
+      )}
+
+      {/* Screen reader announcements for what happens on the canvas */}
+      <div aria-live="polite" role="status" className="sr-only">{announcement}</div>
     </div>
   );
 };
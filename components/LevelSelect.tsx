@@ -0,0 +1,53 @@
+import React from 'react';
+import { ArrowRight, Lock } from 'lucide-react';
+import { LevelConfig } from '../types';
+import { SaveData } from '../services/progressService';
+import { formatTime } from './ScoreBreakdown';
+
+interface LevelSelectProps {
+  levels: LevelConfig[];
+  progress: SaveData;
+  onSelect: (level: number) => void;
+}
+
+const LevelSelect: React.FC<LevelSelectProps> = ({ levels, progress, onSelect }) => (
+  <div className="absolute inset-0 bg-[#f4f6f0] flex flex-col items-center justify-center text-stone-800 p-8 text-center animate-in fade-in z-20">
+    <h2 className="text-4xl font-serif mb-2 text-[#556b3e]">Choose a Pasture</h2>
+    <p className="text-lg mb-8 opacity-70 italic">Pick up where you left off, or walk an old field again.</p>
+
+    <button
+      onClick={() => onSelect(progress.highestLevel)}
+      className="group flex items-center gap-3 bg-[#8b7355] text-white px-8 py-3 rounded-full transition-all hover:bg-[#725e44] hover:scale-105 shadow-xl mb-8"
+    >
+      <span className="text-lg tracking-wide font-medium">Resume at Pasture {progress.highestLevel}</span>
+      <ArrowRight className="w-5 h-5 group-hover:translate-x-1 transition-transform" />
+    </button>
+
+    <div className="grid grid-cols-2 md:grid-cols-3 gap-4 max-w-3xl">
+      {levels.map((config, i) => {
+        const level = i + 1;
+        const locked = level > progress.highestLevel;
+        const record = progress.levels[level];
+        return (
+          <button
+            key={level}
+            disabled={locked}
+            onClick={() => onSelect(level)}
+            className="flex flex-col items-start gap-1 p-4 rounded-xl border-2 border-stone-200 hover:border-[#8b7355] hover:bg-stone-50 transition-all text-left disabled:opacity-40 disabled:hover:border-stone-200 disabled:hover:bg-transparent"
+          >
+            <span className="uppercase tracking-widest text-xs text-[#7ea157] font-bold flex items-center gap-1">
+              {locked && <Lock className="w-3 h-3" />}
+              Pasture {level}
+            </span>
+            <span className="font-serif font-bold">{config.name ?? `Pasture ${level}`}</span>
+            <span className="text-sm opacity-70">
+              {record ? `Best ${record.bestScore} · ${formatTime(record.bestTime)}` : locked ? 'Locked' : 'Not yet herded'}
+            </span>
+          </button>
+        );
+      })}
+    </div>
+  </div>
+);
+
+export default LevelSelect;
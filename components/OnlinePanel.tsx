@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import { ArrowRight, Crown, Globe, Loader2, LogOut, Play, RefreshCw } from 'lucide-react';
+import { LevelConfig } from '../types';
+import { MAX_PLAYERS } from '../engine/netcode';
+import { DEFAULT_RELAY_URL, OnlineView } from '../services/multiplayerService';
+
+interface OnlinePanelProps {
+  view: OnlineView | null; // Null until a connection has been asked for
+  levels: LevelConfig[];
+  onConnect: (url: string, name: string) => void;
+  onStart: (level: number) => void;
+  onLeave: () => void;
+}
+
+// Everything over the field in online play: the connect form, the lobby, a small banner while
+// a level runs and the result once it's over
+const OnlinePanel: React.FC<OnlinePanelProps> = ({ view, levels, onConnect, onStart, onLeave }) => {
+  const [url, setUrl] = useState(DEFAULT_RELAY_URL);
+  const [name, setName] = useState('');
+  const [level, setLevel] = useState(1);
+
+  const isHost = !!view && view.playerId !== null && view.playerId === view.hostId;
+  const me = view?.players.find(p => p.id === view.playerId);
+
+  if (view && view.phase === 'PLAYING' && view.status !== 'CLOSED') {
+    return (
+      <div className="absolute top-4 left-4 flex items-center gap-3 bg-white/90 backdrop-blur text-[#556b3e] px-4 py-2 rounded-full shadow-md border border-[#c5d6a9] z-10">
+        <Globe className="w-4 h-4" />
+        <span className="font-serif font-bold tracking-wide">Pasture {view.level} · {view.players.length} online</span>
+        {me?.dogIndex === null && <span className="text-sm opacity-70">Watching until the next pasture</span>}
+        <button onClick={onLeave} className="text-stone-500 hover:text-[#8b7355]" title="Leave">
+          <LogOut className="w-4 h-4" />
+        </button>
+      </div>
+    );
+  }
+
+  if (view && (view.phase === 'WON' || view.phase === 'LOST') && view.status !== 'CLOSED') {
+    const won = view.phase === 'WON';
+    return (
+      <div className={`absolute inset-0 ${won ? 'bg-[#7ea157]/90' : 'bg-[#4b4e54]/90'} backdrop-blur-md flex flex-col items-center justify-center text-white p-8 text-center animate-in fade-in duration-700 z-20`}>
+        <h2 className="text-5xl font-serif mb-4">{won ? 'Pasture Secured' : 'The Wolves Got In'}</h2>
+        <p className="text-xl font-light opacity-90 mb-8 font-serif">Score {view.score}</p>
+        {isHost ? (
+          <button
+            onClick={() => onStart(won ? Math.min(levels.length, view.level + 1) : view.level)}
+            className="flex items-center gap-3 bg-white text-[#556b3e] hover:bg-[#f4f6f0] px-8 py-4 rounded-full transition-all transform hover:scale-105 shadow-lg border-b-4 border-[#dbe7c5]"
+          >
+            <span className="text-xl font-bold">{won ? 'Next Pasture' : 'Try Again'}</span>
+            <RefreshCw className="w-5 h-5" />
+          </button>
+        ) : (
+          <p className="opacity-80 italic">Waiting for the host...</p>
+        )}
+        <button onClick={onLeave} className="mt-6 flex items-center gap-2 text-sm opacity-80 hover:opacity-100 transition-opacity">
+          <LogOut className="w-4 h-4" />
+          <span>Leave</span>
+        </button>
+      </div>
+    );
+  }
+
+  const connected = !!view && view.status === 'CONNECTED';
+  return (
+    <div className="absolute inset-0 bg-[#f4f6f0] flex flex-col items-center justify-center text-stone-800 p-8 text-center animate-in fade-in z-20">
+      <h2 className="text-4xl font-serif mb-2 text-[#556b3e]">Shared Pasture</h2>
+      <p className="text-lg mb-8 opacity-70 italic">Up to {MAX_PLAYERS} shepherds, one flock. Start the relay with <code>npm run relay</code>.</p>
+
+      {!connected ? (
+        <form
+          onSubmit={e => { e.preventDefault(); onConnect(url, name); }}
+          className="flex flex-col gap-3 bg-white/50 p-6 rounded-2xl border border-stone-200 w-[min(90vw,24rem)]"
+        >
+          <input
+            value={name}
+            onChange={e => setName(e.target.value)}
+            placeholder="Your name"
+            maxLength={20}
+            className="px-4 py-2 rounded-full border border-stone-300 bg-white"
+          />
+          <input
+            value={url}
+            onChange={e => setUrl(e.target.value)}
+            className="px-4 py-2 rounded-full border border-stone-300 bg-white font-mono text-sm"
+          />
+          <button
+            type="submit"
+            disabled={view?.status === 'CONNECTING'}
+            className="group flex items-center justify-center gap-3 bg-[#8b7355] text-white px-8 py-3 rounded-full transition-all hover:bg-[#725e44] disabled:opacity-60"
+          >
+            {view?.status === 'CONNECTING' ? <Loader2 className="w-5 h-5 animate-spin" /> : <ArrowRight className="w-5 h-5" />}
+            <span>Join</span>
+          </button>
+        </form>
+      ) : (
+        <div className="flex flex-col gap-4 bg-white/50 p-6 rounded-2xl border border-stone-200 w-[min(90vw,24rem)]">
+          <ul className="flex flex-col gap-2 text-left">
+            {view.players.map(p => (
+              <li key={p.id} className="flex items-center gap-3">
+                <div className="w-6 h-6 rounded-full relative shadow-sm" style={{ backgroundColor: p.palette.primary }}>
+                  <div className="absolute inset-0 m-auto w-3 h-3 rounded-full" style={{ backgroundColor: p.palette.secondary }} />
+                </div>
+                <span className={p.id === view.playerId ? 'font-bold' : ''}>{p.name}</span>
+                {p.id === view.hostId && <Crown className="w-4 h-4 text-[#c9a227]" />}
+              </li>
+            ))}
+          </ul>
+          {isHost ? (
+            <div className="flex items-center gap-2">
+              <select
+                value={level}
+                onChange={e => setLevel(Number(e.target.value))}
+                className="flex-1 bg-white border border-stone-300 rounded-full px-3 py-2 text-sm"
+              >
+                {levels.map((config, i) => <option key={i} value={i + 1}>{i + 1}. {config.name ?? `Pasture ${i + 1}`}</option>)}
+              </select>
+              <button
+                onClick={() => onStart(level)}
+                className="flex items-center gap-2 bg-[#7ea157] text-white px-5 py-2 rounded-full hover:bg-[#658a44] transition-colors"
+              >
+                <Play className="w-4 h-4 fill-current" />
+                <span>Start</span>
+              </button>
+            </div>
+          ) : (
+            <p className="text-sm italic opacity-70">Waiting for the host to open a pasture...</p>
+          )}
+        </div>
+      )}
+
+      {view?.error && <p className="mt-4 text-sm text-[#e05252]">{view.error}</p>}
+      {view?.status === 'CLOSED' && !view.error && <p className="mt-4 text-sm text-[#e05252]">Disconnected from the relay.</p>}
+
+      <button onClick={onLeave} className="mt-6 flex items-center gap-2 text-sm text-stone-500 hover:text-[#8b7355] transition-colors">
+        <LogOut className="w-4 h-4" />
+        <span>Back</span>
+      </button>
+    </div>
+  );
+};
+
+export default OnlinePanel;
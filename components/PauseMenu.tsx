@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import { Crosshair, Dog, LogOut, Play, RefreshCw, Scan, Settings } from 'lucide-react';
+import { CameraMode } from '../engine/camera';
+import { AccessibilitySettings } from '../services/accessibility';
+import { VolumeSettings } from '../services/audioService';
+import { AccessibilityOptions } from './AccessibilityControls';
+import { VolumeSliders } from './VolumeControls';
+
+interface PauseMenuProps {
+  title: string;
+  quitLabel: string;
+  volume: VolumeSettings;
+  cameraMode: CameraMode;
+  accessibility: AccessibilitySettings;
+  onVolume: (volume: VolumeSettings) => void;
+  onAccessibility: (settings: AccessibilitySettings) => void;
+  onCameraMode: () => void;
+  onResume: () => void;
+  onRestart: () => void;
+  onChangeCompanion: () => void;
+  onQuit: () => void;
+}
+
+const MENU_BUTTON = 'flex items-center gap-3 w-64 px-6 py-3 rounded-full border-2 border-white/30 hover:border-white hover:bg-white/10 transition-all';
+
+// Over a paused level: carry on, start the level again, swap dogs, settings or leave
+const PauseMenu: React.FC<PauseMenuProps> = ({
+  title, quitLabel, volume, cameraMode, accessibility, onVolume, onAccessibility, onCameraMode, onResume, onRestart, onChangeCompanion, onQuit,
+}) => {
+  const [settingsOpen, setSettingsOpen] = useState(false);
+
+  return (
+    <div className="absolute inset-0 bg-[#374151]/80 backdrop-blur-sm flex flex-col items-center justify-center text-white p-8 text-center animate-in fade-in z-20">
+      <div className="uppercase tracking-widest text-sm text-[#7ea157] font-bold mb-2">{title}</div>
+      <h2 className="text-4xl md:text-5xl font-serif mb-8 text-[#dbe7c5]">Paused</h2>
+
+      <div className="flex flex-col items-center gap-3">
+        <button
+          autoFocus
+          onClick={onResume}
+          className="group flex items-center justify-center gap-3 w-64 bg-[#7ea157] text-white px-6 py-3 rounded-full transition-all hover:bg-[#658a44] hover:scale-105 shadow-xl"
+        >
+          <Play className="w-5 h-5 fill-current" />
+          <span className="text-lg tracking-wide font-medium">Resume</span>
+        </button>
+        <button onClick={onRestart} className={MENU_BUTTON}>
+          <RefreshCw className="w-5 h-5" />
+          <span>Restart level</span>
+        </button>
+        <button onClick={onChangeCompanion} className={MENU_BUTTON}>
+          <Dog className="w-5 h-5" />
+          <span>Change companion</span>
+        </button>
+        <button onClick={() => setSettingsOpen(o => !o)} className={MENU_BUTTON} aria-expanded={settingsOpen}>
+          <Settings className="w-5 h-5" />
+          <span>Settings</span>
+        </button>
+        {settingsOpen && (
+          <div className="bg-white/90 text-stone-700 px-4 py-3 rounded-2xl shadow-lg border border-[#c5d6a9] flex flex-col gap-2 text-sm">
+            <VolumeSliders volume={volume} onChange={onVolume} />
+            <button onClick={onCameraMode} className="flex items-center gap-3 hover:text-[#8b7355]">
+              <span className="w-14 opacity-70 text-left">Camera</span>
+              {cameraMode === 'FOLLOW' ? <Crosshair className="w-4 h-4" /> : <Scan className="w-4 h-4" />}
+              <span>{cameraMode === 'FOLLOW' ? 'Follow the dog' : 'Frame the flock'}</span>
+            </button>
+            <AccessibilityOptions settings={accessibility} onChange={onAccessibility} />
+          </div>
+        )}
+        <button onClick={onQuit} className={MENU_BUTTON}>
+          <LogOut className="w-5 h-5" />
+          <span>{quitLabel}</span>
+        </button>
+      </div>
+      <p className="mt-8 text-sm opacity-60">Esc to resume</p>
+    </div>
+  );
+};
+
+export default PauseMenu;
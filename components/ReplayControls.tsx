@@ -0,0 +1,73 @@
+import React from 'react';
+import { Download, Pause, Play, X } from 'lucide-react';
+import { FIXED_STEP_MS } from '../engine/timestep';
+
+export const REPLAY_SPEEDS = [0.5, 1, 2, 4];
+
+export interface ReplayView {
+  tick: number;
+  length: number;
+  paused: boolean;
+  speed: number;
+  level: number;
+  seed: number;
+  title: string | null;
+}
+
+interface ReplayControlsProps {
+  view: ReplayView;
+  onTogglePause: () => void;
+  onSeek: (tick: number) => void;
+  onSpeed: (speed: number) => void;
+  onDownload: () => void;
+  onExit: () => void;
+}
+
+const formatTicks = (ticks: number) => {
+  const totalSeconds = Math.floor((ticks * FIXED_STEP_MS) / 1000);
+  const m = Math.floor(totalSeconds / 60);
+  const s = totalSeconds % 60;
+  return `${m}:${s.toString().padStart(2, '0')}`;
+};
+
+const ReplayControls: React.FC<ReplayControlsProps> = ({ view, onTogglePause, onSeek, onSpeed, onDownload, onExit }) => (
+  <>
+    <div className="absolute top-4 left-4 bg-white/90 backdrop-blur text-[#556b3e] px-4 py-2 rounded-full shadow-md border border-[#c5d6a9] pointer-events-none z-10">
+      <span className="font-serif font-bold text-lg tracking-wide">Replay · Level {view.level}{view.title && ` · ${view.title}`} · Seed {view.seed}</span>
+    </div>
+    <div className="absolute bottom-6 left-1/2 -translate-x-1/2 w-[min(90vw,640px)] bg-white/90 backdrop-blur text-stone-700 px-4 py-3 rounded-2xl shadow-lg border border-[#c5d6a9] flex items-center gap-3 z-10">
+      <button
+        onClick={onTogglePause}
+        className="p-2 rounded-full bg-[#7ea157] text-white hover:bg-[#658a44] transition-colors"
+        title={view.paused ? "Play" : "Pause"}
+      >
+        {view.paused ? <Play className="w-5 h-5 fill-current" /> : <Pause className="w-5 h-5 fill-current" />}
+      </button>
+      <span className="font-mono text-sm w-12 text-right">{formatTicks(view.tick)}</span>
+      <input
+        type="range"
+        min={0}
+        max={view.length}
+        value={view.tick}
+        onChange={(e) => onSeek(Number(e.target.value))}
+        className="flex-1 accent-[#7ea157]"
+      />
+      <span className="font-mono text-sm w-12">{formatTicks(view.length)}</span>
+      <select
+        value={view.speed}
+        onChange={(e) => onSpeed(Number(e.target.value))}
+        className="bg-transparent border border-stone-300 rounded-full px-2 py-1 text-sm"
+      >
+        {REPLAY_SPEEDS.map(s => <option key={s} value={s}>{s}x</option>)}
+      </select>
+      <button onClick={onDownload} className="p-2 rounded-full hover:bg-stone-100 transition-colors" title="Download replay">
+        <Download className="w-5 h-5" />
+      </button>
+      <button onClick={onExit} className="p-2 rounded-full hover:bg-stone-100 transition-colors" title="Close replay">
+        <X className="w-5 h-5" />
+      </button>
+    </div>
+  </>
+);
+
+export default ReplayControls;
@@ -0,0 +1,38 @@
+import React from 'react';
+import { ScoreBreakdown as Breakdown } from '../engine/scoring';
+
+export const formatTime = (seconds: number) => `${Math.floor(seconds / 60)}:${Math.floor(seconds % 60).toString().padStart(2, '0')}`;
+
+interface ScoreBreakdownProps {
+  result: Breakdown;
+  target?: number;
+}
+
+const Row: React.FC<{ label: string; value: number; sign?: '+' | '-' }> = ({ label, value, sign }) => (
+  <div className="flex justify-between gap-8">
+    <span className="opacity-80">{label}</span>
+    <span className="font-mono">{sign && value > 0 ? sign : ''}{value}</span>
+  </div>
+);
+
+const ScoreBreakdown: React.FC<ScoreBreakdownProps> = ({ result, target }) => (
+  <div className="bg-white/15 rounded-2xl px-6 py-4 mb-8 min-w-[18rem] text-left text-base">
+    <Row label="Flock brought home" value={result.base} />
+    <Row label={`Time bonus (${formatTime(result.time)})`} value={result.timeBonus} sign="+" />
+    <Row label="Distance run" value={result.distancePenalty} sign="-" />
+    <Row label="Flock panic" value={result.panicPenalty} sign="-" />
+    <Row label="Escapes" value={result.escapePenalty} sign="-" />
+    {result.sheepLost > 0 && <Row label={`Sheep lost (${result.sheepLost})`} value={result.lossPenalty} sign="-" />}
+    <div className="flex justify-between gap-8 border-t border-white/30 mt-2 pt-2 font-bold text-lg">
+      <span>Score</span>
+      <span className="font-mono">{result.total}</span>
+    </div>
+    {target !== undefined && (
+      <div className="text-sm opacity-80 text-right">
+        {result.total >= target ? `Target of ${target} reached` : `Target: ${target}`}
+      </div>
+    )}
+  </div>
+);
+
+export default ScoreBreakdown;
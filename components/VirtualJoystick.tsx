@@ -0,0 +1,52 @@
+import React, { useRef, useState } from 'react';
+import { Vector2 } from '../types';
+
+interface VirtualJoystickProps {
+  onChange: (v: Vector2) => void;
+}
+
+const RADIUS = 56;
+
+// On-screen thumbstick for touch devices. Reports a vector of magnitude 0..1.
+const VirtualJoystick: React.FC<VirtualJoystickProps> = ({ onChange }) => {
+  const baseRef = useRef<HTMLDivElement>(null);
+  const [knob, setKnob] = useState<Vector2>({ x: 0, y: 0 });
+
+  const update = (e: React.PointerEvent<HTMLDivElement>) => {
+    const base = baseRef.current;
+    if (!base) return;
+    const rect = base.getBoundingClientRect();
+    let x = e.clientX - (rect.left + rect.width / 2);
+    let y = e.clientY - (rect.top + rect.height / 2);
+    const m = Math.sqrt(x * x + y * y);
+    if (m > RADIUS) {
+      x = (x / m) * RADIUS;
+      y = (y / m) * RADIUS;
+    }
+    setKnob({ x, y });
+    onChange({ x: x / RADIUS, y: y / RADIUS });
+  };
+
+  const release = () => {
+    setKnob({ x: 0, y: 0 });
+    onChange({ x: 0, y: 0 });
+  };
+
+  return (
+    <div
+      ref={baseRef}
+      className="absolute bottom-8 left-8 w-36 h-36 rounded-full bg-white/30 border-2 border-white/60 backdrop-blur-sm z-10 touch-none select-none"
+      onPointerDown={(e) => { e.currentTarget.setPointerCapture(e.pointerId); update(e); }}
+      onPointerMove={(e) => { if (e.currentTarget.hasPointerCapture(e.pointerId)) update(e); }}
+      onPointerUp={release}
+      onPointerCancel={release}
+    >
+      <div
+        className="absolute w-14 h-14 rounded-full bg-white/80 shadow-md left-1/2 top-1/2 pointer-events-none"
+        style={{ transform: `translate(calc(-50% + ${knob.x}px), calc(-50% + ${knob.y}px))` }}
+      />
+    </div>
+  );
+};
+
+export default VirtualJoystick;
@@ -0,0 +1,60 @@
+import React, { useState } from 'react';
+import { Volume1, Volume2, VolumeX } from 'lucide-react';
+import { VolumeSettings } from '../services/audioService';
+
+interface VolumeControlsProps {
+  volume: VolumeSettings;
+  onChange: (volume: VolumeSettings) => void;
+}
+
+const SLIDERS: { key: keyof VolumeSettings; label: string }[] = [
+  { key: 'master', label: 'Master' },
+  { key: 'music', label: 'Music' },
+  { key: 'effects', label: 'Effects' },
+];
+
+// Master, music and effects, one slider each
+export const VolumeSliders: React.FC<VolumeControlsProps> = ({ volume, onChange }) => (
+  <>
+    {SLIDERS.map(({ key, label }) => (
+      <label key={key} className="flex items-center gap-3">
+        <span className="w-14 opacity-70">{label}</span>
+        <input
+          type="range"
+          min={0}
+          max={1}
+          step={0.05}
+          value={volume[key]}
+          onChange={(e) => onChange({ ...volume, [key]: Number(e.target.value) })}
+          className="w-32 accent-[#7ea157]"
+        />
+      </label>
+    ))}
+  </>
+);
+
+// Speaker button in the corner; opens the sliders
+const VolumeControls: React.FC<VolumeControlsProps> = ({ volume, onChange }) => {
+  const [open, setOpen] = useState(false);
+  const Icon = volume.master === 0 ? VolumeX : volume.master < 0.5 ? Volume1 : Volume2;
+
+  return (
+    <div className="absolute top-4 right-4 flex flex-col items-end gap-2 z-10">
+      <button
+        onClick={() => setOpen(o => !o)}
+        className="bg-white/80 p-2 rounded-full hover:bg-white text-stone-600 transition-colors"
+        title="Volume"
+        aria-expanded={open}
+      >
+        <Icon className="w-6 h-6" />
+      </button>
+      {open && (
+        <div className="bg-white/90 backdrop-blur text-stone-700 px-4 py-3 rounded-2xl shadow-lg border border-[#c5d6a9] flex flex-col gap-2 text-sm">
+          <VolumeSliders volume={volume} onChange={onChange} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VolumeControls;
@@ -1,5 +1,3 @@
-export const MAX_LEVELS = 5;
-
 export const DOG_RADIUS = 12;
 export const DOG_SPEED = 4.5;
 export const SHEEP_RADIUS = 11; // Slightly larger for fluffiness
@@ -12,6 +10,37 @@ export const FLOCKING_RADIUS = 80;
 export const ALIGNMENT_WEIGHT = 0.08;
 export const COHESION_WEIGHT = 0.05;
 
+// Voice Commands (durations in simulation ticks, 60 per second)
+export const BARK_RADIUS = 220; // How far the panic wave travels
+export const BARK_WAVE_SPEED = 8; // Pixels per tick
+export const BARK_PANIC = 0.6; // Panic added to each sheep the wave passes
+export const BARK_PUSH = 2.5; // Velocity kick away from the dog
+export const BARK_COOLDOWN = 120;
+export const LIE_DOWN_CALM_RADIUS = 160;
+export const LIE_DOWN_CALM_RATE = 0.03; // Panic removed per tick within the radius
+export const LIE_DOWN_FEAR_SCALE = 0.5; // Perception radius multiplier while lying down
+export const LIE_DOWN_COOLDOWN = 60; // After getting back up
+
+// Environment
+export const LANTERN_RADIUS = 170; // Light around the dog at night
+export const FOG_CLEAR_RADIUS = 240; // How far you can see through thick fog
+export const NIGHT_FEAR_SCALE = 0.75; // Perception multiplier in full darkness
+export const FOG_FEAR_SCALE = 0.6; // Perception multiplier in thick fog
+export const WIND_DRIFT = 0.1; // Pixels per tick the flock is blown along in a full gale
+export const RAIN_PANIC_FLOOR = 0.2; // Panic a downpour never lets the flock drop below
+
+// Wolves (durations in simulation ticks)
+export const WOLF_RADIUS = 13;
+export const WOLF_STALK_SPEED = 1.4; // Creeping up on the flock
+export const WOLF_HUNT_SPEED = 4.8; // The final rush outruns even a panicked sheep
+export const WOLF_FLEE_SPEED = 5.0; // Nothing catches a wolf; the dog only has to get close
+export const WOLF_POUNCE_RADIUS = 140; // Breaks into a run when its target is this close
+export const WOLF_DOG_FEAR_RADIUS = 180; // Bolts for the edge when the dog gets this close
+export const WOLF_DELAY = 20; // Seconds before a level's wolves first appear
+export const WOLF_RETURN_TICKS = 900; // Time off the field after being chased away
+export const WOLF_STAGGER_TICKS = 300; // Gap between each wolf of a pack first appearing
+export const WOLF_MAX_LOSSES = 2;
+
 // Art Style Palette - Soft, Flat, Natural
 export const COLORS = {
   grass: '#dbe7c5', // Warmer, softer sage
@@ -19,15 +48,26 @@ export const COLORS = {
   pastureWhite: '#f4f6f0',
   pastureBlack: '#4b4e54',
   fence: '#8b7355',
+  fencePost: '#6b5842',
   dogCollar: '#e05252',
   sheepWhite: '#fcfcfc',
   sheepWhiteShadow: '#e2e2e2',
   sheepBlack: '#383838',
   sheepBlackShadow: '#222222',
+  goat: '#b08d6a',
+  goatShadow: '#8a6a4b',
+  horn: '#d6c7a1',
+  wolf: '#7b7f86',
+  wolfShadow: '#55585e',
+  wolfEye: '#f2c94c',
   rock: '#9ca3af',
   rockShadow: '#6b7280',
   treeTrunk: '#785c3e',
   treeLeaves: '#7ea157',
+  barkRing: 'rgba(224, 82, 82, 0.5)',
+  calmRing: 'rgba(126, 161, 87, 0.35)',
+  bushLeaves: '#6a8f4a',
+  rain: 'rgba(174, 194, 224, 0.55)',
   shadow: 'rgba(0, 0, 0, 0.15)', // Soft drop shadows
 };
 
@@ -50,5 +90,11 @@ export const PASTURE_SETTINGS = [
     color: 'rgba(50, 50, 50, 0.1)',
     borderColor: '#6b7280',
     label: 'Dark Flock'
+  },
+  {
+    type: 'GOAT',
+    color: 'rgba(176, 141, 106, 0.15)',
+    borderColor: '#8a6a4b',
+    label: 'Goat Pen'
   }
 ] as const;
\ No newline at end of file
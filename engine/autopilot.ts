@@ -0,0 +1,262 @@
+import { BARK_RADIUS, DOG_RADIUS, SEPARATION_RADIUS, WOLF_DOG_FEAR_RADIUS } from '../constants';
+import { FenceSegment, GameState, Pasture, Sheep, SheepType, Vector2 } from '../types';
+import { EMPTY_INPUT, InputSnapshot } from './input';
+import { closestPointOnSegment } from './fences';
+import { isPointInPasture, outlineEdges } from './pastures';
+import { breedOf } from './breeds';
+import { environmentModifiers } from './environment';
+import { WorldSize } from './simulation';
+import { vecAdd, vecSub, vecMult, vecMag, vecNorm, dist } from './vector';
+
+// --- Dog Controllers ---
+// Anything that can drive the dog. Controllers hand back the same snapshot a player's
+// keyboard would, so the simulation can't tell them apart and replays record them as usual.
+export interface DogController {
+  read(state: GameState, pastures: Pasture[], world: WorldSize): InputSnapshot;
+}
+
+// Collect-and-drive tuning, after Strömbom et al. (2014)
+const GROUP_SPACING = 22; // A tight group of n sheep fits within GROUP_SPACING * n^(2/3)
+const PUSH_DEPTH = 0.6; // Fraction of the sheep's perception radius the dog works at
+const APPROACH_DISTANCE = 90; // Drive to this point outside the gate first, then through it
+const ARRIVE_DISTANCE = 40; // Ease off the stick within this distance of the working point
+const CALM_SPEED = 0.75; // Stay under the speed that panics the flock (80% of DOG_SPEED)
+const CLUSTER_RADIUS = 120; // Sheep this close to the one being worked get driven along with it
+const CONE_LENGTH = 300; // The funnel in front of a gate stops widening this far out
+const WOLF_GUARD_RADIUS = 260; // Chase off any wolf this close to the group
+const FENCE_CLEARANCE = 30; // How wide a berth to give the end of a fence when going round it
+
+const centroid = (points: Vector2[]): Vector2 =>
+  vecMult(points.reduce((sum, p) => vecAdd(sum, p), { x: 0, y: 0 }), 1 / points.length);
+
+// Gate nearest `from`, with its midpoint and the normal pointing out of the pen
+const nearestGate = (pasture: Pasture, from: Vector2) => {
+  const penCenter = centroid(pasture.outline);
+  return pasture.gates
+    .map((gate: FenceSegment) => {
+      const mid = vecMult(vecAdd(gate.a, gate.b), 0.5);
+      const along = vecNorm(vecSub(gate.b, gate.a));
+      let out = { x: -along.y, y: along.x };
+      if ((mid.x - penCenter.x) * out.x + (mid.y - penCenter.y) * out.y < 0) out = vecMult(out, -1);
+      return { mid, out, along, halfWidth: dist(gate.a, gate.b) / 2 };
+    })
+    .reduce((best, g) => (dist(g.mid, from) < dist(best.mid, from) ? g : best));
+};
+
+const cross = (a: Vector2, b: Vector2) => a.x * b.y - a.y * b.x;
+
+// Where along `from`→`to` (0 to 1) the path meets the fence, or null if it doesn't
+const crossingAt = (from: Vector2, to: Vector2, fence: FenceSegment): number | null => {
+  const path = vecSub(to, from);
+  const run = vecSub(fence.b, fence.a);
+  const denom = cross(path, run);
+  if (denom === 0) return null;
+  const rel = vecSub(fence.a, from);
+  const t = cross(rel, run) / denom;
+  const u = cross(rel, path) / denom;
+  return t >= 0 && t <= 1 && u >= 0 && u <= 1 ? t : null;
+};
+
+// Something the dog has to go round: a pen (solid, gates and all, so the dog never wanders
+// in) or a free-standing fence, with the points just clear of its corners or ends
+interface Blocker {
+  edges: FenceSegment[];
+  corners: Vector2[];
+}
+
+const blockersFor = (state: GameState, pastures: Pasture[]): Blocker[] => {
+  const penFences = new Set(pastures.flatMap(p => p.fences));
+  const pens = pastures.map(p => {
+    const { x, y, w, h } = p.bounds;
+    const c = FENCE_CLEARANCE;
+    return {
+      edges: outlineEdges(p.outline),
+      corners: [{ x: x - c, y: y - c }, { x: x + w + c, y: y - c }, { x: x + w + c, y: y + h + c }, { x: x - c, y: y + h + c }],
+    };
+  });
+  const loose = state.fences
+    .filter(f => !penFences.has(f))
+    .map(f => {
+      const past = vecMult(vecNorm(vecSub(f.b, f.a)), FENCE_CLEARANCE);
+      return { edges: [f], corners: [vecSub(f.a, past), vecAdd(f.b, past)] };
+    });
+  return [...pens, ...loose];
+};
+
+const firstCrossing = (from: Vector2, to: Vector2, edges: FenceSegment[]) =>
+  edges.reduce<number | null>((first, e) => {
+    const t = crossingAt(from, to, e);
+    return t !== null && (first === null || t < first) ? t : first;
+  }, null);
+
+// Next point to head for on the way to `to`: straight there, or round whatever is in the way
+const routeAround = (from: Vector2, to: Vector2, blockers: Blocker[], world: WorldSize): Vector2 => {
+  let blocking: Blocker | null = null;
+  let nearest = Infinity;
+  blockers.forEach(b => {
+    const t = firstCrossing(from, to, b.edges);
+    if (t !== null && t < nearest) {
+      nearest = t;
+      blocking = b;
+    }
+  });
+  if (!blocking) return to;
+
+  const { edges } = blocking as Blocker;
+  // Corners past the edge of the field are as close as the dog can get; once it's there, move on
+  const corners = (blocking as Blocker).corners
+    .map(c => ({ x: Math.max(DOG_RADIUS, Math.min(world.w - DOG_RADIUS, c.x)), y: Math.max(DOG_RADIUS, Math.min(world.h - DOG_RADIUS, c.y)) }))
+    .filter(c => dist(from, c) > DOG_RADIUS);
+  if (corners.length === 0) return to;
+  // Any fence can hide a corner, not just the one being gone round
+  const fences = blockers.flatMap(b => b.edges);
+  const visible = corners.filter(c => firstCrossing(from, c, fences) === null);
+  const reachable = visible.length > 0 ? visible : corners;
+  // A corner with a clear run on to `to` beats a nearer one that leaves the fence in the way,
+  // or the dog dithers between the two
+  const clear = reachable.filter(c => firstCrossing(c, to, edges) === null);
+  const options = clear.length > 0 ? clear : reachable;
+  return options.reduce((best, c) => (dist(from, c) + dist(c, to) < dist(from, best) + dist(best, to) ? c : best));
+};
+
+// Gathers one pen's worth of sheep at a time: tucks in stragglers until the group is tight,
+// then works behind it to push it to the gate and through. Wolves near the group come first.
+export class Autopilot implements DogController {
+  private focus: SheepType | null = null;
+  private leadId: string | null = null;
+  private dogIndex: number;
+
+  constructor(dogIndex = 0) {
+    this.dogIndex = dogIndex;
+  }
+
+  read(state: GameState, pastures: Pasture[], world: WorldSize): InputSnapshot {
+    const dog = state.dogs[this.dogIndex];
+    const loose = state.sheep.filter(s => s.state !== 'SECURE');
+    if (loose.length === 0) return EMPTY_INPUT;
+
+    // Stick with one colour until it's home, so white and black get split rather than mixed
+    if (!this.focus || !loose.some(s => s.type === this.focus)) {
+      const counts = new Map<SheepType, number>();
+      loose.forEach(s => counts.set(s.type, (counts.get(s.type) ?? 0) + 1));
+      this.focus = [...counts].sort((a, b) => b[1] - a[1])[0][0];
+    }
+    const flock = loose.filter(s => s.type === this.focus);
+
+    const wolf = state.wolves.find(w => w.state !== 'AWAY' && w.state !== 'FLEEING' && loose.some(s => dist(w.pos, s.pos) < WOLF_GUARD_RADIUS));
+    if (wolf && dist(wolf.pos, dog.pos) > WOLF_DOG_FEAR_RADIUS * 0.5) {
+      return { ...EMPTY_INPUT, move: vecNorm(vecSub(wolf.pos, dog.pos)) };
+    }
+
+    const pens = pastures.filter(p => p.type === this.focus && p.gates.length > 0);
+    if (pens.length === 0) return EMPTY_INPUT;
+    const gateFor = (p: Vector2) =>
+      pens.map(pen => nearestGate(pen, p)).reduce((best, g) => (dist(g.mid, p) < dist(best.mid, p) ? g : best));
+
+    // Work the sheep nearest home first, along with whatever is grazing around it, and stay
+    // with it until it's in
+    let lead = flock.find(s => s.id === this.leadId);
+    if (!lead) {
+      lead = flock.reduce((best, s) => (dist(s.pos, gateFor(s.pos).mid) < dist(best.pos, gateFor(best.pos).mid) ? s : best));
+      this.leadId = lead.id;
+    }
+    const group = flock.filter(s => dist(s.pos, lead!.pos) < CLUSTER_RADIUS);
+    const center = centroid(group.map(s => s.pos));
+    const gate = gateFor(center);
+
+    // Sheep that wandered into someone else's pen have to come back out through its gate first
+    const trappedIn = pastures.find(p => p.type !== this.focus && p.gates.length > 0 && isPointInPasture(center, p));
+
+    // Funnel in: steer the group onto the gate's axis on the way in, and once it's inside
+    // the cone in front of the gate, push it straight through
+    const rel = vecSub(center, gate.mid);
+    const depth = rel.x * gate.out.x + rel.y * gate.out.y;
+    const lateral = Math.abs(rel.x * gate.along.x + rel.y * gate.along.y);
+    const through = pens.some(p => isPointInPasture(center, p));
+    const inCone = depth > -SEPARATION_RADIUS && lateral < gate.halfWidth * 0.5 + Math.min(Math.max(0, depth), CONE_LENGTH) * 0.3;
+    let goal: Vector2;
+    if (through || inCone) {
+      goal = vecSub(gate.mid, vecMult(gate.out, APPROACH_DISTANCE));
+    } else {
+      goal = vecAdd(gate.mid, vecMult(gate.out, Math.max(APPROACH_DISTANCE, depth * 0.5)));
+    }
+
+    // Sheep only react inside their perception radius, so the dog pushes from just inside it
+    // and circles round from just outside it
+    const perception = breedOf(lead).perception * environmentModifiers(state.environment, state.timeElapsed).perceptionScale;
+    const groupRadius = GROUP_SPACING * Math.pow(group.length, 2 / 3);
+    const straggler = group.reduce<Sheep>((far, s) => (dist(s.pos, center) > dist(far.pos, center) ? s : far), group[0]);
+
+    let target: Vector2;
+    let working: Vector2; // What the dog is pushing: the group or one straggler
+    if (dist(straggler.pos, center) > groupRadius) {
+      working = straggler.pos;
+      target = vecAdd(straggler.pos, vecMult(vecNorm(vecSub(straggler.pos, center)), perception * PUSH_DEPTH));
+    } else {
+      // Measured from whichever sheep is furthest back, so the whole group feels the dog
+      const back = vecNorm(vecSub(center, goal));
+      const rearmost = Math.max(0, ...group.map(s => (s.pos.x - center.x) * back.x + (s.pos.y - center.y) * back.y));
+      working = center;
+      target = vecAdd(center, vecMult(back, rearmost + perception * PUSH_DEPTH));
+    }
+
+    // Working points behind a fence or off the field are out of reach: get as close as possible
+    const fenced = pastures.find(p => p !== trappedIn && isPointInPasture(target, p));
+    if (fenced) {
+      const edge = outlineEdges(fenced.outline)
+        .map(e => closestPointOnSegment(target, e))
+        .reduce((best, c) => (dist(c, target) < dist(best, target) ? c : best));
+      target = vecAdd(edge, vecMult(vecNorm(vecSub(edge, centroid(fenced.outline))), FENCE_CLEARANCE));
+    }
+
+    // Sheep in the wrong pen are worked from outside it: there's no room inside to get round
+    // behind them, and coming in through the gate only drives them further back. Standing
+    // past the far fence, in line with the gate, sends them out as soon as they notice the
+    // dog; ones grazing out of its sight get barked at.
+    if (trappedIn) {
+      const exit = nearestGate(trappedIn, working);
+      const away = vecNorm(vecSub(working, vecAdd(exit.mid, vecMult(exit.out, APPROACH_DISTANCE))));
+      const reach = vecAdd(working, vecMult(away, trappedIn.bounds.w + trappedIn.bounds.h));
+      const fence = vecAdd(working, vecMult(vecSub(reach, working), firstCrossing(working, reach, trappedIn.fences) ?? 0));
+      target = vecAdd(fence, vecMult(away, FENCE_CLEARANCE));
+    }
+    target = {
+      x: Math.max(DOG_RADIUS, Math.min(world.w - DOG_RADIUS, target.x)),
+      y: Math.max(DOG_RADIUS, Math.min(world.h - DOG_RADIUS, target.y)),
+    };
+
+    // A dog that followed the flock into a pen walks back out through the gate
+    const penned = pastures.find(p => isPointInPasture(dog.pos, p));
+    let waypoint: Vector2;
+    if (penned) {
+      const exit = nearestGate(penned, dog.pos);
+      waypoint = vecAdd(exit.mid, vecMult(exit.out, FENCE_CLEARANCE * 2));
+    } else {
+      waypoint = routeAround(dog.pos, target, blockersFor(state, pastures), world);
+    }
+
+    // Circle round rather than cutting through the sheep to reach the far side
+    const orbit = dist(target, working) + perception * (1 - PUSH_DEPTH);
+    const fromWorking = vecSub(dog.pos, working);
+    const toWaypoint = vecSub(waypoint, working);
+    const offLine = vecMag(toWaypoint) > 0 && vecMag(fromWorking) > 0 &&
+      (fromWorking.x * toWaypoint.x + fromWorking.y * toWaypoint.y) / (vecMag(fromWorking) * vecMag(toWaypoint)) < Math.cos(Math.PI / 6);
+    let heading: Vector2;
+    if (vecMag(fromWorking) < orbit && offLine) {
+      const radial = vecNorm(fromWorking);
+      let tangent = { x: -radial.y, y: radial.x };
+      if (tangent.x * toWaypoint.x + tangent.y * toWaypoint.y < 0) tangent = vecMult(tangent, -1);
+      heading = vecNorm(vecAdd(tangent, vecMult(radial, ((orbit - vecMag(fromWorking)) / orbit) * 2)));
+    } else {
+      heading = vecNorm(vecSub(waypoint, dog.pos));
+    }
+
+    const nearFlock = loose.some(s => dist(s.pos, dog.pos) < perception * 1.5);
+    // Only ease off on arrival, not at each corner on the way
+    const remaining = waypoint === target ? dist(dog.pos, target) : ARRIVE_DISTANCE;
+    const speed = Math.min(remaining / ARRIVE_DISTANCE, nearFlock ? CALM_SPEED : 1);
+    const outOfSight = dist(dog.pos, working) > perception && dist(dog.pos, working) < BARK_RADIUS;
+    const bark = trappedIn !== undefined && dist(dog.pos, target) < ARRIVE_DISTANCE && outOfSight;
+    return { ...EMPTY_INPUT, move: vecMult(heading, speed), bark };
+  }
+}
@@ -0,0 +1,89 @@
+import { DOG_PALETTES } from '../constants';
+import { GameState, LevelConfig, SheepType } from '../types';
+import { createDog } from './dogs';
+import { buildLevelState, emptyState } from './level';
+import { layoutPastures, PastureView } from './pastures';
+import { stepSimulation, WorldSize } from './simulation';
+import { FIXED_STEP_MS } from './timestep';
+
+// --- Flock Benchmark ---
+// Times a frame on a synthetic open field so flock sizes can be compared: the simulation
+// tick, and, when the page supplies a draw pass, drawing the field with its bending grass.
+// Both are timed separately so it's clear which one a big flock is costing.
+
+export const BENCHMARK_FLOCKS = [50, 200, 1000];
+
+export interface Timings {
+  meanMs: number;
+  p95Ms: number;
+  maxMs: number;
+}
+
+export interface BenchmarkResult {
+  sheep: number;
+  ticks: number;
+  sim: Timings;
+  draw: Timings | null; // Null when no draw pass was given
+}
+
+// Draws one frame of the benchmark field. Supplied by the page so the engine stays free of
+// the DOM.
+export type BenchmarkDraw = (state: GameState, pastures: PastureView[], world: WorldSize, time: number) => void;
+
+const WARMUP_TICKS = 60;
+const BENCHMARK_WORLD: WorldSize = { w: 1920, h: 1080 };
+
+const benchmarkLevel = (sheepCount: number): LevelConfig => ({
+  name: 'Benchmark',
+  sheepCount,
+  blackSheepRatio: 0.5,
+  obstacles: { count: 6, treeRatio: 0.6 },
+  pastures: [
+    { type: SheepType.WHITE, anchor: 'top-left' },
+    { type: SheepType.BLACK, anchor: 'top-right' },
+  ],
+  spawn: { x: 0.04, y: 0.33, w: 0.92, h: 0.6 },
+});
+
+const timings = (samples: number[]): Timings => {
+  const sorted = [...samples].sort((a, b) => a - b);
+  return {
+    meanMs: sorted.reduce((sum, t) => sum + t, 0) / sorted.length,
+    p95Ms: sorted[Math.floor(sorted.length * 0.95)],
+    maxMs: sorted[sorted.length - 1],
+  };
+};
+
+// Run `ticks` frames with the dog circling through the flock and barking now and then, so
+// flee, flock and bark paths all get exercised. Each frame is one simulation step and, with
+// `draw`, one drawing of the field.
+export const benchmarkFlock = (sheepCount: number, ticks = 600, draw?: BenchmarkDraw): BenchmarkResult => {
+  const config = benchmarkLevel(sheepCount);
+  const pastures = layoutPastures(config.pastures, BENCHMARK_WORLD);
+  const state = buildLevelState(emptyState([createDog(DOG_PALETTES.BLACK)]), config, 1, 1234, BENCHMARK_WORLD, pastures);
+  state.isPlaying = true;
+
+  const simSamples: number[] = [];
+  const drawSamples: number[] = [];
+  for (let i = 0; i < WARMUP_TICKS + ticks; i++) {
+    const angle = (i * FIXED_STEP_MS) / 1500;
+    const input = { move: { x: Math.cos(angle), y: Math.sin(angle) }, bark: i % 180 === 0, lieDown: false };
+    const start = performance.now();
+    stepSimulation(state, pastures, BENCHMARK_WORLD, [input]);
+    const stepped = performance.now();
+    draw?.(state, pastures, BENCHMARK_WORLD, i * FIXED_STEP_MS);
+    if (i >= WARMUP_TICKS) {
+      simSamples.push(stepped - start);
+      if (draw) drawSamples.push(performance.now() - stepped);
+    }
+    // Keep the benchmark running even if the flock happens to get penned
+    state.isPlaying = true;
+  }
+
+  return {
+    sheep: sheepCount,
+    ticks,
+    sim: timings(simSamples),
+    draw: draw ? timings(drawSamples) : null,
+  };
+};
@@ -0,0 +1,123 @@
+import {
+  ALIGNMENT_WEIGHT,
+  COHESION_WEIGHT,
+  COLORS,
+  PERCEPTION_RADIUS,
+  SHEEP_MAX_SPEED,
+  SHEEP_RADIUS,
+  SHEEP_WANDER_SPEED,
+} from '../constants';
+import { Sheep, SheepType } from '../types';
+
+// --- Breed Registry ---
+// Everything that makes one kind of flock animal behave and look different from another.
+// Levels refer to breeds by id; new ones only need registering here.
+
+export type BreedLook = 'woolly' | 'horned' | 'goat';
+
+export interface BreedProfile {
+  id: string;
+  name: string;
+  pasture: SheepType; // Pen this breed has to be herded into
+  colors: { body: string; head: string };
+  look: BreedLook;
+  radius: number;
+  maxSpeed: number; // Top speed when fleeing, before panic
+  wanderSpeed: number; // Top speed while grazing
+  wanderStrength: number; // How hard grazing animals drift about
+  perception: number; // How close the dog has to be before they flee
+  skittishness: number; // Multiplier on panic from a fast dog or a bark
+  separationWeight: number;
+  alignmentWeight: number;
+  cohesionWeight: number;
+  follows?: string; // Breed whose nearest member this one sticks to
+  followWeight?: number;
+}
+
+const EWE: BreedProfile = {
+  id: 'ewe',
+  name: 'Ewe',
+  pasture: SheepType.WHITE,
+  colors: { body: COLORS.sheepWhite, head: COLORS.sheepWhiteShadow },
+  look: 'woolly',
+  radius: SHEEP_RADIUS,
+  maxSpeed: SHEEP_MAX_SPEED,
+  wanderSpeed: SHEEP_WANDER_SPEED,
+  wanderStrength: 0.4,
+  perception: PERCEPTION_RADIUS,
+  skittishness: 1,
+  separationWeight: 3.5,
+  alignmentWeight: ALIGNMENT_WEIGHT,
+  cohesionWeight: COHESION_WEIGHT,
+};
+
+export const BREEDS: Record<string, BreedProfile> = {
+  ewe: EWE,
+  'black-ewe': {
+    ...EWE,
+    id: 'black-ewe',
+    name: 'Dark Ewe',
+    pasture: SheepType.BLACK,
+    colors: { body: COLORS.sheepBlack, head: COLORS.sheepBlackShadow },
+  },
+  // Stubborn: barely notices the dog until it's right on top of him, and won't be rushed
+  ram: {
+    ...EWE,
+    id: 'ram',
+    name: 'Ram',
+    look: 'horned',
+    radius: 14,
+    maxSpeed: 2.4,
+    perception: 55,
+    skittishness: 0.3,
+    alignmentWeight: 0.02,
+    cohesionWeight: 0.02,
+  },
+  // Small and jumpy, and never strays far from a ewe
+  lamb: {
+    ...EWE,
+    id: 'lamb',
+    name: 'Lamb',
+    radius: 7,
+    maxSpeed: 3.3,
+    perception: 160,
+    skittishness: 1.6,
+    follows: 'ewe',
+    followWeight: 0.6,
+  },
+  // Independent grazers that drift off on their own and need their own pen
+  goat: {
+    ...EWE,
+    id: 'goat',
+    name: 'Goat',
+    pasture: SheepType.GOAT,
+    colors: { body: COLORS.goat, head: COLORS.goatShadow },
+    look: 'goat',
+    radius: 10,
+    maxSpeed: 3.2,
+    wanderSpeed: 0.9,
+    wanderStrength: 1.2,
+    perception: 110,
+    skittishness: 0.8,
+    alignmentWeight: 0.01,
+    cohesionWeight: 0.005,
+  },
+};
+
+export const registerBreed = (profile: BreedProfile) => {
+  BREEDS[profile.id] = profile;
+};
+
+// Breed used when a level only says which pen a flock belongs in
+const DEFAULT_BREEDS: Record<SheepType, string> = {
+  [SheepType.WHITE]: 'ewe',
+  [SheepType.BLACK]: 'black-ewe',
+  [SheepType.GOAT]: 'goat',
+};
+
+export const defaultBreedFor = (type: SheepType) => DEFAULT_BREEDS[type];
+
+export const breedOf = (sheep: Sheep): BreedProfile => BREEDS[sheep.breed] ?? EWE;
+
+// Fastest any registered animal can go in one tick, panic included
+export const maxBreedSpeed = () => Math.max(...Object.values(BREEDS).map(b => b.maxSpeed)) * 1.5;
@@ -0,0 +1,111 @@
+import { GameState, Vector2 } from '../types';
+import { WorldSize } from './simulation';
+
+// --- Camera ---
+// The field is a fixed size per level and the window is whatever size it is, so the screen
+// shows a view into the world: a centre point and a zoom (screen pixels per world pixel).
+// The view eases toward its target every frame and never shows past the edge of the field,
+// unless the whole field already fits.
+
+// FOLLOW keeps the dogs in view; FLOCK frames the dogs and every sheep still loose
+export type CameraMode = 'FOLLOW' | 'FLOCK';
+
+export interface Camera {
+  x: number; // World point at the centre of the screen
+  y: number;
+  zoom: number;
+  mode: CameraMode;
+  userZoom: number; // Wheel and +/- zoom, on top of what the mode picks
+}
+
+interface View {
+  x: number;
+  y: number;
+  zoom: number;
+}
+
+export const MIN_USER_ZOOM = 0.5;
+export const MAX_USER_ZOOM = 2;
+const BASE_ZOOM = 1; // One world pixel per screen pixel, unless the whole field fits larger
+const FRAME_PADDING = 160; // World pixels kept clear around whatever is framed
+const CAMERA_RESPONSE = 4; // Per second; higher catches up faster
+
+export const createCamera = (world: WorldSize, mode: CameraMode = 'FOLLOW'): Camera => ({
+  x: world.w / 2,
+  y: world.h / 2,
+  zoom: 1,
+  mode,
+  userZoom: 1,
+});
+
+// Scale at which the whole field just fits in the viewport
+export const fitZoom = (world: WorldSize, viewport: WorldSize) => Math.min(viewport.w / world.w, viewport.h / world.h);
+
+// A still view of the whole field, centred: the editor, replays and attract mode
+export const fitCamera = (world: WorldSize, viewport: WorldSize): Camera => ({ ...createCamera(world), zoom: fitZoom(world, viewport) });
+
+// Keep the view inside the field. An axis that fits on screen entirely is centred instead.
+const clampToWorld = (view: View, world: WorldSize, viewport: WorldSize): View => {
+  const halfW = viewport.w / view.zoom / 2;
+  const halfH = viewport.h / view.zoom / 2;
+  return {
+    x: halfW * 2 >= world.w ? world.w / 2 : Math.max(halfW, Math.min(world.w - halfW, view.x)),
+    y: halfH * 2 >= world.h ? world.h / 2 : Math.max(halfH, Math.min(world.h - halfH, view.y)),
+    zoom: view.zoom,
+  };
+};
+
+// Where the camera wants to be this frame. `focus` limits FOLLOW to one dog (online play,
+// where only our own dog is ours to follow).
+export const cameraTarget = (camera: Camera, game: GameState, world: WorldSize, viewport: WorldSize, focus?: number): View => {
+  const dogs = focus === undefined ? game.dogs : game.dogs.slice(focus, focus + 1);
+  const points: Vector2[] = dogs.map(d => d.pos);
+  if (camera.mode === 'FLOCK') game.sheep.forEach(s => { if (s.state !== 'SECURE') points.push(s.pos); });
+
+  const fit = fitZoom(world, viewport);
+  const closest = Math.max(fit, Math.max(fit, BASE_ZOOM) * camera.userZoom);
+  if (points.length === 0) return clampToWorld({ x: camera.x, y: camera.y, zoom: closest }, world, viewport);
+
+  const xs = points.map(p => p.x);
+  const ys = points.map(p => p.y);
+  const minX = Math.min(...xs) - FRAME_PADDING;
+  const maxX = Math.max(...xs) + FRAME_PADDING;
+  const minY = Math.min(...ys) - FRAME_PADDING;
+  const maxY = Math.max(...ys) + FRAME_PADDING;
+  const framing = Math.min(viewport.w / (maxX - minX), viewport.h / (maxY - minY));
+  const zoom = Math.max(fit, Math.min(closest, framing));
+  return clampToWorld({ x: (minX + maxX) / 2, y: (minY + maxY) / 2, zoom }, world, viewport);
+};
+
+// Ease toward `target` over `dt` seconds. Zoom eases in log space so zooming in and out
+// feel the same speed.
+export const updateCamera = (camera: Camera, target: View, world: WorldSize, viewport: WorldSize, dt: number) => {
+  const k = 1 - Math.exp(-CAMERA_RESPONSE * dt);
+  const zoom = camera.zoom * Math.pow(target.zoom / camera.zoom, k);
+  const view = clampToWorld({ x: camera.x + (target.x - camera.x) * k, y: camera.y + (target.y - camera.y) * k, zoom }, world, viewport);
+  camera.x = view.x;
+  camera.y = view.y;
+  camera.zoom = view.zoom;
+};
+
+// Jump straight to the target, e.g. when a level is built
+export const snapCamera = (camera: Camera, target: View) => {
+  camera.x = target.x;
+  camera.y = target.y;
+  camera.zoom = target.zoom;
+};
+
+export const zoomCamera = (camera: Camera, factor: number) => {
+  camera.userZoom = Math.max(MIN_USER_ZOOM, Math.min(MAX_USER_ZOOM, camera.userZoom * factor));
+};
+
+// Draw in world coordinates from here on. `pixelRatio` is device pixels per viewport pixel.
+export const applyCamera = (ctx: CanvasRenderingContext2D, camera: Camera, viewport: WorldSize, pixelRatio = 1) => {
+  const scale = camera.zoom * pixelRatio;
+  ctx.setTransform(scale, 0, 0, scale, (viewport.w / 2 - camera.x * camera.zoom) * pixelRatio, (viewport.h / 2 - camera.y * camera.zoom) * pixelRatio);
+};
+
+export const screenToWorld = (camera: Camera, viewport: WorldSize, p: Vector2): Vector2 => ({
+  x: (p.x - viewport.w / 2) / camera.zoom + camera.x,
+  y: (p.y - viewport.h / 2) / camera.zoom + camera.y,
+});
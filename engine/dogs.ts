@@ -0,0 +1,30 @@
+import { DOG_RADIUS, DOG_SPEED } from '../constants';
+import { Dog, DogPalette, Vector2 } from '../types';
+import { dist } from './vector';
+
+// --- Dogs ---
+// One dog per player. Co-op levels start the pack side by side in the middle of the field.
+
+const DOG_SPACING = 60;
+
+export const createDog = (palette: DogPalette, index = 0): Dog => ({
+  id: `dog_${index}`,
+  pos: { x: 0, y: 0 },
+  vel: { x: 0, y: 0 },
+  radius: DOG_RADIUS,
+  speed: DOG_SPEED,
+  palette,
+  facingDir: { x: 0, y: 1 },
+  isLyingDown: false,
+  barkCooldown: 0,
+  lieDownCooldown: 0,
+});
+
+// Where dog `index` of `count` starts, centred on `center`
+export const dogStart = (center: Vector2, index: number, count: number): Vector2 => ({
+  x: center.x + (index - (count - 1) / 2) * DOG_SPACING,
+  y: center.y,
+});
+
+export const nearestDog = (dogs: Dog[], pos: Vector2): Dog =>
+  dogs.reduce((best, d) => (dist(d.pos, pos) < dist(best.pos, pos) ? d : best));
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { SheepType } from '../types';
+import { blankLevel, checkedLevelConfig } from './editor';
+import { parseLevelConfig } from './level';
+
+describe('checkedLevelConfig', () => {
+  it('passes a playable layout, and the file it makes imports again', () => {
+    const config = checkedLevelConfig(blankLevel());
+    expect(config.sheepCount).toBe(8);
+    expect(() => parseLevelConfig(JSON.parse(JSON.stringify(config)))).not.toThrow();
+  });
+
+  it('refuses a layout with no sheep', () => {
+    const level = { ...blankLevel(), spawnZones: [] };
+    expect(() => checkedLevelConfig(level)).toThrow('Paint a spawn zone with at least one sheep in it');
+  });
+
+  it('refuses a flock with no pen', () => {
+    const level = blankLevel();
+    level.pastures = level.pastures.filter(p => p.type !== SheepType.BLACK);
+    expect(() => checkedLevelConfig(level)).toThrow('no pasture for the BLACK flock');
+  });
+
+  it("refuses a layout the dog can't get around", () => {
+    const level = blankLevel();
+    level.fences = [[{ x: 0.4, y: 0.4 }, { x: 0.6, y: 0.4 }, { x: 0.6, y: 0.6 }, { x: 0.4, y: 0.6 }, { x: 0.4, y: 0.4 }]];
+    expect(() => checkedLevelConfig(level)).toThrow("The dog can't reach");
+  });
+});
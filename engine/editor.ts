@@ -0,0 +1,269 @@
+import { GateLayout, LevelConfig, ObstaclePlacement, PastureLayout, Rect, SheepType, SpawnZone, Vector2 } from '../types';
+import { BREEDS } from './breeds';
+import { OBSTACLE_RADIUS, parseLevelConfig, scatterObstacles } from './level';
+import { unreachable } from './levelRepair';
+import { isPointInRect, layoutPastures, outlineBounds } from './pastures';
+import { createRng, nextRandom } from './random';
+import { WorldSize } from './simulation';
+import { dist } from './vector';
+
+// --- Level Editor Model ---
+// Everything the editor touches is kept in explicit form (pasture boxes, placed obstacles,
+// painted spawn zones) so it can be dragged around and exported as-is. Polygon pastures
+// keep their outline relative to the box, so moving or resizing the box reshapes them.
+
+export type EditorTool = 'SELECT' | 'PASTURE' | 'SPAWN' | 'TREE' | 'ROCK' | 'BUSH' | 'ERASE';
+
+export type Corner = 'nw' | 'ne' | 'sw' | 'se';
+
+export interface EditablePasture {
+  type: SheepType;
+  bounds: Rect;
+  outline?: Vector2[]; // 0 to 1 within bounds
+  gates?: GateLayout[];
+}
+
+export interface EditableLevel {
+  name: string;
+  world?: LevelConfig['world']; // Carried through untouched
+  pastures: EditablePasture[];
+  obstacles: ObstaclePlacement[];
+  spawnZones: SpawnZone[];
+  fences?: Vector2[][]; // Carried through untouched
+  environment?: LevelConfig['environment'];
+  wolves?: LevelConfig['wolves'];
+  targets?: LevelConfig['targets'];
+}
+
+export type EditorTarget =
+  | { kind: 'pasture' | 'spawn'; index: number; corner: Corner | null }
+  | { kind: 'obstacle'; index: number };
+
+// Pointer drag in progress. `origin` is the grabbed item as it was when the drag began.
+export interface EditorDrag {
+  target: EditorTarget;
+  start: Vector2;
+  origin: Rect;
+}
+
+export const HANDLE_SIZE = 10;
+const MIN_RECT_PX = 40;
+
+const toFraction = (r: Rect, world: WorldSize): Rect => ({ x: r.x / world.w, y: r.y / world.h, w: r.w / world.w, h: r.h / world.h });
+const toPixels = (r: Rect, world: WorldSize): Rect => ({ x: r.x * world.w, y: r.y * world.h, w: r.w * world.w, h: r.h * world.h });
+
+export const rectFromPoints = (a: Vector2, b: Vector2): Rect => ({
+  x: Math.min(a.x, b.x),
+  y: Math.min(a.y, b.y),
+  w: Math.abs(a.x - b.x),
+  h: Math.abs(a.y - b.y),
+});
+
+export const rectCorners = (r: Rect): Record<Corner, Vector2> => ({
+  nw: { x: r.x, y: r.y },
+  ne: { x: r.x + r.w, y: r.y },
+  sw: { x: r.x, y: r.y + r.h },
+  se: { x: r.x + r.w, y: r.y + r.h },
+});
+
+// Roughly one sheep per 90x90px painted, so a zone's default flock matches its size
+export const defaultZoneCount = (pixelRect: Rect) => Math.max(1, Math.round((pixelRect.w * pixelRect.h) / 8000));
+
+export const blankLevel = (): EditableLevel => ({
+  name: 'Untitled Pasture',
+  pastures: [
+    { type: SheepType.WHITE, bounds: { x: 0.03, y: 0.05, w: 0.2, h: 0.3 } },
+    { type: SheepType.BLACK, bounds: { x: 0.77, y: 0.05, w: 0.2, h: 0.3 } },
+  ],
+  obstacles: [],
+  spawnZones: [
+    { type: SheepType.WHITE, bounds: { x: 0.2, y: 0.5, w: 0.25, h: 0.3 }, count: 4 },
+    { type: SheepType.BLACK, bounds: { x: 0.55, y: 0.5, w: 0.25, h: 0.3 }, count: 4 },
+  ],
+});
+
+// Flatten any level (anchored pastures, scattered obstacles, ratio spawns) into editable form
+// as it would appear in `world` for `seed`.
+export const toEditable = (config: LevelConfig, world: WorldSize, seed: number): EditableLevel => {
+  const pastures = layoutPastures(config.pastures, world);
+
+  const obstacles: ObstaclePlacement[] = Array.isArray(config.obstacles)
+    ? config.obstacles.map(o => ({ ...o }))
+    : (() => {
+        const rng = createRng(seed);
+        return scatterObstacles(config.obstacles, world, pastures, () => nextRandom(rng))
+          .map(o => ({ type: o.type, x: o.pos.x / world.w, y: o.pos.y / world.h }));
+      })();
+
+  const blackCount = Math.round(config.sheepCount * config.blackSheepRatio);
+  const spawnZones: SpawnZone[] = config.spawnZones
+    ? config.spawnZones.map(z => ({ ...z, bounds: { ...z.bounds } }))
+    : [
+        { type: SheepType.WHITE, bounds: { ...config.spawn }, count: config.sheepCount - blackCount },
+        { type: SheepType.BLACK, bounds: { ...config.spawn }, count: blackCount },
+      ].filter(z => z.count > 0);
+
+  const toEditablePasture = (layout: PastureLayout, i: number): EditablePasture => {
+    if (!('polygon' in layout)) return { type: layout.type, bounds: toFraction(pastures[i].bounds, world), gates: layout.gates };
+    const box = outlineBounds(layout.polygon);
+    return {
+      type: layout.type,
+      bounds: box,
+      outline: layout.polygon.map(p => ({ x: box.w ? (p.x - box.x) / box.w : 0, y: box.h ? (p.y - box.y) / box.h : 0 })),
+      gates: layout.gates,
+    };
+  };
+
+  return {
+    name: config.name ?? 'Untitled Pasture',
+    world: config.world,
+    pastures: config.pastures.map(toEditablePasture),
+    obstacles,
+    spawnZones,
+    fences: config.fences,
+    environment: config.environment,
+    wolves: config.wolves,
+    targets: config.targets,
+  };
+};
+
+const toPastureLayout = (p: EditablePasture): PastureLayout => {
+  const gates = p.gates && { gates: p.gates.map(g => ({ ...g })) };
+  if (!p.outline) return { type: p.type, bounds: { ...p.bounds }, ...gates };
+  const { x, y, w, h } = p.bounds;
+  return { type: p.type, polygon: p.outline.map(o => ({ x: x + o.x * w, y: y + o.y * h })), ...gates };
+};
+
+// Produce a level file from the editor model. The legacy count/ratio/spawn fields are
+// filled in from the zones so older readers still get something sensible.
+export const toLevelConfig = (level: EditableLevel): LevelConfig => {
+  const sheepCount = level.spawnZones.reduce((sum, z) => sum + z.count, 0);
+  const blackCount = level.spawnZones.filter(z => z.type === SheepType.BLACK).reduce((sum, z) => sum + z.count, 0);
+
+  const xs = level.spawnZones.flatMap(z => [z.bounds.x, z.bounds.x + z.bounds.w]);
+  const ys = level.spawnZones.flatMap(z => [z.bounds.y, z.bounds.y + z.bounds.h]);
+  const spawn = xs.length
+    ? { x: Math.min(...xs), y: Math.min(...ys), w: Math.max(...xs) - Math.min(...xs), h: Math.max(...ys) - Math.min(...ys) }
+    : { x: 0.04, y: 0.33, w: 0.92, h: 0.5 };
+
+  return {
+    name: level.name,
+    world: level.world,
+    sheepCount,
+    blackSheepRatio: sheepCount > 0 ? blackCount / sheepCount : 0.5,
+    obstacles: level.obstacles.map(o => ({ ...o })),
+    pastures: level.pastures.map(toPastureLayout),
+    spawn,
+    spawnZones: level.spawnZones.map(z => ({ ...z, bounds: { ...z.bounds } })),
+    fences: level.fences,
+    environment: level.environment,
+    wolves: level.wolves,
+    targets: level.targets,
+  };
+};
+
+// The level as it would be tested or exported, checked the way importing the file checks it,
+// and with the dog able to reach every flock and gate. Throws with a readable reason.
+export const checkedLevelConfig = (level: EditableLevel): LevelConfig => {
+  const config = toLevelConfig(level);
+  if (config.sheepCount === 0) throw new Error('Paint a spawn zone with at least one sheep in it');
+  const parsed = parseLevelConfig(config, level.name || 'pasture');
+  const blocked = unreachable(parsed);
+  if (blocked.length > 0) throw new Error(`The dog can't reach ${blocked.join(', ')}`);
+  return parsed;
+};
+
+// Topmost editable thing under `p` (pixels). Handles win over bodies, obstacles over areas.
+export const hitTest = (level: EditableLevel, p: Vector2, world: WorldSize): EditorTarget | null => {
+  const rectHit = (kind: 'pasture' | 'spawn', rects: Rect[]): EditorTarget | null => {
+    for (let i = rects.length - 1; i >= 0; i--) {
+      const px = toPixels(rects[i], world);
+      const corners = rectCorners(px);
+      const corner = (Object.keys(corners) as Corner[]).find(c => dist(corners[c], p) <= HANDLE_SIZE);
+      if (corner) return { kind, index: i, corner };
+    }
+    for (let i = rects.length - 1; i >= 0; i--) {
+      if (isPointInRect(p, toPixels(rects[i], world))) return { kind, index: i, corner: null };
+    }
+    return null;
+  };
+
+  for (let i = level.obstacles.length - 1; i >= 0; i--) {
+    const o = level.obstacles[i];
+    const radius = o.radius ?? OBSTACLE_RADIUS[o.type];
+    if (dist(p, { x: o.x * world.w, y: o.y * world.h }) <= radius) return { kind: 'obstacle', index: i };
+  }
+
+  // Spawn zones usually sit in open field, pastures at the edges; zones get first pick
+  return rectHit('spawn', level.spawnZones.map(z => z.bounds)) ?? rectHit('pasture', level.pastures.map(p => p.bounds));
+};
+
+export const targetRect = (level: EditableLevel, target: EditorTarget, world: WorldSize): Rect => {
+  if (target.kind === 'obstacle') {
+    const o = level.obstacles[target.index];
+    return { x: o.x * world.w, y: o.y * world.h, w: 0, h: 0 };
+  }
+  const rect = target.kind === 'pasture' ? level.pastures[target.index].bounds : level.spawnZones[target.index].bounds;
+  return toPixels(rect, world);
+};
+
+// Apply a drag to the level in place: move bodies and obstacles, resize from corners.
+export const applyDrag = (level: EditableLevel, drag: EditorDrag, p: Vector2, world: WorldSize) => {
+  const dx = p.x - drag.start.x;
+  const dy = p.y - drag.start.y;
+  const { target, origin } = drag;
+
+  if (target.kind === 'obstacle') {
+    const o = level.obstacles[target.index];
+    o.x = Math.max(0, Math.min(1, (origin.x + dx) / world.w));
+    o.y = Math.max(0, Math.min(1, (origin.y + dy) / world.h));
+    return;
+  }
+
+  let next: Rect;
+  if (target.corner === null) {
+    next = {
+      ...origin,
+      x: Math.max(0, Math.min(world.w - origin.w, origin.x + dx)),
+      y: Math.max(0, Math.min(world.h - origin.h, origin.y + dy)),
+    };
+  } else {
+    // Keep the opposite corner fixed
+    const corners = rectCorners(origin);
+    const opposite = corners[({ nw: 'se', ne: 'sw', sw: 'ne', se: 'nw' } as const)[target.corner]];
+    const moved = {
+      x: Math.max(0, Math.min(world.w, corners[target.corner].x + dx)),
+      y: Math.max(0, Math.min(world.h, corners[target.corner].y + dy)),
+    };
+    next = rectFromPoints(opposite, moved);
+    if (next.w < MIN_RECT_PX || next.h < MIN_RECT_PX) return;
+  }
+
+  const bounds = toFraction(next, world);
+  if (target.kind === 'pasture') level.pastures[target.index].bounds = bounds;
+  else level.spawnZones[target.index].bounds = bounds;
+};
+
+export const removeTarget = (level: EditableLevel, target: EditorTarget) => {
+  if (target.kind === 'obstacle') level.obstacles.splice(target.index, 1);
+  else if (target.kind === 'spawn') level.spawnZones.splice(target.index, 1);
+  // Every level needs somewhere to herd to
+  else if (level.pastures.length > 1) level.pastures.splice(target.index, 1);
+};
+
+// Add a rect drawn with the PASTURE or SPAWN tool. Tiny accidental drags are ignored.
+// Spawn zones painted with a `breed` spawn that breed and take its pen type.
+export const addRect = (level: EditableLevel, tool: 'PASTURE' | 'SPAWN', type: SheepType, pixelRect: Rect, world: WorldSize, breed?: string): EditorTarget | null => {
+  if (pixelRect.w < MIN_RECT_PX || pixelRect.h < MIN_RECT_PX) return null;
+  const bounds = toFraction(pixelRect, world);
+  if (tool === 'PASTURE') {
+    level.pastures.push({ type, bounds });
+    return { kind: 'pasture', index: level.pastures.length - 1, corner: null };
+  }
+  level.spawnZones.push({ type: breed ? BREEDS[breed].pasture : type, ...(breed && { breed }), bounds, count: defaultZoneCount(pixelRect) });
+  return { kind: 'spawn', index: level.spawnZones.length - 1, corner: null };
+};
+
+export const addObstacle = (level: EditableLevel, type: ObstaclePlacement['type'], p: Vector2, world: WorldSize) => {
+  level.obstacles.push({ type, x: p.x / world.w, y: p.y / world.h });
+};
@@ -0,0 +1,68 @@
+import { FOG_FEAR_SCALE, NIGHT_FEAR_SCALE, RAIN_PANIC_FLOOR, WIND_DRIFT } from '../constants';
+import { Environment, Vector2, Weather } from '../types';
+
+// --- Environment ---
+// Time of day and weather. Everything here is a pure function of the environment state and
+// the level clock, so replays see exactly the same gusts and nightfall.
+
+export const WEATHERS: Weather[] = ['CLEAR', 'WIND', 'RAIN', 'FOG'];
+
+export const DEFAULT_ENVIRONMENT: Environment = {
+  hour: 9,
+  dayLength: 1440, // An hour of daylight per minute of play
+  weather: 'CLEAR',
+  intensity: 0,
+  windAngle: 0,
+};
+
+export const createEnvironment = (config: Partial<Environment> = {}): Environment => ({ ...DEFAULT_ENVIRONMENT, ...config });
+
+export const advanceEnvironment = (env: Environment, dt: number) => {
+  if (env.dayLength > 0) env.hour = (env.hour + (dt * 24) / env.dayLength) % 24;
+};
+
+// 0 in full daylight (08:00 to 17:00), 1 in the dead of night (21:00 to 05:00)
+export const darknessAt = (hour: number) => {
+  if (hour >= 8 && hour <= 17) return 0;
+  if (hour >= 21 || hour <= 5) return 1;
+  return hour < 8 ? (8 - hour) / 3 : (hour - 17) / 4;
+};
+
+// Wind comes in gusts: 75% to 100% of the level's intensity
+export const gustAt = (env: Environment, timeElapsed: number) =>
+  env.weather === 'WIND' ? env.intensity * (0.75 + 0.25 * Math.sin(timeElapsed * 0.7)) : 0;
+
+export const windVector = (env: Environment, timeElapsed: number): Vector2 => {
+  const strength = gustAt(env, timeElapsed);
+  const angle = (env.windAngle * Math.PI) / 180;
+  return { x: Math.cos(angle) * strength, y: Math.sin(angle) * strength };
+};
+
+export interface EnvironmentModifiers {
+  perceptionScale: number; // Sheep notice the dog later in the dark and in fog
+  drift: Vector2; // Pixels per tick the wind carries loose sheep
+  panicFloor: number; // Rain keeps the flock on edge
+}
+
+export const environmentModifiers = (env: Environment, timeElapsed: number): EnvironmentModifiers => {
+  const night = 1 - (1 - NIGHT_FEAR_SCALE) * darknessAt(env.hour);
+  const fog = env.weather === 'FOG' ? 1 - (1 - FOG_FEAR_SCALE) * env.intensity : 1;
+  const wind = windVector(env, timeElapsed);
+  return {
+    perceptionScale: night * fog,
+    drift: { x: wind.x * WIND_DRIFT, y: wind.y * WIND_DRIFT },
+    panicFloor: env.weather === 'RAIN' ? RAIN_PANIC_FLOOR * env.intensity : 0,
+  };
+};
+
+// Colour wash over the field: warm at dawn and dusk, deep blue at night. Null at midday.
+export const skyTint = (hour: number): string | null => {
+  const dark = darknessAt(hour);
+  if (dark === 0) return null;
+  if (dark === 1) return 'rgba(20, 30, 70, 0.35)';
+  const warm = 1 - Math.abs(dark - 0.4) / 0.6; // Peaks around sunrise and sunset
+  const r = Math.round(20 + 200 * warm);
+  const g = Math.round(30 + 90 * warm);
+  const b = Math.round(70 + 10 * warm);
+  return `rgba(${r}, ${g}, ${b}, ${(0.12 + 0.23 * dark).toFixed(3)})`;
+};
@@ -0,0 +1,39 @@
+import { Entity, FenceSegment, Vector2 } from '../types';
+import { vecAdd, vecMult, vecSub, dist } from './vector';
+
+// --- Fence Geometry ---
+
+export const closestPointOnSegment = (p: Vector2, seg: FenceSegment): Vector2 => {
+  const ab = vecSub(seg.b, seg.a);
+  const lenSq = ab.x * ab.x + ab.y * ab.y;
+  if (lenSq === 0) return { ...seg.a };
+  const t = Math.max(0, Math.min(1, ((p.x - seg.a.x) * ab.x + (p.y - seg.a.y) * ab.y) / lenSq));
+  return vecAdd(seg.a, vecMult(ab, t));
+};
+
+// Turn a polyline into its segments
+export const polylineSegments = (points: Vector2[]): FenceSegment[] =>
+  points.slice(1).map((b, i) => ({ a: points[i], b }));
+
+// Push a round body out of any fence it overlaps and drop the part of its velocity heading
+// into the fence, so it slides along rather than sticking.
+export const collideWithFences = (body: Pick<Entity, 'pos' | 'vel' | 'radius'>, fences: FenceSegment[]) => {
+  for (const fence of fences) {
+    const c = closestPointOnSegment(body.pos, fence);
+    const d = dist(body.pos, c);
+    if (d >= body.radius) continue;
+
+    let normal: Vector2;
+    if (d > 0) {
+      normal = vecMult(vecSub(body.pos, c), 1 / d);
+    } else {
+      // Dead on the line: pick the side using the segment's perpendicular
+      const along = vecSub(fence.b, fence.a);
+      const len = Math.hypot(along.x, along.y) || 1;
+      normal = { x: -along.y / len, y: along.x / len };
+    }
+    body.pos = vecAdd(c, vecMult(normal, body.radius));
+    const into = body.vel.x * normal.x + body.vel.y * normal.y;
+    if (into < 0) body.vel = vecSub(body.vel, vecMult(normal, into));
+  }
+};
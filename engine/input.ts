@@ -0,0 +1,38 @@
+import { Vector2 } from '../types';
+
+// A single tick's worth of player intent. `move` has magnitude 0..1, commands are held state
+export interface InputSnapshot {
+  move: Vector2;
+  bark: boolean;
+  lieDown: boolean;
+}
+
+export const EMPTY_INPUT: InputSnapshot = { move: { x: 0, y: 0 }, bark: false, lieDown: false };
+
+// Derive the dog's input vector from the currently held keys. Keys are physical key `code`s,
+// so holding Shift doesn't change the letters and left and right Shift are told apart.
+export const readKeyboardInput = (keys: { [code: string]: boolean }): InputSnapshot => {
+  const move = { x: 0, y: 0 };
+  if (keys['ArrowUp'] || keys['KeyW']) move.y -= 1;
+  if (keys['ArrowDown'] || keys['KeyS']) move.y += 1;
+  if (keys['ArrowLeft'] || keys['KeyA']) move.x -= 1;
+  if (keys['ArrowRight'] || keys['KeyD']) move.x += 1;
+  return { move, bark: !!keys['Space'], lieDown: !!(keys['ShiftLeft'] || keys['ShiftRight']) };
+};
+
+// Two players sharing a keyboard each get one side of it
+export type KeyboardLayout = 'wasd' | 'arrows';
+
+const LAYOUTS: Record<KeyboardLayout, { up: string; down: string; left: string; right: string; bark: string; lieDown: string }> = {
+  wasd: { up: 'KeyW', down: 'KeyS', left: 'KeyA', right: 'KeyD', bark: 'Space', lieDown: 'ShiftLeft' },
+  arrows: { up: 'ArrowUp', down: 'ArrowDown', left: 'ArrowLeft', right: 'ArrowRight', bark: 'Enter', lieDown: 'ShiftRight' },
+};
+
+export const readKeyboardLayout = (keys: { [code: string]: boolean }, layout: KeyboardLayout): InputSnapshot => {
+  const k = LAYOUTS[layout];
+  return {
+    move: { x: (keys[k.right] ? 1 : 0) - (keys[k.left] ? 1 : 0), y: (keys[k.down] ? 1 : 0) - (keys[k.up] ? 1 : 0) },
+    bark: !!keys[k.bark],
+    lieDown: !!keys[k.lieDown],
+  };
+};
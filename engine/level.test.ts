@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { levelSheepCount, parseLevelConfig } from './level';
+
+const level = () => ({
+  sheepCount: 6,
+  blackSheepRatio: 0,
+  obstacles: [{ type: 'ROCK', x: 0.5, y: 0.7 }],
+  pastures: [{ type: 'WHITE', anchor: 'top-left' }],
+  spawn: { x: 0.1, y: 0.4, w: 0.8, h: 0.4 },
+});
+
+describe('parseLevelConfig', () => {
+  it('accepts a valid level', () => {
+    const config = parseLevelConfig({ ...level(), targets: { time: 60, score: 500 } });
+    expect(config.sheepCount).toBe(6);
+    expect(config.targets).toEqual({ time: 60, score: 500 });
+  });
+
+  it.each([null, 'level', 42, []])('refuses %j', data => {
+    expect(() => parseLevelConfig(data)).toThrow('Invalid level: not an object');
+  });
+
+  it('refuses breeds named after built-in object keys', () => {
+    const spawnZones = [{ type: 'WHITE', breed: 'toString', bounds: { x: 0.1, y: 0.4, w: 0.3, h: 0.3 }, count: 3 }];
+    expect(() => parseLevelConfig({ ...level(), spawnZones })).toThrow('spawnZones[0].breed "toString" is not a known breed');
+  });
+
+  it('refuses obstacle types named after built-in object keys', () => {
+    const obstacles = [{ type: 'constructor', x: 0.5, y: 0.5 }];
+    expect(() => parseLevelConfig({ ...level(), obstacles })).toThrow('obstacles[0] is malformed');
+  });
+
+  it.each([
+    [{ time: -5 }, 'targets.time must be a positive number of seconds'],
+    [{ time: '60' }, 'targets.time must be a positive number of seconds'],
+    [{ score: -1 }, 'targets.score must be 0 or more'],
+    ['fast', 'targets must be an object'],
+  ])('refuses targets %j', (targets, reason) => {
+    expect(() => parseLevelConfig({ ...level(), targets })).toThrow(reason);
+  });
+
+  it.each([0, -10, 1000, '20'])('refuses an obstacle radius of %j', radius => {
+    const obstacles = [{ type: 'TREE', x: 0.5, y: 0.5, radius }];
+    expect(() => parseLevelConfig({ ...level(), obstacles })).toThrow('obstacles[0].radius must be between 0 and 200 pixels');
+  });
+
+  it('keeps a valid obstacle radius', () => {
+    const obstacles = [{ type: 'TREE', x: 0.5, y: 0.5, radius: 40 }];
+    expect(parseLevelConfig({ ...level(), obstacles }).obstacles).toEqual(obstacles);
+  });
+
+  it.each([
+    [{ count: 1, pxPerExtra: 0 }, 'obstacles.pxPerExtra must be at least 100 pixels'],
+    [{ count: 1, pxPerExtra: 0.001 }, 'obstacles.pxPerExtra must be at least 100 pixels'],
+    [{ count: 1, pxPerExtra: '800' }, 'obstacles.pxPerExtra must be at least 100 pixels'],
+    [{ count: -1 }, 'obstacles must be a placement list or { count }'],
+    [{ count: 2.5 }, 'obstacles must be a placement list or { count }'],
+    [{ count: 1e9 }, 'obstacles.count must be at most 200'],
+    [{ count: 1, treeRatio: 1.5 }, 'obstacles.treeRatio must be between 0 and 1'],
+  ])('refuses the scatter %j', (obstacles, reason) => {
+    expect(() => parseLevelConfig({ ...level(), obstacles })).toThrow(reason);
+  });
+
+  it.each([0, -3, 2.5, 1e9, '6'])('refuses a sheepCount of %j', sheepCount => {
+    expect(() => parseLevelConfig({ ...level(), sheepCount })).toThrow('sheepCount must be a whole number from 1 to 1000');
+  });
+
+  it('refuses spawn zones that add up to too many sheep', () => {
+    const zone = { type: 'WHITE', bounds: { x: 0.1, y: 0.4, w: 0.3, h: 0.3 }, count: 600 };
+    expect(() => parseLevelConfig({ ...level(), spawnZones: [zone, zone] })).toThrow('spawnZones hold more than 1000 sheep');
+  });
+});
+
+describe('levelSheepCount', () => {
+  it('counts the spawn zones over sheepCount', () => {
+    const zone = { type: 'WHITE', bounds: { x: 0.1, y: 0.4, w: 0.3, h: 0.3 }, count: 4 };
+    expect(levelSheepCount(parseLevelConfig({ ...level(), spawnZones: [zone, zone] }))).toBe(8);
+    expect(levelSheepCount(parseLevelConfig(level()))).toBe(6);
+  });
+});
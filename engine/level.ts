@@ -0,0 +1,366 @@
+import { WOLF_MAX_LOSSES } from '../constants';
+import { Dog, FenceSegment, GameState, GateLayout, LevelConfig, Obstacle, ObstacleDensity, Pasture, PastureAnchor, PastureLayout, Rect, Sheep, SheepType, SpawnZone, Vector2, Weather } from '../types';
+import { BREEDS, defaultBreedFor } from './breeds';
+import { dogStart } from './dogs';
+import { createEnvironment, WEATHERS } from './environment';
+import { closestPointOnSegment, polylineSegments } from './fences';
+import { isPointInPasture } from './pastures';
+import { emptyStats, parTimeFor } from './scoring';
+import { createRng, levelSeed, nextRandom } from './random';
+import { WorldSize } from './simulation';
+import { isFraction, isNum, isObject, isString, JsonObject } from './validate';
+import { dist } from './vector';
+import { createWolves } from './wolves';
+
+export const OBSTACLE_RADIUS = { TREE: 25, ROCK: 15, BUSH: 18 } as const;
+
+export const GATE_CLEARANCE = 60;
+
+// Field size for levels that don't set their own
+export const DEFAULT_WORLD: WorldSize = { w: 1600, h: 900 };
+export const MIN_WORLD_SIDE = 480;
+export const MAX_WORLD_SIDE = 4800;
+
+export const levelWorld = (config: Pick<LevelConfig, 'world'>): WorldSize => ({ ...(config.world ?? DEFAULT_WORLD) });
+
+// Painted spawn zones set the flock size; `sheepCount` only counts when there are none
+export const levelSheepCount = (config: Pick<LevelConfig, 'sheepCount' | 'spawnZones'>) =>
+  config.spawnZones ? config.spawnZones.reduce((sum, z) => sum + z.count, 0) : config.sheepCount;
+
+const PX_PER_EXTRA = 800;
+
+// How many obstacles a density spec scatters on a field this wide
+export const scatteredCount = (density: ObstacleDensity, world: WorldSize) =>
+  density.count + Math.floor(world.w / (density.pxPerExtra ?? PX_PER_EXTRA));
+
+// Generate Obstacles (Scattered by density, kept out of pastures, gateways and the dog's start)
+export const scatterObstacles = (
+  density: ObstacleDensity,
+  world: WorldSize,
+  pastures: Pasture[],
+  random: () => number
+): Obstacle[] => {
+  const { w, h } = world;
+  const { treeRatio = 0.7 } = density;
+  const obstacles: Obstacle[] = [];
+  const obstacleCount = scatteredCount(density, world);
+
+  for(let i=0; i<obstacleCount; i++) {
+      const type = random() > 1 - treeRatio ? 'TREE' : 'ROCK';
+      const radius = OBSTACLE_RADIUS[type];
+      let valid = false;
+      let pos = { x: 0, y: 0 };
+      let attempts = 0;
+
+      while(!valid && attempts < 20) {
+          pos = {
+              x: random() * (w - 100) + 50,
+              y: random() * (h - 100) + 50
+          };
+          const inPasture = pastures.some(p => isPointInPasture(pos, p));
+          const blocksGate = pastures.some(p => p.gates.some(g => dist(pos, closestPointOnSegment(pos, g)) < radius + GATE_CLEARANCE));
+          const dCenter = dist(pos, {x: w/2, y: h/2});
+
+          if (!inPasture && !blocksGate && dCenter > 150) valid = true;
+          attempts++;
+      }
+
+      if (valid) {
+          obstacles.push({
+              id: `obs_${i}`,
+              pos,
+              vel: {x:0, y:0},
+              radius,
+              type,
+              wobbleOffset: random() * 10
+          });
+      }
+  }
+  return obstacles;
+};
+
+// Every fence that blocks movement: pasture outlines plus the level's free-standing runs
+export const levelFences = (config: LevelConfig, pastures: Pasture[], world: WorldSize): FenceSegment[] => [
+  ...pastures.flatMap(p => p.fences),
+  ...(config.fences ?? []).flatMap(line => polylineSegments(line.map(p => ({ x: p.x * world.w, y: p.y * world.h })))),
+];
+
+// A field with nothing on it but `dogs`, for building levels off the screen: benchmarks,
+// headless checks and the online server
+export const emptyState = (dogs: Dog[]): GameState => ({
+  sheep: [],
+  dogs,
+  wolves: [],
+  obstacles: [],
+  barkWaves: [],
+  fences: [],
+  environment: createEnvironment(),
+  level: 1,
+  seed: 0,
+  rng: createRng(0),
+  score: 0,
+  timeElapsed: 0,
+  parTime: 0,
+  stats: emptyStats(),
+  lossLimit: 0,
+  isPlaying: false,
+  isLevelComplete: false,
+});
+
+// --- Level Generation ---
+// Builds a fresh field for `lvl` from its config and the run seed. Same inputs always give
+// the same layout, and the returned state's rng carries on from where generation stopped.
+export const buildLevelState = (
+  base: GameState,
+  config: LevelConfig,
+  lvl: number,
+  seed: number,
+  world: WorldSize,
+  pastures: Pasture[]
+): GameState => {
+  const { w, h } = world;
+  const rng = createRng(levelSeed(seed, lvl));
+  const random = () => nextRandom(rng);
+
+  const newSheep: Sheep[] = [];
+  const newObstacles: Obstacle[] = [];
+  // Painted spawn zones pin each sheep's colour and region; otherwise roll them from the ratio
+  const zoneSlots = (config.spawnZones ?? []).flatMap(z => Array.from({ length: z.count }, () => z));
+  const sheepCount = levelSheepCount(config);
+
+  if (Array.isArray(config.obstacles)) {
+    // Hand-placed obstacles
+    config.obstacles.forEach((o, i) => {
+      newObstacles.push({
+        id: `obs_${i}`,
+        pos: { x: o.x * w, y: o.y * h },
+        vel: {x:0, y:0},
+        radius: o.radius ?? OBSTACLE_RADIUS[o.type],
+        type: o.type,
+        wobbleOffset: random() * 10
+      });
+    });
+  } else {
+    newObstacles.push(...scatterObstacles(config.obstacles, world, pastures, random));
+  }
+
+  // Generate Sheep
+  for (let i = 0; i < sheepCount; i++) {
+    const zone = zoneSlots[i];
+    const flock = zone ? zone.type : random() < config.blackSheepRatio ? SheepType.BLACK : SheepType.WHITE;
+    const breed = BREEDS[zone?.breed ?? defaultBreedFor(flock)];
+    const spawn = zone ? zone.bounds : config.spawn;
+    let pos = { x: 0, y: 0 };
+    let valid = false;
+    let attempts = 0;
+    while(!valid) {
+        pos = {
+           x: (spawn.x + random() * spawn.w) * w,
+           y: (spawn.y + random() * spawn.h) * h
+        };
+        const hitObs = newObstacles.some(o => dist(pos, o.pos) < o.radius + breed.radius + 5);
+        // Keep away from pastures initially
+        const inPasture = pastures.some(p => isPointInPasture(pos, p));
+
+        // Give up on the constraints eventually rather than hang on a crowded spawn region
+        if((!hitObs && !inPasture) || ++attempts > 200) valid = true;
+    }
+
+    newSheep.push({
+      id: `s_${i}`,
+      pos,
+      vel: { x: (random() - 0.5), y: (random() - 0.5) },
+      radius: breed.radius,
+      type: breed.pasture,
+      breed: breed.id,
+      state: 'GRAZING',
+      panicLevel: 0,
+      wobbleOffset: random() * 100
+    });
+  }
+
+  // Followers (lambs) pair up with the nearest animal of the breed they follow
+  newSheep.forEach(s => {
+    const follows = BREEDS[s.breed].follows;
+    if (!follows) return;
+    const nearest = newSheep
+      .filter(other => other.breed === follows)
+      .reduce<Sheep | null>((best, other) => !best || dist(s.pos, other.pos) < dist(s.pos, best.pos) ? other : best, null);
+    if (nearest) s.followId = nearest.id;
+  });
+
+  return {
+    ...base,
+    sheep: newSheep,
+    obstacles: newObstacles,
+    dogs: base.dogs.map((dog, i) => ({
+      ...dog,
+      pos: dogStart({ x: w / 2, y: h / 2 }, i, base.dogs.length),
+      vel: { x: 0, y: 0 },
+      facingDir: { x: 0, y: 1 }, // Reset facing
+      isLyingDown: false,
+      barkCooldown: 0,
+      lieDownCooldown: 0,
+    })),
+    wolves: createWolves(config.wolves),
+    barkWaves: [],
+    fences: levelFences(config, pastures, world),
+    environment: createEnvironment(config.environment),
+    level: lvl,
+    seed,
+    rng,
+    score: 0,
+    timeElapsed: 0,
+    parTime: parTimeFor(config, newSheep.length),
+    stats: emptyStats(),
+    lossLimit: config.wolves?.maxLosses ?? WOLF_MAX_LOSSES,
+    isPlaying: false,
+    isLevelComplete: false,
+  };
+};
+
+// --- Level File Validation ---
+const isSheepType = (v: unknown): v is SheepType => Object.values(SheepType).includes(v as SheepType);
+const isRect = (v: unknown): v is Rect => isObject(v) && isFraction(v.x) && isFraction(v.y) && isFraction(v.w) && isFraction(v.h);
+const isPoint = (v: unknown): v is Vector2 => isObject(v) && isFraction(v.x) && isFraction(v.y);
+const isPointList = (v: unknown, min: number): v is Vector2[] => Array.isArray(v) && v.length >= min && v.every(isPoint);
+const isWeather = (v: unknown): v is Weather => WEATHERS.includes(v as Weather);
+const isObstacleType = (v: unknown): v is Obstacle['type'] => Object.hasOwn(OBSTACLE_RADIUS, v as string);
+const isBreed = (v: unknown): v is string => isString(v) && Object.hasOwn(BREEDS, v);
+const isCount = (v: unknown): v is number => isNum(v) && Number.isInteger(v) && v >= 0;
+const ANCHORS: PastureAnchor[] = ['top-left', 'top-right', 'bottom-left', 'bottom-right'];
+const MAX_OBSTACLE_RADIUS = 200;
+// Level building loops over every sheep and obstacle, so a file can't ask for unbounded numbers
+const MAX_LEVEL_SHEEP = 1000;
+const MAX_SCATTERED_OBSTACLES = 200;
+const MIN_PX_PER_EXTRA = 100;
+
+// Checks untrusted JSON against the level schema. Throws with a readable reason.
+export const parseLevelConfig = (data: unknown, source: string = 'level'): LevelConfig => {
+  const fail: (reason: string) => never = reason => { throw new Error(`Invalid ${source}: ${reason}`); };
+
+  if (!isObject(data)) return fail('not an object');
+  const { sheepCount, blackSheepRatio, spawn, world } = data;
+  if (!isCount(sheepCount) || sheepCount < 1 || sheepCount > MAX_LEVEL_SHEEP) return fail(`sheepCount must be a whole number from 1 to ${MAX_LEVEL_SHEEP}`);
+  if (!isFraction(blackSheepRatio)) return fail('blackSheepRatio must be between 0 and 1');
+  if (!isRect(spawn)) return fail('spawn must be a rect of fractions');
+  if (world !== undefined) {
+    const side = (v: unknown) => isNum(v) && v >= MIN_WORLD_SIDE && v <= MAX_WORLD_SIDE;
+    if (!isObject(world) || !side(world.w) || !side(world.h)) fail(`world must be { w, h } in pixels, ${MIN_WORLD_SIDE} to ${MAX_WORLD_SIDE} each`);
+  }
+
+  const parseGates = (p: JsonObject, i: number, edges: number): GateLayout[] | undefined => {
+    if (p.gates === undefined) return undefined;
+    if (!Array.isArray(p.gates) || p.gates.length === 0) return fail(`pastures[${i}].gates needs at least one gate`);
+    return p.gates.map((g: unknown, j: number): GateLayout => {
+      if (!isObject(g) || !isCount(g.edge) || g.edge >= edges) return fail(`pastures[${i}].gates[${j}] is malformed`);
+      if ((g.at !== undefined && !isFraction(g.at)) || (g.width !== undefined && !isFraction(g.width))) {
+        return fail(`pastures[${i}].gates[${j}] is malformed`);
+      }
+      return { ...g, edge: g.edge, at: g.at as number | undefined, width: g.width as number | undefined };
+    });
+  };
+
+  if (!Array.isArray(data.pastures) || data.pastures.length === 0) return fail('pastures must be a non-empty array');
+  const pastures = data.pastures.map((p: unknown, i: number): PastureLayout => {
+    if (!isObject(p) || !isSheepType(p.type)) return fail(`pastures[${i}].type is not a sheep type`);
+    if ('polygon' in p) {
+      if (!isPointList(p.polygon, 3)) return fail(`pastures[${i}].polygon needs at least 3 points`);
+      return { ...p, type: p.type, polygon: p.polygon, gates: parseGates(p, i, p.polygon.length) };
+    }
+    if ('bounds' in p) {
+      if (!isRect(p.bounds)) return fail(`pastures[${i}] needs a polygon, bounds or a corner anchor`);
+      return { ...p, type: p.type, bounds: p.bounds, gates: parseGates(p, i, 4) };
+    }
+    if (!ANCHORS.includes(p.anchor as PastureAnchor)) return fail(`pastures[${i}] needs a polygon, bounds or a corner anchor`);
+    if (p.scale !== undefined && !(isNum(p.scale) && p.scale > 0)) return fail(`pastures[${i}].scale must be a positive number`);
+    return { ...p, type: p.type, anchor: p.anchor as PastureAnchor, gates: parseGates(p, i, 4) };
+  });
+
+  const env = data.environment;
+  if (env !== undefined) {
+    if (!isObject(env)) return fail('environment must be an object');
+    if (env.hour !== undefined && !(isNum(env.hour) && env.hour >= 0 && env.hour < 24)) fail('environment.hour must be between 0 and 24');
+    if (env.dayLength !== undefined && !(isNum(env.dayLength) && env.dayLength >= 0)) fail('environment.dayLength must be 0 or more seconds');
+    if (env.weather !== undefined && !isWeather(env.weather)) fail(`environment.weather must be one of ${WEATHERS.join(', ')}`);
+    if (env.intensity !== undefined && !isFraction(env.intensity)) fail('environment.intensity must be between 0 and 1');
+    if (env.windAngle !== undefined && !isNum(env.windAngle)) fail('environment.windAngle must be a number of degrees');
+  }
+
+  const pack = data.wolves;
+  if (pack !== undefined) {
+    if (!isObject(pack) || !isCount(pack.count)) return fail('wolves.count must be a whole number');
+    if (pack.delay !== undefined && !(isNum(pack.delay) && pack.delay >= 0)) fail('wolves.delay must be 0 or more seconds');
+    if (pack.maxLosses !== undefined && !isCount(pack.maxLosses)) fail('wolves.maxLosses must be a whole number');
+  }
+
+  const targets = data.targets;
+  if (targets !== undefined) {
+    if (!isObject(targets)) return fail('targets must be an object');
+    if (targets.time !== undefined && !(isNum(targets.time) && targets.time > 0)) fail('targets.time must be a positive number of seconds');
+    if (targets.score !== undefined && !(isNum(targets.score) && targets.score >= 0)) fail('targets.score must be 0 or more');
+  }
+
+  const fences = data.fences;
+  if (fences !== undefined) {
+    if (!Array.isArray(fences)) return fail('fences must be an array of point lists');
+    fences.forEach((f: unknown, i: number) => {
+      if (!isPointList(f, 2)) fail(`fences[${i}] needs at least 2 points`);
+    });
+  }
+
+  let spawnZones: SpawnZone[] | undefined;
+  if (data.spawnZones !== undefined) {
+    if (!Array.isArray(data.spawnZones)) return fail('spawnZones must be an array');
+    spawnZones = data.spawnZones.map((z: unknown, i: number): SpawnZone => {
+      if (!isObject(z) || !isSheepType(z.type) || !isRect(z.bounds) || !isCount(z.count)) return fail(`spawnZones[${i}] is malformed`);
+      const breed = z.breed;
+      if (breed !== undefined) {
+        if (!isBreed(breed)) return fail(`spawnZones[${i}].breed "${breed}" is not a known breed`);
+        if (BREEDS[breed].pasture !== z.type) fail(`spawnZones[${i}]: a ${breed} belongs in a ${BREEDS[breed].pasture} pen`);
+      }
+      return { ...z, type: z.type, bounds: z.bounds, count: z.count, breed: breed as string | undefined };
+    });
+    if (spawnZones.reduce((sum, z) => sum + z.count, 0) > MAX_LEVEL_SHEEP) fail(`spawnZones hold more than ${MAX_LEVEL_SHEEP} sheep`);
+  }
+
+  // Every animal needs a pen it can be driven into
+  const needed: SheepType[] = spawnZones
+    ? spawnZones.filter(z => z.count > 0).map(z => z.type)
+    : [...(blackSheepRatio < 1 ? [SheepType.WHITE] : []), ...(blackSheepRatio > 0 ? [SheepType.BLACK] : [])];
+  needed.forEach(type => {
+    if (!pastures.some(p => p.type === type)) fail(`no pasture for the ${type} flock`);
+  });
+
+  const obstacles = data.obstacles;
+  if (Array.isArray(obstacles)) {
+    obstacles.forEach((o: unknown, i: number) => {
+      if (!isObject(o) || !isObstacleType(o.type) || !isFraction(o.x) || !isFraction(o.y)) fail(`obstacles[${i}] is malformed`);
+      if (o.radius !== undefined && !(isNum(o.radius) && o.radius > 0 && o.radius <= MAX_OBSTACLE_RADIUS)) {
+        fail(`obstacles[${i}].radius must be between 0 and ${MAX_OBSTACLE_RADIUS} pixels`);
+      }
+    });
+  } else {
+    if (!isObject(obstacles) || !isCount(obstacles.count)) return fail('obstacles must be a placement list or { count }');
+    if (obstacles.count > MAX_SCATTERED_OBSTACLES) fail(`obstacles.count must be at most ${MAX_SCATTERED_OBSTACLES}`);
+    if (obstacles.pxPerExtra !== undefined && !(isNum(obstacles.pxPerExtra) && obstacles.pxPerExtra >= MIN_PX_PER_EXTRA)) {
+      fail(`obstacles.pxPerExtra must be at least ${MIN_PX_PER_EXTRA} pixels`);
+    }
+    if (obstacles.treeRatio !== undefined && !isFraction(obstacles.treeRatio)) fail('obstacles.treeRatio must be between 0 and 1');
+  }
+
+  return {
+    name: isString(data.name) ? data.name : undefined,
+    world: isObject(world) ? { w: world.w as number, h: world.h as number } : undefined,
+    sheepCount,
+    blackSheepRatio,
+    obstacles: obstacles as LevelConfig['obstacles'],
+    pastures,
+    spawn,
+    spawnZones,
+    fences: fences as LevelConfig['fences'],
+    environment: env as LevelConfig['environment'],
+    wolves: pack as LevelConfig['wolves'],
+    targets: targets as LevelConfig['targets'],
+  };
+};
@@ -0,0 +1,182 @@
+import { describe, expect, it } from 'vitest';
+import { LevelConfig, ObstacleDensity, ObstaclePlacement, SheepType } from '../types';
+import { scatteredCount } from './level';
+import { repairLevel } from './levelRepair';
+
+const WORLD = { w: 1600, h: 900 };
+
+// Two pens along the top, the flock along the bottom: nothing to repair
+const baseLevel = (): LevelConfig => ({
+  world: WORLD,
+  sheepCount: 6,
+  blackSheepRatio: 0.5,
+  obstacles: [],
+  pastures: [
+    { type: SheepType.WHITE, bounds: { x: 0.03, y: 0.05, w: 0.2, h: 0.3 } },
+    { type: SheepType.BLACK, bounds: { x: 0.77, y: 0.05, w: 0.2, h: 0.3 } },
+  ],
+  spawn: { x: 0.1, y: 0.7, w: 0.8, h: 0.2 },
+});
+
+// Rocks shoulder to shoulder in a circle around the dog's start
+const rockRing = (radius: number): ObstaclePlacement[] => {
+  const count = Math.ceil((2 * Math.PI * radius) / 31);
+  return Array.from({ length: count }, (_, i) => {
+    const a = (i / count) * Math.PI * 2;
+    return { type: 'ROCK', x: (WORLD.w / 2 + Math.cos(a) * radius) / WORLD.w, y: (WORLD.h / 2 + Math.sin(a) * radius) / WORLD.h };
+  });
+};
+
+describe('repairLevel', () => {
+  it('leaves a playable level alone', () => {
+    const { fixes, problems } = repairLevel(baseLevel());
+    expect(fixes).toEqual([]);
+    expect(problems).toEqual([]);
+  });
+
+  it('pulls pens back inside the field', () => {
+    const level = baseLevel();
+    level.pastures[1] = { type: SheepType.BLACK, bounds: { x: 0.9, y: 0.05, w: 0.2, h: 0.3 } };
+    const { config, fixes, problems } = repairLevel(level);
+    expect(fixes).toContain('Pulled pens back inside the field');
+    expect(config.pastures[1]).toMatchObject({ bounds: { x: 0.8, w: 0.2 } });
+    expect(problems).toEqual([]);
+  });
+
+  it('moves overlapping pens apart', () => {
+    const level = baseLevel();
+    level.pastures[1] = { type: SheepType.BLACK, bounds: { x: 0.1, y: 0.1, w: 0.2, h: 0.3 } };
+    const { config, fixes, problems } = repairLevel(level);
+    expect(fixes).toContain('Moved the Dark Flock pen to a clear spot');
+    expect(config.pastures[1]).not.toEqual(level.pastures[1]);
+    expect(problems).toEqual([]);
+  });
+
+  it('moves a pen off the dog\'s start', () => {
+    const level = baseLevel();
+    level.pastures[0] = { type: SheepType.WHITE, bounds: { x: 0.4, y: 0.4, w: 0.2, h: 0.2 } };
+    const { fixes } = repairLevel(level);
+    expect(fixes).toContain('Moved the White Flock pen to a clear spot');
+  });
+
+  it('reports a pen there is no room for', () => {
+    const level = baseLevel();
+    level.pastures = [{ type: SheepType.WHITE, bounds: { x: 0, y: 0, w: 1, h: 1 } }, level.pastures[1]];
+    expect(repairLevel(level).problems).toContain('No room for the White Flock pen');
+  });
+
+  it('removes obstacles on pens, in gateways, on the start and on each other', () => {
+    const level = baseLevel();
+    level.obstacles = [
+      { type: 'TREE', x: 0.1, y: 0.2 }, // In the white pen
+      { type: 'ROCK', x: 0.5, y: 0.5 }, // On the dog's start
+      { type: 'ROCK', x: 0.5, y: 0.15 }, // Fine
+      { type: 'ROCK', x: 0.505, y: 0.15 }, // On top of the last one
+    ];
+    const { config, fixes } = repairLevel(level);
+    expect(fixes).toContain('Removed 3 obstacles in the way');
+    expect(config.obstacles).toEqual([{ type: 'ROCK', x: 0.5, y: 0.15 }]);
+  });
+
+  it('thins scattered obstacles', () => {
+    const level = baseLevel();
+    level.obstacles = { count: 100 };
+    const { config, fixes } = repairLevel(level);
+    expect(fixes).toContain('Thinned the obstacles to 40');
+    expect(config.obstacles).toEqual({ count: 38 }); // Plus one per 800px of the 1600px field
+  });
+
+  it('spreads out a scatter whose density alone is too much', () => {
+    const level = baseLevel();
+    level.obstacles = { count: 10, pxPerExtra: 20 };
+    const { config, fixes } = repairLevel(level);
+    expect(fixes).toContain('Thinned the obstacles to 40');
+    expect(config.obstacles).toEqual({ count: 0, pxPerExtra: 40 });
+    expect(scatteredCount(config.obstacles as ObstacleDensity, WORLD)).toBe(40);
+  });
+
+  it('takes down fences that run through a pen', () => {
+    const level = baseLevel();
+    level.fences = [[{ x: 0.1, y: 0 }, { x: 0.1, y: 0.5 }], [{ x: 0.4, y: 0.1 }, { x: 0.4, y: 0.3 }]];
+    const { config, fixes } = repairLevel(level);
+    expect(fixes).toContain('Took down fences running through pens');
+    expect(config.fences).toEqual([level.fences[1]]);
+  });
+
+  it('takes down fences that shut the dog in', () => {
+    const level = baseLevel();
+    level.fences = [[{ x: 0.4, y: 0.4 }, { x: 0.6, y: 0.4 }, { x: 0.6, y: 0.6 }, { x: 0.4, y: 0.6 }, { x: 0.4, y: 0.4 }]];
+    const { config, fixes, problems } = repairLevel(level);
+    expect(fixes).toContain('Took down fences that cut the field off');
+    expect(config.fences).toEqual([]);
+    expect(problems).toEqual([]);
+  });
+
+  it('removes obstacles that wall the dog in', () => {
+    const level = baseLevel();
+    level.obstacles = rockRing(170);
+    const { config, fixes, problems } = repairLevel(level);
+    expect(fixes).toContain('Removed obstacles that walled off the dog');
+    expect((config.obstacles as ObstaclePlacement[]).length).toBeLessThan(level.obstacles.length);
+    expect(problems).toEqual([]);
+  });
+
+  it('turns a gate that faces a wall', () => {
+    const level = baseLevel();
+    // Top edge against the top of the field
+    level.pastures[0] = { type: SheepType.WHITE, bounds: { x: 0, y: 0, w: 0.2, h: 0.3 }, gates: [{ edge: 0 }] };
+    const { config, fixes, problems } = repairLevel(level);
+    expect(fixes).toContain('Turned blocked gates to face the field');
+    expect(config.pastures[0].gates).toBeUndefined();
+    expect(problems).toEqual([]);
+  });
+
+  it('cuts an oversized flock', () => {
+    const level = baseLevel();
+    level.sheepCount = 200;
+    const { config, fixes } = repairLevel(level);
+    expect(fixes).toContain('Cut the flock to 60 sheep');
+    expect(config.sheepCount).toBe(60);
+  });
+
+  it('keeps at least one sheep in every zone when cutting the flock', () => {
+    const level = baseLevel();
+    // 70 zones of two: a plain scale-down would round every one of them to nothing
+    level.spawnZones = Array.from({ length: 70 }, (_, i) => ({
+      type: i % 2 ? SheepType.BLACK : SheepType.WHITE,
+      bounds: { x: 0.1 + (i % 10) * 0.08, y: 0.6 + Math.floor(i / 10) * 0.05, w: 0.05, h: 0.04 },
+      count: 2,
+    }));
+    const { config, fixes, problems } = repairLevel(level);
+    const counts = config.spawnZones!.map(z => z.count);
+    expect(fixes).toContain('Cut the flock to 60 sheep');
+    expect(counts.reduce((a, b) => a + b, 0)).toBe(60);
+    expect(counts.filter(c => c > 0)).toHaveLength(60);
+    expect(config.sheepCount).toBe(60);
+    expect(problems).not.toContain('There are no sheep');
+  });
+
+  it('shares the cut flock out in proportion', () => {
+    const level = baseLevel();
+    level.spawnZones = [
+      { type: SheepType.WHITE, bounds: { x: 0.1, y: 0.7, w: 0.3, h: 0.2 }, count: 90 },
+      { type: SheepType.BLACK, bounds: { x: 0.6, y: 0.7, w: 0.3, h: 0.2 }, count: 29 },
+      { type: SheepType.BLACK, bounds: { x: 0.45, y: 0.8, w: 0.1, h: 0.1 }, count: 1 },
+    ];
+    const { config } = repairLevel(level);
+    expect(config.spawnZones!.map(z => z.count)).toEqual([45, 14, 1]);
+    expect(config.sheepCount).toBe(60);
+  });
+
+  it('keeps sheepCount in step with the zones', () => {
+    const level = baseLevel();
+    level.spawnZones = [{ type: SheepType.WHITE, bounds: { x: 0.1, y: 0.7, w: 0.3, h: 0.2 }, count: 5 }];
+    expect(repairLevel(level).config.sheepCount).toBe(5);
+  });
+
+  it('reports a level with no sheep', () => {
+    const level = baseLevel();
+    level.spawnZones = [{ type: SheepType.WHITE, bounds: { x: 0.1, y: 0.7, w: 0.3, h: 0.2 }, count: 0 }];
+    expect(repairLevel(level).problems).toContain('There are no sheep');
+  });
+});
@@ -0,0 +1,308 @@
+import { DOG_RADIUS } from '../constants';
+import { LevelConfig, ObstaclePlacement, PastureLayout, Rect, SpawnZone, Vector2 } from '../types';
+import { closestPointOnSegment, polylineSegments } from './fences';
+import { GATE_CLEARANCE, levelFences, levelWorld, OBSTACLE_RADIUS, scatteredCount } from './level';
+import { isPointInPasture, isPointInRect, layoutPastures, PastureView } from './pastures';
+import { WorldSize } from './simulation';
+import { dist, vecAdd, vecMult, vecNorm, vecSub } from './vector';
+
+// --- Level Repair ---
+// Makes a level that passed schema validation actually playable, which anything designed by
+// a model often isn't: pens overlap or sit on the dog, rocks land in gateways, a fence walls
+// off a flock. Pens are pulled apart, obstacles are cleared away, and fences and then
+// obstacles are taken out until the dog can walk to every flock and every gate. Checks are
+// made on the level's own field size.
+
+export interface RepairResult {
+  config: LevelConfig;
+  fixes: string[]; // What was changed, in words
+  problems: string[]; // What couldn't be fixed; empty when the level is playable
+}
+
+const CELL = 16; // Reachability grid, px
+const EDGE_MARGIN = 0.03; // Where moved pens go, as a fraction of the field
+const PASTURE_GAP = 20; // px kept between pens
+const START_CLEARANCE = 150; // Obstacles stay this far from the dog's start, as when scattered
+const START_BOX = 80; // Half-size of the square no pen may cover around the start
+const MAX_SHEEP = 60;
+const MAX_OBSTACLES = 40;
+
+const zoneTotal = (zones: SpawnZone[]) => zones.reduce((sum, z) => sum + z.count, 0);
+
+// Shrink every zone in proportion so the flock totals `max`. Each zone that had sheep keeps
+// at least one while there are enough to go round; leftovers go to the largest remainders.
+const cutZones = (zones: SpawnZone[], max: number): SpawnZone[] => {
+  const total = zoneTotal(zones);
+  const shares = zones.map(z => (z.count * max) / total);
+  const counts = zones.map((z, i) => (z.count > 0 ? Math.max(1, Math.floor(shares[i])) : 0));
+  const filled = zones.map((_, i) => i).filter(i => zones[i].count > 0);
+
+  let left = max - counts.reduce((sum, c) => sum + c, 0);
+  [...filled].sort((a, b) => (shares[b] % 1) - (shares[a] % 1)).forEach(i => {
+    if (left > 0) { counts[i]++; left--; }
+  });
+  // Every zone got its one sheep and that came to too many: trim the biggest, then empty
+  // zones from the end if even one each is too many
+  while (left < 0) {
+    const biggest = filled.reduce((best, i) => (counts[i] > counts[best] ? i : best), filled[0]);
+    const i = counts[biggest] > 1 ? biggest : [...filled].reverse().find(j => counts[j] > 0)!;
+    counts[i]--;
+    left++;
+  }
+  return zones.map((z, i) => ({ ...z, count: counts[i] }));
+};
+
+const clamp = (v: number, min: number, max: number) => Math.max(min, Math.min(max, v));
+
+const clampRect = (r: Rect): Rect => {
+  const w = clamp(r.w, 0.02, 1);
+  const h = clamp(r.h, 0.02, 1);
+  return { x: clamp(r.x, 0, 1 - w), y: clamp(r.y, 0, 1 - h), w, h };
+};
+
+const sameRect = (a: Rect, b: Rect) => a.x === b.x && a.y === b.y && a.w === b.w && a.h === b.h;
+
+const rectsOverlap = (a: Rect, b: Rect, gap = 0) =>
+  a.x < b.x + b.w + gap && b.x < a.x + a.w + gap && a.y < b.y + b.h + gap && b.y < a.y + a.h + gap;
+
+const toPixels = (r: Rect, world: WorldSize): Rect => ({ x: r.x * world.w, y: r.y * world.h, w: r.w * world.w, h: r.h * world.h });
+
+// Keeps exported level files readable
+const round = (v: number) => Math.round(v * 1000) / 1000;
+
+// A pen moved and scaled so its box `from` becomes `to` (fractions). Anchored pens become boxes.
+const placePasture = (layout: PastureLayout, from: Rect, to: Rect): PastureLayout => {
+  const { type, gates } = layout;
+  if (!('polygon' in layout)) {
+    return { type, bounds: { x: round(to.x), y: round(to.y), w: round(to.w), h: round(to.h) }, ...(gates && { gates }) };
+  }
+  const sx = from.w ? to.w / from.w : 1;
+  const sy = from.h ? to.h / from.h : 1;
+  return { ...layout, polygon: layout.polygon.map(p => ({ x: round(to.x + (p.x - from.x) * sx), y: round(to.y + (p.y - from.y) * sy) })) };
+};
+
+// Corners first, then the middle of each edge
+const pastureSpots = (w: number, h: number): Vector2[] => {
+  const right = 1 - w - EDGE_MARGIN;
+  const bottom = 1 - h - EDGE_MARGIN;
+  return [
+    { x: EDGE_MARGIN, y: EDGE_MARGIN }, { x: right, y: EDGE_MARGIN }, { x: EDGE_MARGIN, y: bottom }, { x: right, y: bottom },
+    { x: (1 - w) / 2, y: EDGE_MARGIN }, { x: (1 - w) / 2, y: bottom }, { x: EDGE_MARGIN, y: (1 - h) / 2 }, { x: right, y: (1 - h) / 2 },
+  ];
+};
+
+// Pens inside the field, apart from each other and off the dog's start
+const separatePastures = (config: LevelConfig, world: WorldSize, fixes: string[], problems: string[]): PastureLayout[] => {
+  const clamped = config.pastures.map(p => ('bounds' in p ? { ...p, bounds: clampRect(p.bounds) } : p));
+  if (clamped.some((p, i) => 'bounds' in p && !sameRect(p.bounds, (config.pastures[i] as { bounds: Rect }).bounds))) {
+    fixes.push('Pulled pens back inside the field');
+  }
+
+  const laid = layoutPastures(clamped, world);
+  const placed: Rect[] = [{ x: world.w / 2 - START_BOX, y: world.h / 2 - START_BOX, w: START_BOX * 2, h: START_BOX * 2 }];
+  return clamped.map((layout, i) => {
+    const pixels = laid[i].bounds;
+    if (!placed.some(r => rectsOverlap(r, pixels, PASTURE_GAP))) {
+      placed.push(pixels);
+      return layout;
+    }
+    const box = { x: pixels.x / world.w, y: pixels.y / world.h, w: pixels.w / world.w, h: pixels.h / world.h };
+    for (const scale of [1, 0.75, 0.5]) {
+      const w = box.w * scale;
+      const h = box.h * scale;
+      const spot = pastureSpots(w, h).find(s => !placed.some(r => rectsOverlap(r, toPixels({ ...s, w, h }, world), PASTURE_GAP)));
+      if (!spot) continue;
+      const target = { ...spot, w, h };
+      placed.push(toPixels(target, world));
+      fixes.push(`Moved the ${laid[i].label} pen to a clear spot`);
+      return placePasture(layout, box, target);
+    }
+    problems.push(`No room for the ${laid[i].label} pen`);
+    return layout;
+  });
+};
+
+// Hand-placed obstacles off pens, gateways, the dog's start and each other
+const clearObstacles = (obstacles: ObstaclePlacement[], pastures: PastureView[], world: WorldSize, fixes: string[]) => {
+  const center = { x: world.w / 2, y: world.h / 2 };
+  const kept: { placement: ObstaclePlacement; pos: Vector2; radius: number }[] = [];
+  obstacles.slice(0, MAX_OBSTACLES).forEach(o => {
+    const pos = { x: o.x * world.w, y: o.y * world.h };
+    const radius = o.radius ?? OBSTACLE_RADIUS[o.type];
+    const onPen = pastures.some(p => isPointInRect(pos, { x: p.bounds.x - radius, y: p.bounds.y - radius, w: p.bounds.w + radius * 2, h: p.bounds.h + radius * 2 }));
+    const inGateway = pastures.some(p => p.gates.some(g => dist(pos, closestPointOnSegment(pos, g)) < radius + GATE_CLEARANCE));
+    const onOther = kept.some(k => dist(pos, k.pos) < radius + k.radius);
+    if (!onPen && !inGateway && !onOther && dist(pos, center) > START_CLEARANCE) kept.push({ placement: o, pos, radius });
+  });
+  const removed = obstacles.length - kept.length;
+  if (removed > 0) fixes.push(`Removed ${removed} obstacle${removed === 1 ? '' : 's'} in the way`);
+  return kept.map(k => k.placement);
+};
+
+// Free-standing fences that run through a pen
+const clearFences = (fences: Vector2[][], pastures: PastureView[], world: WorldSize, fixes: string[]) => {
+  const crossesPen = (line: Vector2[]) => polylineSegments(line.map(p => ({ x: p.x * world.w, y: p.y * world.h }))).some(seg => {
+    const steps = Math.max(1, Math.ceil(dist(seg.a, seg.b) / (CELL / 2)));
+    return Array.from({ length: steps + 1 }, (_, i) => vecAdd(seg.a, vecMult(vecSub(seg.b, seg.a), i / steps)))
+      .some(p => pastures.some(pen => isPointInPasture(p, pen, 2)));
+  });
+  const kept = fences.filter(line => !crossesPen(line));
+  if (kept.length < fences.length) fixes.push('Took down fences running through pens');
+  return kept;
+};
+
+// --- Reachability ---
+// Flood fill from the dog's start over a grid of cells the dog fits in
+const floodFrom = (config: LevelConfig, pastures: PastureView[], world: WorldSize) => {
+  const fences = levelFences(config, pastures, world);
+  const obstacles = Array.isArray(config.obstacles)
+    ? config.obstacles.map(o => ({ pos: { x: o.x * world.w, y: o.y * world.h }, radius: o.radius ?? OBSTACLE_RADIUS[o.type] }))
+    : []; // Scattered obstacles keep clear of gates and the start on their own
+  const cols = Math.ceil(world.w / CELL);
+  const rows = Math.ceil(world.h / CELL);
+  const open = (c: number, r: number) => {
+    const p = { x: (c + 0.5) * CELL, y: (r + 0.5) * CELL };
+    return !fences.some(f => dist(p, closestPointOnSegment(p, f)) < DOG_RADIUS) && !obstacles.some(o => dist(p, o.pos) < o.radius + DOG_RADIUS);
+  };
+
+  const reached = new Uint8Array(cols * rows);
+  const start = [Math.floor(world.w / 2 / CELL), Math.floor(world.h / 2 / CELL)];
+  const queue = open(start[0], start[1]) ? [start] : [];
+  queue.forEach(([c, r]) => { reached[r * cols + c] = 1; });
+  for (let i = 0; i < queue.length; i++) {
+    const [c, r] = queue[i];
+    for (const [nc, nr] of [[c + 1, r], [c - 1, r], [c, r + 1], [c, r - 1]]) {
+      if (nc < 0 || nr < 0 || nc >= cols || nr >= rows || reached[nr * cols + nc]) continue;
+      if (!open(nc, nr)) continue;
+      reached[nr * cols + nc] = 1;
+      queue.push([nc, nr]);
+    }
+  }
+
+  const cellOf = (p: Vector2) => [Math.floor(p.x / CELL), Math.floor(p.y / CELL)];
+  const inGrid = (c: number, r: number) => c >= 0 && r >= 0 && c < cols && r < rows;
+  return {
+    reachable: (p: Vector2) => {
+      const [c, r] = cellOf(p);
+      return inGrid(c, r) && reached[r * cols + c] === 1;
+    },
+    // Somewhere an animal could stand, whether or not the dog can get there
+    standable: (p: Vector2) => {
+      const [c, r] = cellOf(p);
+      return inGrid(c, r) && open(c, r);
+    },
+  };
+};
+
+interface Blockage {
+  pastures: number[]; // Pens whose gates the dog can't get to
+  spawns: number[]; // Spawn regions where a sheep could start out of the dog's reach
+  labels: string[];
+}
+
+const findBlockage = (config: LevelConfig, world: WorldSize): Blockage => {
+  const pastures = layoutPastures(config.pastures, world);
+  const { reachable, standable } = floodFrom(config, pastures, world);
+  const blockage: Blockage = { pastures: [], spawns: [], labels: [] };
+
+  pastures.forEach((p, i) => {
+    const middle = { x: p.bounds.x + p.bounds.w / 2, y: p.bounds.y + p.bounds.h / 2 };
+    const gateOpen = p.gates.some(g => {
+      const mid = vecMult(vecAdd(g.a, g.b), 0.5);
+      return reachable(vecAdd(mid, vecMult(vecNorm(vecSub(mid, middle)), DOG_RADIUS + CELL)));
+    });
+    if (!gateOpen) {
+      blockage.pastures.push(i);
+      blockage.labels.push(`the ${p.label} gate`);
+    }
+  });
+
+  const regions = config.spawnZones ? config.spawnZones.map(z => (z.count > 0 ? z.bounds : null)) : [config.spawn];
+  regions.forEach((region, i) => {
+    if (!region) return;
+    const r = toPixels(region, world);
+    let room = false;
+    let stranded = false;
+    for (let y = r.y + CELL / 2; y < r.y + r.h && !stranded; y += CELL) {
+      for (let x = r.x + CELL / 2; x < r.x + r.w && !stranded; x += CELL) {
+        const p = { x, y };
+        if (!standable(p) || pastures.some(pen => isPointInPasture(p, pen))) continue;
+        room = true;
+        stranded = !reachable(p);
+      }
+    }
+    if (!room || stranded) {
+      blockage.spawns.push(i);
+      blockage.labels.push(config.spawnZones ? `flock ${i + 1}` : 'the flock');
+    }
+  });
+  return blockage;
+};
+
+const isClear = (b: Blockage) => b.pastures.length === 0 && b.spawns.length === 0;
+
+// What the dog can't get to in the level as it stands, without repairing anything
+export const unreachable = (config: LevelConfig, world: WorldSize = levelWorld(config)) => findBlockage(config, world).labels;
+
+export const repairLevel = (input: LevelConfig, world: WorldSize = levelWorld(input)): RepairResult => {
+  const fixes: string[] = [];
+  const problems: string[] = [];
+  const config: LevelConfig = { ...input };
+
+  const total = config.spawnZones ? zoneTotal(config.spawnZones) : config.sheepCount;
+  if (total > MAX_SHEEP) {
+    config.sheepCount = Math.min(config.sheepCount, MAX_SHEEP);
+    if (config.spawnZones) config.spawnZones = cutZones(config.spawnZones, MAX_SHEEP);
+    fixes.push(`Cut the flock to ${MAX_SHEEP} sheep`);
+  }
+  // Zones replace the plain count, so keep the two in step
+  if (config.spawnZones) config.sheepCount = zoneTotal(config.spawnZones);
+  if (config.sheepCount < 1) problems.push('There are no sheep');
+  config.spawn = clampRect(config.spawn);
+  config.spawnZones = config.spawnZones?.map(z => ({ ...z, bounds: clampRect(z.bounds) }));
+
+  config.pastures = separatePastures(config, world, fixes, problems);
+  const pastures = layoutPastures(config.pastures, world);
+  if (config.fences) config.fences = clearFences(config.fences, pastures, world, fixes);
+  if (Array.isArray(config.obstacles)) {
+    config.obstacles = clearObstacles(config.obstacles, pastures, world, fixes);
+  } else if (scatteredCount(config.obstacles, world) > MAX_OBSTACLES) {
+    // Scattering already keeps clear of pens, gateways and the start; it just mustn't be dense
+    const density = config.obstacles;
+    const extra = scatteredCount({ ...density, count: 0 }, world);
+    config.obstacles = extra <= MAX_OBSTACLES
+      ? { ...density, count: MAX_OBSTACLES - extra }
+      : { ...density, count: 0, pxPerExtra: Math.ceil(world.w / MAX_OBSTACLES) };
+    fixes.push(`Thinned the obstacles to ${MAX_OBSTACLES}`);
+  }
+
+  let blockage = findBlockage(config, world);
+  // A gate facing the field's edge or a fence: open the side facing the middle instead
+  if (blockage.pastures.some(i => config.pastures[i].gates)) {
+    config.pastures = config.pastures.map((p, i) => {
+      if (!blockage.pastures.includes(i) || !p.gates) return p;
+      const { gates, ...rest } = p;
+      return rest as PastureLayout;
+    });
+    fixes.push('Turned blocked gates to face the field');
+    blockage = findBlockage(config, world);
+  }
+  // Then take fences down, newest first, and finally obstacles
+  const fencesBefore = config.fences?.length ?? 0;
+  while (!isClear(blockage) && config.fences?.length) {
+    config.fences = config.fences.slice(0, -1);
+    blockage = findBlockage(config, world);
+  }
+  if (fencesBefore > (config.fences?.length ?? 0)) fixes.push('Took down fences that cut the field off');
+  if (Array.isArray(config.obstacles)) {
+    const obstaclesBefore = config.obstacles.length;
+    while (!isClear(blockage) && config.obstacles.length) {
+      config.obstacles = config.obstacles.slice(0, -1);
+      blockage = findBlockage(config, world);
+    }
+    if (obstaclesBefore > config.obstacles.length) fixes.push('Removed obstacles that walled off the dog');
+  }
+  if (!isClear(blockage)) problems.push(`The dog can't reach ${blockage.labels.join(', ')}`);
+
+  return { config, fixes, problems };
+};
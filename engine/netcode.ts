@@ -0,0 +1,99 @@
+import { DogPalette, Entity, GameState, LevelConfig } from '../types';
+import { InputSnapshot } from './input';
+import { isNum, isObject, isString } from './validate';
+import { vecAdd, vecMult, vecSub } from './vector';
+
+// --- Online Play Protocol ---
+// Messages between browsers and the relay server (scripts/relay-server.mjs), and the
+// snapshot helpers both ends share. Only the server runs the real simulation: clients send
+// their input every tick and draw what they're sent, smoothed between snapshots.
+
+export const NET_PORT = 8787;
+export const MAX_PLAYERS = 4;
+export const SNAPSHOT_INTERVAL = 3; // Ticks between snapshots (20 a second)
+export const INTERPOLATION_DELAY_MS = 100; // Other players' dogs and the flock are drawn this far behind
+export const MAX_QUEUED_INPUTS = 8; // Inputs the server holds per player before dropping the oldest
+
+export type RoomPhase = 'LOBBY' | 'PLAYING' | 'WON' | 'LOST';
+
+export interface NetPlayer {
+  id: string;
+  name: string;
+  palette: DogPalette;
+  dogIndex: number | null; // Dog this player drives in the current level; null until the next one starts
+}
+
+export type ClientMessage =
+  | { type: 'join'; name: string; palette: DogPalette }
+  | { type: 'start'; level: number }
+  | { type: 'input'; seq: number; input: InputSnapshot };
+
+// Everything about a level that changes while it's played
+export type NetSnapshot = Pick<GameState, 'sheep' | 'dogs' | 'wolves' | 'barkWaves' | 'environment' | 'score' | 'timeElapsed' | 'stats'> & {
+  tick: number;
+  acks: { [playerId: string]: number }; // Last input seq the server has applied for each player
+};
+
+export type ServerMessage =
+  | { type: 'welcome'; playerId: string }
+  | { type: 'roster'; players: NetPlayer[]; hostId: string | null; phase: RoomPhase; level: number }
+  | { type: 'level'; level: number; config: LevelConfig; state: GameState }
+  | { type: 'snapshot'; snapshot: NetSnapshot }
+  | { type: 'error'; message: string };
+
+export const takeSnapshot = (state: GameState, tick: number, acks: NetSnapshot['acks']): NetSnapshot => ({
+  sheep: state.sheep,
+  dogs: state.dogs,
+  wolves: state.wolves,
+  barkWaves: state.barkWaves,
+  environment: state.environment,
+  score: state.score,
+  timeElapsed: state.timeElapsed,
+  stats: state.stats,
+  tick,
+  acks,
+});
+
+// The level as it started, brought up to date by a snapshot
+export const applySnapshot = (base: GameState, snapshot: NetSnapshot): GameState => {
+  const { tick, acks, ...live } = snapshot;
+  return { ...base, ...live };
+};
+
+// Anything in `to` that was also in `from` is moved `t` of the way between the two
+const lerpEntities = <T extends Entity>(from: T[], to: T[], t: number): T[] => {
+  const before = new Map(from.map(e => [e.id, e]));
+  return to.map(e => {
+    const prev = before.get(e.id);
+    return prev ? { ...e, pos: vecAdd(prev.pos, vecMult(vecSub(e.pos, prev.pos), t)) } : e;
+  });
+};
+
+export const interpolateSnapshots = (from: NetSnapshot, to: NetSnapshot, t: number): NetSnapshot => ({
+  ...to,
+  sheep: lerpEntities(from.sheep, to.sheep, t),
+  dogs: lerpEntities(from.dogs, to.dogs, t),
+  wolves: lerpEntities(from.wolves, to.wolves, t),
+});
+
+// --- Message Validation ---
+// The server can't trust what comes off the wire, so anything malformed is dropped
+const isInput = (v: unknown): v is InputSnapshot =>
+  isObject(v) && isObject(v.move) && isNum(v.move.x) && isNum(v.move.y) && typeof v.bark === 'boolean' && typeof v.lieDown === 'boolean';
+
+const isPalette = (v: unknown): v is DogPalette =>
+  isObject(v) && isString(v.name) && isString(v.primary) && isString(v.secondary);
+
+export const parseClientMessage = (text: string): ClientMessage | null => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  if (!isObject(data)) return null;
+  if (data.type === 'join' && isString(data.name) && isPalette(data.palette)) return { type: 'join', name: data.name, palette: data.palette };
+  if (data.type === 'start' && isNum(data.level)) return { type: 'start', level: data.level };
+  if (data.type === 'input' && isNum(data.seq) && isInput(data.input)) return { type: 'input', seq: data.seq, input: data.input };
+  return null;
+};
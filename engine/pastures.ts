@@ -0,0 +1,128 @@
+import { PASTURE_SETTINGS } from '../constants';
+import { FenceSegment, GateLayout, Pasture, PastureLayout, Rect, SheepType, Vector2 } from '../types';
+import { closestPointOnSegment } from './fences';
+import { WorldSize } from './simulation';
+import { dist, vecAdd, vecMult, vecSub } from './vector';
+
+export type PastureView = Pasture & { color: string, borderColor: string, label: string };
+
+// Default opening as a fraction of the edge it sits on
+export const DEFAULT_GATE_WIDTH = 0.5;
+
+const settingsFor = (type: SheepType) => PASTURE_SETTINGS.find(s => s.type === type) ?? PASTURE_SETTINGS[0];
+
+export const rectOutline = (r: Rect): Vector2[] => [
+  { x: r.x, y: r.y },
+  { x: r.x + r.w, y: r.y },
+  { x: r.x + r.w, y: r.y + r.h },
+  { x: r.x, y: r.y + r.h },
+];
+
+export const outlineBounds = (outline: Vector2[]): Rect => {
+  const xs = outline.map(p => p.x);
+  const ys = outline.map(p => p.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, w: Math.max(...xs) - x, h: Math.max(...ys) - y };
+};
+
+export const outlineEdges = (outline: Vector2[]): FenceSegment[] =>
+  outline.map((a, i) => ({ a, b: outline[(i + 1) % outline.length] }));
+
+// Without explicit gates, open the edge whose midpoint faces the middle of the field
+const defaultGates = (outline: Vector2[], world: WorldSize): GateLayout[] => {
+  const center = { x: world.w / 2, y: world.h / 2 };
+  const edges = outlineEdges(outline);
+  let best = 0;
+  edges.forEach((e, i) => {
+    const mid = vecMult(vecAdd(e.a, e.b), 0.5);
+    const bestMid = vecMult(vecAdd(edges[best].a, edges[best].b), 0.5);
+    if (dist(mid, center) < dist(bestMid, center)) best = i;
+  });
+  return [{ edge: best }];
+};
+
+// Split each edge around its gates: solid runs become fences, the gaps become gates
+const cutGates = (outline: Vector2[], gateLayouts: GateLayout[]) => {
+  const fences: FenceSegment[] = [];
+  const gates: FenceSegment[] = [];
+  const pointAt = (e: FenceSegment, t: number) => vecAdd(e.a, vecMult(vecSub(e.b, e.a), t));
+
+  outlineEdges(outline).forEach((edge, i) => {
+    const openings = gateLayouts
+      .filter(g => g.edge === i)
+      .map(g => {
+        const at = g.at ?? 0.5;
+        const half = (g.width ?? DEFAULT_GATE_WIDTH) / 2;
+        return [Math.max(0, at - half), Math.min(1, at + half)];
+      })
+      .sort((a, b) => a[0] - b[0]);
+
+    let t = 0;
+    openings.forEach(([from, to]) => {
+      if (from > t) fences.push({ a: pointAt(edge, t), b: pointAt(edge, from) });
+      if (to > Math.max(from, t)) gates.push({ a: pointAt(edge, Math.max(from, t)), b: pointAt(edge, to) });
+      t = Math.max(t, to);
+    });
+    if (t < 1) fences.push({ a: pointAt(edge, t), b: edge.b });
+  });
+
+  return { fences, gates };
+};
+
+// --- Helper to Lay Out a Level's Pastures for the Current World Size ---
+export const layoutPastures = (layouts: PastureLayout[], world: WorldSize): PastureView[] => {
+    const { w, h } = world;
+    const margin = 40;
+
+    return layouts.map((layout, i) => {
+        let outline: Vector2[];
+        if ('polygon' in layout) {
+            outline = layout.polygon.map(p => ({ x: p.x * w, y: p.y * h }));
+        } else if ('bounds' in layout) {
+            outline = rectOutline({ x: layout.bounds.x * w, y: layout.bounds.y * h, w: layout.bounds.w * w, h: layout.bounds.h * h });
+        } else {
+            const size = Math.min(w, h) * 0.25 * (layout.scale ?? 1); // 25% of smallest dimension
+            const clampedSize = Math.max(160, Math.min(350, size)); // Min 160px, Max 350px
+            const left = layout.anchor.endsWith('left');
+            const top = layout.anchor.startsWith('top');
+            outline = rectOutline({
+                x: left ? margin : w - clampedSize - margin,
+                y: top ? margin : h - clampedSize - margin,
+                w: clampedSize,
+                h: clampedSize,
+            });
+        }
+
+        return {
+            ...settingsFor(layout.type),
+            id: `p_${layout.type.toLowerCase()}_${i}`,
+            type: layout.type,
+            bounds: outlineBounds(outline),
+            outline,
+            ...cutGates(outline, layout.gates ?? defaultGates(outline, world)),
+        };
+    });
+};
+
+export const isPointInRect = (p: Vector2, rect: Rect) => {
+  return p.x >= rect.x && p.x <= rect.x + rect.w && p.y >= rect.y && p.y <= rect.y + rect.h;
+};
+
+// Even-odd ray cast
+export const isPointInPolygon = (p: Vector2, polygon: Vector2[]) => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.y > p.y) !== (b.y > p.y) && p.x < ((b.x - a.x) * (p.y - a.y)) / (b.y - a.y) + a.x) inside = !inside;
+  }
+  return inside;
+};
+
+// Inside the outline and at least `margin` clear of it (gates count as part of the outline,
+// so a sheep standing in the gateway isn't in yet)
+export const isPointInPasture = (p: Vector2, pasture: Pasture, margin = 0) => {
+  if (!isPointInRect(p, pasture.bounds) || !isPointInPolygon(p, pasture.outline)) return false;
+  return margin <= 0 || outlineEdges(pasture.outline).every(e => dist(p, closestPointOnSegment(p, e)) > margin);
+};
@@ -0,0 +1,26 @@
+import { Rng } from '../types';
+
+// Largest seed we hand out; keeps seeds short enough to read aloud and share
+export const MAX_SEED = 99999;
+
+export const createRng = (seed: number): Rng => ({ state: seed >>> 0 });
+
+// mulberry32 - small, fast and good enough for gameplay noise. Returns [0, 1)
+export const nextRandom = (rng: Rng): number => {
+  rng.state = (rng.state + 0x6D2B79F5) >>> 0;
+  let t = rng.state;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+// Each level of a run gets its own stream so "level 3, seed 81723" is reproducible on its own
+export const levelSeed = (seed: number, level: number) => (Math.imul(seed >>> 0, 0x9E3779B1) ^ Math.imul(level, 0x85EBCA77)) >>> 0;
+
+export const randomSeed = () => 1 + Math.floor(Math.random() * MAX_SEED);
+
+export const parseSeed = (text: string): number | null => {
+  const n = Number(text.trim());
+  if (!Number.isInteger(n) || n < 0 || n > MAX_SEED) return null;
+  return n;
+};
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { DOG_PALETTES } from '../constants';
+import { LevelConfig, SheepType } from '../types';
+import { parseReplay, Replay, ReplayRecorder, serializeReplay } from './replay';
+
+const CONFIG: LevelConfig = {
+  sheepCount: 6,
+  blackSheepRatio: 0,
+  obstacles: { count: 1 },
+  pastures: [{ type: SheepType.WHITE, anchor: 'top-left' }],
+  spawn: { x: 0.1, y: 0.4, w: 0.8, h: 0.4 },
+};
+
+const recorded = (): Replay => {
+  const recorder = new ReplayRecorder({ level: 1, seed: 7, config: CONFIG, world: { w: 1600, h: 900 }, palettes: [DOG_PALETTES.BLACK] });
+  for (let i = 0; i < 30; i++) recorder.record([{ move: { x: i < 10 ? 1 : 0, y: 0 }, bark: i === 20, lieDown: false }]);
+  return recorder.finish();
+};
+
+// The recording as it would come back from a file, with `change` applied
+const tampered = (change: (data: any) => void) => {
+  const data = JSON.parse(serializeReplay(recorded()));
+  change(data);
+  return JSON.stringify(data);
+};
+
+describe('parseReplay', () => {
+  it('reads back what was recorded', () => {
+    const replay = recorded();
+    expect(parseReplay(serializeReplay(replay))).toEqual(replay);
+  });
+
+  it.each([0, -5, 2.5, '3'])('refuses a run of %j ticks', ticks => {
+    expect(() => parseReplay(tampered(d => { d.inputs[0][0][2] = ticks; }))).toThrow('Replay input track is malformed');
+  });
+
+  it('refuses axes and buttons a recording could not hold', () => {
+    expect(() => parseReplay(tampered(d => { d.inputs[0][0][0] = 500; }))).toThrow('Replay input track is malformed');
+    expect(() => parseReplay(tampered(d => { d.inputs[0][0][3] = 8; }))).toThrow('Replay input track is malformed');
+  });
+
+  it('refuses a replay longer than an hour', () => {
+    expect(() => parseReplay(tampered(d => { d.inputs[0] = [[0, 0, 1e12, 0]]; }))).toThrow('Replay is longer than an hour');
+  });
+
+  it.each([[0, 900], [1600, 1e6], [100, 100]])('refuses a %i x %i world', (w, h) => {
+    expect(() => parseReplay(tampered(d => { d.world = { w, h }; }))).toThrow('Replay world must be 480 to 4800 pixels a side');
+  });
+
+  it("refuses a world that isn't its level's", () => {
+    expect(() => parseReplay(tampered(d => { d.world = { w: 2400, h: 1350 }; }))).toThrow("Replay world size doesn't match its level");
+  });
+});
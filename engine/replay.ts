@@ -0,0 +1,217 @@
+import { DogPalette, GameState, LevelConfig } from '../types';
+import { createDog } from './dogs';
+import { InputSnapshot } from './input';
+import { buildLevelState, levelWorld, MAX_WORLD_SIDE, MIN_WORLD_SIDE, parseLevelConfig } from './level';
+import { layoutPastures, PastureView } from './pastures';
+import { stepSimulation, WorldSize } from './simulation';
+import { isNum, isObject, isString } from './validate';
+
+export const REPLAY_VERSION = 5;
+
+// Input axes are stored as signed bytes so a recorded run replays bit-for-bit
+const INPUT_SCALE = 127;
+
+// How often the player snapshots state so scrubbing doesn't resimulate from tick 0
+const KEYFRAME_INTERVAL = 300;
+
+// Recording stops after an hour at 60 ticks a second; longer files are refused on load
+const MAX_REPLAY_TICKS = 60 * 60 * 60;
+
+// Bit flags for held commands in a recorded run
+const BUTTON_BARK = 1;
+const BUTTON_LIE_DOWN = 2;
+
+// [x, y, ticks, buttons] - one run of identical quantized input
+export type ReplayInputRun = [number, number, number, number];
+
+export interface Replay {
+  version: number;
+  level: number;
+  seed: number;
+  config: LevelConfig; // Embedded so a replay survives edits to the level files
+  world: WorldSize;
+  palettes: DogPalette[]; // One per dog
+  inputs: ReplayInputRun[][]; // One track per dog, all the same length
+}
+
+const quantizeAxis = (v: number) => Math.max(-INPUT_SCALE, Math.min(INPUT_SCALE, Math.round(v * INPUT_SCALE)));
+
+// Snap an input to the replay grid. Live play feeds the engine this same value so
+// the recording and the original run can never diverge.
+export const quantizeInput = (input: InputSnapshot): InputSnapshot => ({
+  move: {
+    x: quantizeAxis(input.move.x) / INPUT_SCALE,
+    y: quantizeAxis(input.move.y) / INPUT_SCALE,
+  },
+  bark: input.bark,
+  lieDown: input.lieDown,
+});
+
+const packButtons = (input: InputSnapshot) => (input.bark ? BUTTON_BARK : 0) | (input.lieDown ? BUTTON_LIE_DOWN : 0);
+
+export class ReplayRecorder {
+  meta: Omit<Replay, 'version' | 'inputs'>;
+  inputs: ReplayInputRun[][];
+  ticks: number = 0;
+
+  constructor(meta: Omit<Replay, 'version' | 'inputs'>) {
+    this.meta = meta;
+    this.inputs = meta.palettes.map(() => []);
+  }
+
+  // One snapshot per dog, in the same order as `palettes`
+  record(inputs: InputSnapshot[]) {
+    if (this.ticks >= MAX_REPLAY_TICKS) return;
+    this.ticks++;
+    this.inputs.forEach((track, i) => {
+      const input = inputs[i];
+      const x = quantizeAxis(input.move.x);
+      const y = quantizeAxis(input.move.y);
+      const buttons = packButtons(input);
+      const last = track[track.length - 1];
+      if (last && last[0] === x && last[1] === y && last[3] === buttons) last[2]++;
+      else track.push([x, y, 1, buttons]);
+    });
+  }
+
+  finish(): Replay {
+    return {
+      version: REPLAY_VERSION,
+      ...this.meta,
+      inputs: this.inputs.map(track => track.map(run => [...run] as ReplayInputRun)),
+    };
+  }
+}
+
+const expandTrack = (track: ReplayInputRun[]): InputSnapshot[] => {
+  const out: InputSnapshot[] = [];
+  track.forEach(([x, y, ticks, buttons]) => {
+    for (let i = 0; i < ticks; i++) {
+      out.push({
+        move: { x: x / INPUT_SCALE, y: y / INPUT_SCALE },
+        bark: (buttons & BUTTON_BARK) !== 0,
+        lieDown: (buttons & BUTTON_LIE_DOWN) !== 0,
+      });
+    }
+  });
+  return out;
+};
+
+// Per tick, every dog's input
+export const expandInputs = (replay: Replay): InputSnapshot[][] => {
+  const tracks = replay.inputs.map(expandTrack);
+  return tracks[0].map((_, tick) => tracks.map(track => track[tick]));
+};
+
+export const serializeReplay = (replay: Replay) => JSON.stringify(replay);
+
+export const parseReplay = (text: string): Replay => {
+  const data: unknown = JSON.parse(text);
+  // Older recordings had a single dog and ran without fences, so they can't be reproduced any more
+  if (!isObject(data) || data.version !== REPLAY_VERSION) {
+    throw new Error(`Unsupported replay version: ${isObject(data) ? data.version : undefined}`);
+  }
+  const { level, seed, world, palettes, inputs } = data;
+  if (!isNum(level) || !isNum(seed) || !isObject(world) || !isNum(world.w) || !isNum(world.h)) {
+    throw new Error('Replay is missing level, seed or world size');
+  }
+  const side = (v: number) => v >= MIN_WORLD_SIDE && v <= MAX_WORLD_SIDE;
+  if (!side(world.w) || !side(world.h)) {
+    throw new Error(`Replay world must be ${MIN_WORLD_SIDE} to ${MAX_WORLD_SIDE} pixels a side`);
+  }
+  const isPalette = (p: unknown): p is DogPalette => isObject(p) && isString(p.primary) && isString(p.secondary);
+  if (!Array.isArray(palettes) || palettes.length === 0 || !palettes.every(isPalette)) {
+    throw new Error('Replay is missing the dog palettes');
+  }
+  // Each run is two quantized axes, a positive whole number of ticks and the button bits
+  const isAxis = (v: unknown) => Number.isInteger(v) && Math.abs(v as number) <= INPUT_SCALE;
+  const isRun = (r: unknown) => Array.isArray(r) && r.length === 4 && isAxis(r[0]) && isAxis(r[1])
+    && Number.isInteger(r[2]) && r[2] > 0 && Number.isInteger(r[3]) && r[3] >= 0 && r[3] <= (BUTTON_BARK | BUTTON_LIE_DOWN);
+  const isTrack = (t: unknown): t is ReplayInputRun[] => Array.isArray(t) && t.every(isRun);
+  if (!Array.isArray(inputs) || inputs.length !== palettes.length || !inputs.every(isTrack)) {
+    throw new Error('Replay input track is malformed');
+  }
+  const lengths = inputs.map(track => track.reduce((sum, run) => sum + run[2], 0));
+  if (lengths.some(n => n !== lengths[0])) {
+    throw new Error('Replay input tracks differ in length');
+  }
+  if (lengths[0] > MAX_REPLAY_TICKS) {
+    throw new Error('Replay is longer than an hour');
+  }
+  const config = parseLevelConfig(data.config, 'replay level');
+  const levelSize = levelWorld(config);
+  if (world.w !== levelSize.w || world.h !== levelSize.h) {
+    throw new Error("Replay world size doesn't match its level");
+  }
+  return {
+    version: REPLAY_VERSION,
+    level,
+    seed,
+    config,
+    world: { w: world.w, h: world.h },
+    palettes,
+    inputs,
+  };
+};
+
+// Deterministically re-runs a recorded level. `base` supplies the starting state the same
+// way the live game does; the dogs come from the recorded palettes.
+export class ReplayPlayer {
+  replay: Replay;
+  pastures: PastureView[];
+  inputs: InputSnapshot[][];
+  state: GameState;
+  tick: number = 0;
+  base: GameState;
+  keyframes: Map<number, GameState> = new Map();
+
+  constructor(replay: Replay, base: GameState) {
+    this.replay = replay;
+    this.base = base;
+    this.pastures = layoutPastures(replay.config.pastures, replay.world);
+    this.inputs = expandInputs(replay);
+    this.state = this.initialState();
+    this.keyframes.set(0, structuredClone(this.state));
+  }
+
+  get length() {
+    return this.inputs.length;
+  }
+
+  get isFinished() {
+    return this.tick >= this.length || this.state.isLevelComplete;
+  }
+
+  private initialState(): GameState {
+    const state = buildLevelState(
+      { ...this.base, dogs: this.replay.palettes.map((palette, i) => createDog(palette, i)) },
+      this.replay.config,
+      this.replay.level,
+      this.replay.seed,
+      this.replay.world,
+      this.pastures
+    );
+    state.isPlaying = true;
+    return state;
+  }
+
+  step() {
+    if (this.isFinished) return;
+    stepSimulation(this.state, this.pastures, this.replay.world, this.inputs[this.tick]);
+    this.tick++;
+    if (this.tick % KEYFRAME_INTERVAL === 0 && !this.keyframes.has(this.tick)) {
+      this.keyframes.set(this.tick, structuredClone(this.state));
+    }
+  }
+
+  seek(target: number) {
+    target = Math.max(0, Math.min(this.length, Math.floor(target)));
+    if (target < this.tick) {
+      // Every interval below the current tick has been visited, so its keyframe exists
+      const from = Math.floor(target / KEYFRAME_INTERVAL) * KEYFRAME_INTERVAL;
+      this.state = structuredClone(this.keyframes.get(from)!);
+      this.tick = from;
+    }
+    while (this.tick < target && !this.isFinished) this.step();
+  }
+}
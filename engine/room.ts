@@ -0,0 +1,136 @@
+import { DOG_PALETTES } from '../constants';
+import { DogPalette, GameState, LevelConfig, Pasture } from '../types';
+import { createDog } from './dogs';
+import { EMPTY_INPUT, InputSnapshot } from './input';
+import { buildLevelState, emptyState, levelWorld } from './level';
+import { MAX_PLAYERS, MAX_QUEUED_INPUTS, NetPlayer, NetSnapshot, RoomPhase, ServerMessage, takeSnapshot } from './netcode';
+import { layoutPastures } from './pastures';
+import { randomSeed } from './random';
+import { quantizeInput } from './replay';
+import { stepSimulation, StepResult, WorldSize } from './simulation';
+import { vecLimit } from './vector';
+
+// --- Online Room ---
+// The authoritative side of an online game: who's playing, the level they're on and each
+// player's queue of inputs. The relay server steps it once per tick and broadcasts what
+// comes out.
+
+const MAX_NAME_LENGTH = 20;
+
+interface RoomPlayer extends NetPlayer {
+  inputs: { seq: number; input: InputSnapshot }[];
+  lastInput: InputSnapshot; // Held when the queue runs dry, as if the keys were still down
+  lastSeq: number;
+}
+
+export class Room {
+  players: RoomPlayer[] = [];
+  hostId: string | null = null;
+  phase: RoomPhase = 'LOBBY';
+  level: number = 1;
+  state: GameState | null = null;
+  pastures: Pasture[] = [];
+  world: WorldSize = levelWorld({});
+  tick: number = 0;
+  levels: LevelConfig[];
+  private nextId = 1;
+
+  constructor(levels: LevelConfig[]) {
+    this.levels = levels;
+  }
+
+  // Adds a player, or says why they can't join
+  join(name: string, palette: DogPalette): RoomPlayer | string {
+    if (this.players.length >= MAX_PLAYERS) return `The field is full (${MAX_PLAYERS} players)`;
+    // Two dogs in the same coat can't be told apart, so latecomers get a free one
+    const taken = this.players.map(p => p.palette.name);
+    const coat = taken.includes(palette.name) ? Object.values(DOG_PALETTES).find(p => !taken.includes(p.name))! : palette;
+    const player: RoomPlayer = {
+      id: `p${this.nextId++}`,
+      name: name.trim().slice(0, MAX_NAME_LENGTH) || 'Shepherd',
+      palette: coat,
+      dogIndex: null,
+      inputs: [],
+      lastInput: EMPTY_INPUT,
+      lastSeq: 0,
+    };
+    this.players.push(player);
+    this.hostId ??= player.id;
+    return player;
+  }
+
+  // A player's dog stays on the field, standing still, until the next level
+  leave(id: string) {
+    this.players = this.players.filter(p => p.id !== id);
+    if (this.hostId === id) this.hostId = this.players[0]?.id ?? null;
+    if (this.players.length === 0) {
+      this.phase = 'LOBBY';
+      this.state = null;
+    }
+  }
+
+  // Only the host picks the level. Everyone connected gets a dog.
+  start(id: string, level: number): string | null {
+    if (id !== this.hostId) return 'Only the host can start a level';
+    const config = this.levels[level - 1];
+    if (!config) return `There is no level ${level}`;
+
+    this.players.forEach((p, i) => {
+      p.dogIndex = i;
+      p.inputs = [];
+      p.lastInput = EMPTY_INPUT;
+    });
+    this.level = level;
+    this.world = levelWorld(config);
+    this.pastures = layoutPastures(config.pastures, this.world);
+    const dogs = this.players.map((p, i) => createDog(p.palette, i));
+    this.state = buildLevelState(emptyState(dogs), config, level, randomSeed(), this.world, this.pastures);
+    this.state.isPlaying = true;
+    this.phase = 'PLAYING';
+    this.tick = 0;
+    return null;
+  }
+
+  queueInput(id: string, seq: number, input: InputSnapshot) {
+    const player = this.players.find(p => p.id === id);
+    if (!player || seq <= player.lastSeq) return;
+    player.inputs.push({ seq, input: quantizeInput({ ...input, move: vecLimit(input.move, 1) }) });
+    // A client running fast would otherwise drift further and further ahead of the field
+    if (player.inputs.length > MAX_QUEUED_INPUTS) player.inputs.splice(0, player.inputs.length - MAX_QUEUED_INPUTS);
+  }
+
+  // One tick: each dog takes the next input its player sent
+  step(): StepResult | null {
+    if (this.phase !== 'PLAYING' || !this.state) return null;
+    const inputs = this.state.dogs.map((_, i) => {
+      const player = this.players.find(p => p.dogIndex === i);
+      if (!player) return EMPTY_INPUT;
+      const next = player.inputs.shift();
+      if (next) {
+        player.lastInput = next.input;
+        player.lastSeq = next.seq;
+      }
+      return player.lastInput;
+    });
+    const result = stepSimulation(this.state, this.pastures, this.world, inputs);
+    this.tick++;
+    if (result.levelComplete) this.phase = 'WON';
+    if (result.levelFailed) this.phase = 'LOST';
+    return result;
+  }
+
+  snapshot(): NetSnapshot | null {
+    if (!this.state) return null;
+    return takeSnapshot(this.state, this.tick, Object.fromEntries(this.players.map(p => [p.id, p.lastSeq])));
+  }
+
+  roster(): ServerMessage {
+    return {
+      type: 'roster',
+      players: this.players.map(({ id, name, palette, dogIndex }) => ({ id, name, palette, dogIndex })),
+      hostId: this.hostId,
+      phase: this.phase,
+      level: this.level,
+    };
+  }
+}
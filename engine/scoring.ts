@@ -0,0 +1,52 @@
+import { GameState, LevelConfig, LevelStats } from '../types';
+
+// --- Scoring ---
+// Calm herding pays: every sheep is worth a flat amount, a quick finish earns a bonus,
+// and running the dog around, panicking the flock or letting sheep escape all cost points.
+export const SCORE_WEIGHTS = {
+  perSheep: 100,
+  perSecondUnderPar: 10,
+  perDogPixel: 1 / 50,
+  perPanicSecond: 20,
+  perEscape: 50,
+  perSheepLost: 150, // On top of the sheep no longer counting towards the base
+};
+
+export interface ScoreBreakdown {
+  base: number;
+  timeBonus: number;
+  distancePenalty: number;
+  panicPenalty: number;
+  escapePenalty: number;
+  lossPenalty: number;
+  sheepLost: number;
+  total: number;
+  time: number;
+}
+
+export const emptyStats = (): LevelStats => ({ dogDistance: 0, panicSeconds: 0, escapes: 0, sheepLost: 0 });
+
+// Levels without a time target get a par that scales with flock size
+export const parTimeFor = (config: LevelConfig, sheepCount: number) => config.targets?.time ?? 30 + sheepCount * 10;
+
+export const scoreLevel = (state: GameState): ScoreBreakdown => {
+  const { stats, timeElapsed, parTime, sheep } = state;
+  const base = sheep.length * SCORE_WEIGHTS.perSheep;
+  const timeBonus = Math.round(Math.max(0, parTime - timeElapsed) * SCORE_WEIGHTS.perSecondUnderPar);
+  const distancePenalty = Math.round(stats.dogDistance * SCORE_WEIGHTS.perDogPixel);
+  const panicPenalty = Math.round(stats.panicSeconds * SCORE_WEIGHTS.perPanicSecond);
+  const escapePenalty = stats.escapes * SCORE_WEIGHTS.perEscape;
+  const lossPenalty = stats.sheepLost * SCORE_WEIGHTS.perSheepLost;
+
+  return {
+    base,
+    timeBonus,
+    distancePenalty,
+    panicPenalty,
+    escapePenalty,
+    lossPenalty,
+    sheepLost: stats.sheepLost,
+    total: Math.max(0, base + timeBonus - distancePenalty - panicPenalty - escapePenalty - lossPenalty),
+    time: timeElapsed,
+  };
+};
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { nextScreen, Screen, ScreenEvent, ScreenMachine, TRANSITIONS } from './screenFlow';
+
+const SCREENS: Screen[] = ['INTRO', 'SELECT_DOG', 'LEVEL_SELECT', 'LOADING', 'START', 'PLAYING', 'PAUSED', 'WON', 'LOST', 'COMPLETED', 'REPLAY', 'EDITOR', 'ONLINE'];
+const EVENTS = Object.keys(TRANSITIONS) as ScreenEvent[];
+
+// Every allowed move in normal play. Anything not listed must be refused.
+const PLAY: Record<Screen, Partial<Record<ScreenEvent, Screen>>> = {
+  INTRO: { CHOOSE_COMPANION: 'SELECT_DOG', WATCH_REPLAY: 'REPLAY', OPEN_EDITOR: 'EDITOR', GO_ONLINE: 'ONLINE' },
+  SELECT_DOG: { CHOOSE_LEVEL: 'LEVEL_SELECT', LOAD_LEVEL: 'LOADING' },
+  LEVEL_SELECT: { LOAD_LEVEL: 'LOADING' },
+  LOADING: { LEVEL_READY: 'START' },
+  START: { START: 'PLAYING' },
+  PLAYING: { PAUSE: 'PAUSED', WIN: 'WON', LOSE: 'LOST' },
+  PAUSED: { CHOOSE_COMPANION: 'SELECT_DOG', RETRY: 'START', RESUME: 'PLAYING', QUIT: 'INTRO' },
+  WON: { LOAD_LEVEL: 'LOADING', FINISH_RUN: 'COMPLETED', WATCH_REPLAY: 'REPLAY' },
+  LOST: { RETRY: 'START', WATCH_REPLAY: 'REPLAY', QUIT: 'INTRO' },
+  COMPLETED: { QUIT: 'INTRO' },
+  REPLAY: { CLOSE_REPLAY: 'INTRO' },
+  EDITOR: { LOAD_LEVEL: 'LOADING', QUIT: 'INTRO' },
+  ONLINE: { QUIT: 'INTRO' },
+};
+
+// A level played from the editor goes back to it instead of on through the run
+const TEST_RUN: Record<Screen, Partial<Record<ScreenEvent, Screen>>> = {
+  ...PLAY,
+  PAUSED: { ...PLAY.PAUSED, BACK_TO_EDITOR: 'EDITOR' },
+  WON: { LOAD_LEVEL: 'LOADING', WATCH_REPLAY: 'REPLAY', BACK_TO_EDITOR: 'EDITOR' },
+  LOST: { ...PLAY.LOST, BACK_TO_EDITOR: 'EDITOR' },
+};
+
+const cases = (table: Record<Screen, Partial<Record<ScreenEvent, Screen>>>) =>
+  SCREENS.flatMap(screen => EVENTS.map(event => [screen, event, table[screen][event] ?? null] as const));
+
+describe('nextScreen', () => {
+  it.each(cases(PLAY))('in play, %s + %s -> %s', (screen, event, to) => {
+    expect(nextScreen(screen, event, { testRun: false })).toBe(to);
+  });
+
+  it.each(cases(TEST_RUN))('in a test run, %s + %s -> %s', (screen, event, to) => {
+    expect(nextScreen(screen, event, { testRun: true })).toBe(to);
+  });
+
+  it('guards finishing a level on whether it is a test run', () => {
+    expect(nextScreen('WON', 'BACK_TO_EDITOR', { testRun: false })).toBeNull();
+    expect(nextScreen('WON', 'BACK_TO_EDITOR', { testRun: true })).toBe('EDITOR');
+    expect(nextScreen('WON', 'LOAD_LEVEL', { testRun: false })).toBe('LOADING');
+    expect(nextScreen('WON', 'LOAD_LEVEL', { testRun: true })).toBe('LOADING');
+  });
+});
+
+describe('ScreenMachine', () => {
+  const recording = (initial: Screen = 'INTRO', testRun = false) => {
+    const log: string[] = [];
+    const enter = Object.fromEntries(SCREENS.map(s => [s, (from: Screen) => log.push(`enter ${s} from ${from}`)]));
+    const exit = Object.fromEntries(SCREENS.map(s => [s, (to: Screen) => log.push(`exit ${s} to ${to}`)]));
+    const machine = new ScreenMachine({ enter, exit, onChange: s => log.push(`change ${s}`) }, () => ({ testRun }), initial);
+    return { machine, log };
+  };
+
+  it('runs the exit action, then the entry action, then onChange', () => {
+    const { machine, log } = recording('START');
+    expect(machine.send('START')).toBe(true);
+    expect(machine.screen).toBe('PLAYING');
+    expect(log).toEqual(['exit START to PLAYING', 'enter PLAYING from START', 'change PLAYING']);
+  });
+
+  it('refuses quietly and changes nothing', () => {
+    const { machine, log } = recording('INTRO');
+    expect(machine.can('PAUSE')).toBe(false);
+    expect(machine.send('PAUSE')).toBe(false);
+    expect(machine.screen).toBe('INTRO');
+    expect(log).toEqual([]);
+  });
+
+  it.each(['INTRO', 'WON', 'LOST'] as Screen[])('closes a replay back to %s, where it was opened', (opener) => {
+    const { machine } = recording(opener);
+    machine.send('WATCH_REPLAY');
+    expect(machine.screen).toBe('REPLAY');
+    expect(machine.send('CLOSE_REPLAY')).toBe(true);
+    expect(machine.screen).toBe(opener);
+  });
+
+  it('asks the context each time', () => {
+    let testRun = false;
+    const machine = new ScreenMachine({}, () => ({ testRun }), 'WON');
+    expect(machine.can('BACK_TO_EDITOR')).toBe(false);
+    testRun = true;
+    expect(machine.can('BACK_TO_EDITOR')).toBe(true);
+    expect(machine.send('BACK_TO_EDITOR')).toBe(true);
+    expect(machine.screen).toBe('EDITOR');
+  });
+
+  it('plays a level through from the intro', () => {
+    const { machine } = recording();
+    const events: ScreenEvent[] = ['CHOOSE_COMPANION', 'LOAD_LEVEL', 'LEVEL_READY', 'START', 'PAUSE', 'RESUME', 'WIN', 'FINISH_RUN', 'QUIT'];
+    events.forEach(e => expect(machine.send(e)).toBe(true));
+    expect(machine.screen).toBe('INTRO');
+  });
+});
@@ -0,0 +1,118 @@
+// --- Screen Flow ---
+// Which screen the game is on, and every way it can move to another. A change of screen is
+// an event sent to the machine; anything the table below doesn't allow from the current
+// screen is refused, so a level can't start from the intro or be won while paused. Refusal
+// is quiet: Esc or a lost focus on a screen that can't pause is normal. Entry and exit
+// actions (starting audio, building levels, letting go of input) are supplied by whoever
+// owns the machine and run on every change.
+
+export type Screen =
+  | 'INTRO'
+  | 'SELECT_DOG'
+  | 'LEVEL_SELECT'
+  | 'LOADING' // Level built, flavor text on its way
+  | 'START'
+  | 'PLAYING'
+  | 'PAUSED'
+  | 'WON'
+  | 'LOST'
+  | 'COMPLETED'
+  | 'REPLAY'
+  | 'EDITOR'
+  | 'ONLINE';
+
+export type ScreenEvent =
+  | 'CHOOSE_COMPANION'
+  | 'CHOOSE_LEVEL'
+  | 'LOAD_LEVEL'
+  | 'LEVEL_READY'
+  | 'START'
+  | 'RETRY'
+  | 'PAUSE'
+  | 'RESUME'
+  | 'WIN'
+  | 'LOSE'
+  | 'FINISH_RUN'
+  | 'WATCH_REPLAY'
+  | 'CLOSE_REPLAY'
+  | 'OPEN_EDITOR'
+  | 'BACK_TO_EDITOR'
+  | 'GO_ONLINE'
+  | 'QUIT';
+
+// What the guards need to know about the game outside the machine
+export interface FlowContext {
+  testRun: boolean; // Playing a level from the editor
+}
+
+interface Transition {
+  from: Screen[];
+  to: Screen | 'BACK'; // BACK returns to wherever a replay was opened from
+  guard?: (context: FlowContext) => boolean;
+}
+
+export const TRANSITIONS: Record<ScreenEvent, Transition> = {
+  CHOOSE_COMPANION: { from: ['INTRO', 'PAUSED'], to: 'SELECT_DOG' },
+  CHOOSE_LEVEL: { from: ['SELECT_DOG'], to: 'LEVEL_SELECT' },
+  LOAD_LEVEL: { from: ['SELECT_DOG', 'LEVEL_SELECT', 'WON', 'EDITOR'], to: 'LOADING' },
+  LEVEL_READY: { from: ['LOADING'], to: 'START' },
+  START: { from: ['START'], to: 'PLAYING' },
+  RETRY: { from: ['PAUSED', 'LOST'], to: 'START' }, // Same field, same seed
+  PAUSE: { from: ['PLAYING'], to: 'PAUSED' },
+  RESUME: { from: ['PAUSED'], to: 'PLAYING' },
+  WIN: { from: ['PLAYING'], to: 'WON' },
+  LOSE: { from: ['PLAYING'], to: 'LOST' },
+  FINISH_RUN: { from: ['WON'], to: 'COMPLETED', guard: c => !c.testRun },
+  WATCH_REPLAY: { from: ['INTRO', 'WON', 'LOST'], to: 'REPLAY' },
+  CLOSE_REPLAY: { from: ['REPLAY'], to: 'BACK' },
+  OPEN_EDITOR: { from: ['INTRO'], to: 'EDITOR' },
+  BACK_TO_EDITOR: { from: ['PAUSED', 'WON', 'LOST'], to: 'EDITOR', guard: c => c.testRun },
+  GO_ONLINE: { from: ['INTRO'], to: 'ONLINE' },
+  QUIT: { from: ['PAUSED', 'LOST', 'COMPLETED', 'EDITOR', 'ONLINE'], to: 'INTRO' },
+};
+
+// Where `event` leads from `screen`, or null if it isn't allowed. `back` is the screen a
+// replay returns to.
+export const nextScreen = (screen: Screen, event: ScreenEvent, context: FlowContext, back: Screen = 'INTRO'): Screen | null => {
+  const t = TRANSITIONS[event];
+  if (!t.from.includes(screen)) return null;
+  if (t.guard && !t.guard(context)) return null;
+  return t.to === 'BACK' ? back : t.to;
+};
+
+export interface ScreenActions {
+  enter?: Partial<Record<Screen, (from: Screen) => void>>;
+  exit?: Partial<Record<Screen, (to: Screen) => void>>;
+  onChange?: (screen: Screen) => void;
+}
+
+export class ScreenMachine {
+  screen: Screen;
+  private back: Screen = 'INTRO';
+  private actions: ScreenActions;
+  private context: () => FlowContext;
+
+  constructor(actions: ScreenActions, context: () => FlowContext, initial: Screen = 'INTRO') {
+    this.actions = actions;
+    this.context = context;
+    this.screen = initial;
+  }
+
+  can(event: ScreenEvent) {
+    return nextScreen(this.screen, event, this.context(), this.back) !== null;
+  }
+
+  // Moves to the next screen, running the old screen's exit action and the new one's entry
+  // action. Returns false, and changes nothing, if the event isn't allowed from here.
+  send(event: ScreenEvent): boolean {
+    const from = this.screen;
+    const to = nextScreen(from, event, this.context(), this.back);
+    if (to === null) return false;
+    if (to === 'REPLAY') this.back = from;
+    this.actions.exit?.[from]?.(to);
+    this.screen = to;
+    this.actions.enter?.[to]?.(from);
+    this.actions.onChange?.(to);
+    return true;
+  }
+}
@@ -0,0 +1,411 @@
+import {
+  DOG_SPEED,
+  SEPARATION_RADIUS,
+  FLOCKING_RADIUS,
+  BARK_RADIUS,
+  BARK_WAVE_SPEED,
+  BARK_PANIC,
+  BARK_PUSH,
+  BARK_COOLDOWN,
+  LIE_DOWN_CALM_RADIUS,
+  LIE_DOWN_CALM_RATE,
+  LIE_DOWN_FEAR_SCALE,
+  LIE_DOWN_COOLDOWN,
+} from '../constants';
+import { Dog, GameState, Obstacle, Pasture, Sheep } from '../types';
+import { breedOf, maxBreedSpeed } from './breeds';
+import { advanceEnvironment, environmentModifiers } from './environment';
+import { collideWithFences } from './fences';
+import { EMPTY_INPUT, InputSnapshot } from './input';
+import { isPointInPasture } from './pastures';
+import { nextRandom } from './random';
+import { scoreLevel } from './scoring';
+import { SpatialHash } from './spatialHash';
+import { FIXED_STEP_MS } from './timestep';
+import { stepWolves } from './wolves';
+import { vecAdd, vecSub, vecMult, vecMag, vecNorm, vecLimit, dist } from './vector';
+
+export interface WorldSize {
+  w: number;
+  h: number;
+}
+
+export interface StepResult {
+  levelComplete: boolean;
+  levelFailed: boolean; // Wolves took more sheep than the level allows
+  barked: boolean; // A bark went out this tick
+  layDown: boolean; // A dog went down this tick
+  howled: boolean; // A wolf came onto the field
+  sheepTaken: boolean; // A wolf caught a sheep
+  penned: number; // Sheep that made it into their pen this tick
+}
+
+const IDLE_RESULT: StepResult = { levelComplete: false, levelFailed: false, barked: false, layDown: false, howled: false, sheepTaken: false, penned: 0 };
+
+// Neighbour grids, rebuilt at the start of every tick. Sheep move during the tick but the
+// grid keeps their starting cells, so queries pad by the furthest a sheep can go in one step.
+const sheepGrid = new SpatialHash<Sheep>(FLOCKING_RADIUS);
+const obstacleGrid = new SpatialHash<Obstacle>(FLOCKING_RADIUS);
+const nearby: Sheep[] = [];
+const nearbyObstacles: Obstacle[] = [];
+
+// Voice commands, movement and collisions for one dog. Reports what the dog did this tick.
+const stepDog = (state: GameState, dog: Dog, input: InputSnapshot, world: WorldSize, maxObstacleRadius: number) => {
+  const { sheep, fences } = state;
+  const { w, h } = world;
+  const start = { ...dog.pos };
+
+  // 0. Voice Commands
+  dog.barkCooldown = Math.max(0, dog.barkCooldown - 1);
+  dog.lieDownCooldown = Math.max(0, dog.lieDownCooldown - 1);
+
+  let barked = false;
+  if (input.bark && dog.barkCooldown === 0 && !dog.isLyingDown) {
+    state.barkWaves.push({ pos: { ...dog.pos }, radius: 0 });
+    dog.barkCooldown = BARK_COOLDOWN;
+    barked = true;
+  }
+
+  let layDown = false;
+  if (input.lieDown && !dog.isLyingDown && dog.lieDownCooldown === 0) {
+    dog.isLyingDown = true;
+    layDown = true;
+  } else if (!input.lieDown && dog.isLyingDown) {
+    dog.isLyingDown = false;
+    dog.lieDownCooldown = LIE_DOWN_COOLDOWN;
+  }
+
+  // 1. Dog Movement (a lying dog stays put)
+  const inputVec = dog.isLyingDown ? { x: 0, y: 0 } : vecMult(vecLimit(input.move, 1), dog.speed);
+
+  dog.vel = vecAdd(vecMult(dog.vel, 0.8), vecMult(inputVec, 0.2));
+  dog.pos = vecAdd(dog.pos, dog.vel);
+
+  // Dog Looking Logic (Head Tracking)
+  const dogSpeed = vecMag(dog.vel);
+  let targetFacing = { x: 0, y: 0 };
+
+  if (dogSpeed > 0.5) {
+      // Look where moving
+      targetFacing = vecNorm(dog.vel);
+  } else {
+      // Idle: Look at Flock Center of Mass
+      let flockCenter = { x: 0, y: 0 };
+      let count = 0;
+      sheep.forEach(s => {
+          if (s.state !== 'SECURE') {
+              flockCenter = vecAdd(flockCenter, s.pos);
+              count++;
+          }
+      });
+
+      if (count > 0) {
+          flockCenter = vecMult(flockCenter, 1/count);
+          targetFacing = vecNorm(vecSub(flockCenter, dog.pos));
+      } else {
+          targetFacing = dog.facingDir; // No sheep? Keep looking same way
+      }
+  }
+
+  // Smooth rotation (Lerp)
+  if (Math.abs(targetFacing.x) > 0.01 || Math.abs(targetFacing.y) > 0.01) {
+      dog.facingDir.x += (targetFacing.x - dog.facingDir.x) * 0.1;
+      dog.facingDir.y += (targetFacing.y - dog.facingDir.y) * 0.1;
+      dog.facingDir = vecNorm(dog.facingDir);
+  }
+
+  // Dog Obstacle Collision
+  nearbyObstacles.length = 0;
+  obstacleGrid.query(dog.pos, dog.radius + maxObstacleRadius, nearbyObstacles).forEach(obs => {
+      const d = dist(dog.pos, obs.pos);
+      const minDist = dog.radius + obs.radius;
+      if (d < minDist) {
+          const pushDir = vecNorm(vecSub(dog.pos, obs.pos));
+          const push = vecMult(pushDir, minDist - d);
+          dog.pos = vecAdd(dog.pos, push);
+      }
+  });
+
+  collideWithFences(dog, fences);
+
+  dog.pos.x = Math.max(dog.radius, Math.min(w - dog.radius, dog.pos.x));
+  dog.pos.y = Math.max(dog.radius, Math.min(h - dog.radius, dog.pos.y));
+
+  state.stats.dogDistance += dist(start, dog.pos);
+
+  return { barked, layDown, isFast: dogSpeed > DOG_SPEED * 0.8 };
+};
+
+// Moves one dog a tick ahead without touching the rest of the field. Online clients use it
+// to predict their own dog between server snapshots.
+export const predictDog = (state: GameState, dogIndex: number, input: InputSnapshot, world: WorldSize) => {
+  obstacleGrid.rebuild(state.obstacles);
+  const maxObstacleRadius = state.obstacles.reduce((max, o) => Math.max(max, o.radius), 0);
+  stepDog(state, state.dogs[dogIndex], input, world, maxObstacleRadius);
+};
+
+// --- Physics Engine ---
+// Advances the simulation by exactly one fixed tick. Mutates `state` in place. `inputs`
+// holds one snapshot per dog; a dog without one stands still.
+export const stepSimulation = (
+  state: GameState,
+  pastures: Pasture[],
+  world: WorldSize,
+  inputs: InputSnapshot[]
+): StepResult => {
+  if (!state.isPlaying) return IDLE_RESULT;
+
+  const { dogs, sheep, wolves, obstacles, fences } = state;
+  const { w, h } = world;
+  const random = () => nextRandom(state.rng);
+
+  const dt = FIXED_STEP_MS / 1000;
+
+  sheepGrid.rebuild(sheep);
+  obstacleGrid.rebuild(obstacles);
+  const maxObstacleRadius = obstacles.reduce((max, o) => Math.max(max, o.radius), 0);
+  const neighbourSlack = maxBreedSpeed();
+  const weather = environmentModifiers(state.environment, state.timeElapsed);
+  // Lambs and the like need to find the animal they follow
+  const byId = sheep.some(s => s.followId) ? new Map(sheep.map(s => [s.id, s])) : null;
+
+  const moves = dogs.map((dog, i) => stepDog(state, dog, inputs[i] ?? EMPTY_INPUT, world, maxObstacleRadius));
+  const barked = moves.some(m => m.barked);
+  const layDown = moves.some(m => m.layDown);
+  const anyDogFast = moves.some(m => m.isFast);
+
+  // Bark waves: panic and shove every loose sheep the wavefront sweeps over
+  state.barkWaves.forEach(wave => {
+    const inner = wave.radius;
+    wave.radius += BARK_WAVE_SPEED;
+    nearby.length = 0;
+    sheepGrid.query(wave.pos, wave.radius, nearby).forEach(s => {
+      if (s.state === 'SECURE') return;
+      const d = dist(s.pos, wave.pos);
+      if (d >= inner && d < wave.radius) {
+        s.panicLevel = Math.min(1, s.panicLevel + BARK_PANIC * breedOf(s).skittishness);
+        s.vel = vecAdd(s.vel, vecMult(vecNorm(vecSub(s.pos, wave.pos)), BARK_PUSH));
+      }
+    });
+  });
+  state.barkWaves = state.barkWaves.filter(wave => wave.radius < BARK_RADIUS);
+
+  // 2. Sheep Logic
+  let allCorrect = true;
+  let penned = 0;
+
+  sheep.forEach(s => {
+    const breed = breedOf(s);
+
+    // Check if secure in pasture
+    // Hysteresis: a sheep has to be well inside to count, and stays counted near the fence
+    const penMargin = s.state === 'SECURE' ? 5 : 15;
+    const inCorrectPasture = pastures.some(p => p.type === s.type && isPointInPasture(s.pos, p, penMargin));
+
+    if (inCorrectPasture) {
+        if (s.state !== 'SECURE') penned++;
+        s.state = 'SECURE';
+        s.panicLevel = Math.max(0, s.panicLevel - 0.05);
+    } else {
+        allCorrect = false;
+        // If it was SECURE but drifted out, force state reset so it can move back
+        if (s.state === 'SECURE') {
+            s.state = 'GRAZING';
+            state.stats.escapes++;
+        }
+    }
+
+    if (s.state === 'SECURE') {
+        s.vel = vecMult(s.vel, 0.85);
+        let settleSep = {x: 0, y: 0};
+        nearby.length = 0;
+        sheepGrid.query(s.pos, SEPARATION_RADIUS + neighbourSlack, nearby).forEach(other => {
+            if (s !== other && other.state === 'SECURE') {
+                const d = dist(s.pos, other.pos);
+                if (d < SEPARATION_RADIUS) {
+                    settleSep = vecAdd(settleSep, vecMult(vecNorm(vecSub(s.pos, other.pos)), 0.5));
+                }
+            }
+        });
+        s.vel = vecAdd(s.vel, settleSep);
+        s.pos = vecAdd(s.pos, s.vel);
+        collideWithFences(s, fences);
+        return;
+    }
+
+    // Forces
+    let force = { x: 0, y: 0 };
+    let separation = { x: 0, y: 0 };
+    let alignment = { x: 0, y: 0 };
+    let cohesion = { x: 0, y: 0 };
+    let flockCount = 0;
+
+    nearby.length = 0;
+    sheepGrid.query(s.pos, FLOCKING_RADIUS + neighbourSlack, nearby).forEach(other => {
+      if (s.id !== other.id && other.state !== 'SECURE') {
+        const d = dist(s.pos, other.pos);
+        if (d < SEPARATION_RADIUS) {
+          const diff = vecNorm(vecSub(s.pos, other.pos));
+          separation = vecAdd(separation, vecMult(diff, 1.0 / d));
+        }
+        if (d < FLOCKING_RADIUS) {
+          alignment = vecAdd(alignment, other.vel);
+          cohesion = vecAdd(cohesion, other.pos);
+          flockCount++;
+        }
+      }
+    });
+
+    if (flockCount > 0) {
+        alignment = vecMult(vecNorm(alignment), breed.alignmentWeight);
+        cohesion = vecMult(cohesion, 1.0 / flockCount);
+        cohesion = vecSub(cohesion, s.pos);
+        cohesion = vecMult(vecNorm(cohesion), breed.cohesionWeight);
+    }
+
+    if (vecMag(separation) > 0) {
+        separation = vecMult(vecNorm(separation), 2.0);
+    }
+
+    // Every dog in sight counts: the sheep runs from all of them at once, and a running dog
+    // anywhere keeps the flock on edge
+    let fear = { x: 0, y: 0 };
+    let fleeSum = { x: 0, y: 0 };
+    let threatened = false;
+    let panicMult = 1.0;
+
+    dogs.forEach((dog, i) => {
+      const dDog = dist(s.pos, dog.pos);
+      let perception = (dog.isLyingDown ? breed.perception * LIE_DOWN_FEAR_SCALE : breed.perception) * weather.perceptionScale;
+
+      if (dog.isLyingDown && dDog < LIE_DOWN_CALM_RADIUS) {
+          s.panicLevel = Math.max(0, s.panicLevel - LIE_DOWN_CALM_RATE);
+      }
+
+      if (moves[i].isFast) {
+          perception *= 1.2;
+          if (dDog < perception) {
+            s.panicLevel = Math.min(1, s.panicLevel + 0.1 * breed.skittishness);
+            panicMult = 1.5;
+          }
+      }
+
+      if (dDog < perception) {
+        fleeSum = vecAdd(fleeSum, vecNorm(vecSub(s.pos, dog.pos)));
+        threatened = true;
+      }
+    });
+
+    if (!anyDogFast) s.panicLevel = Math.max(0, s.panicLevel - 0.02);
+    s.panicLevel = Math.max(s.panicLevel, weather.panicFloor);
+
+    if (threatened) {
+      const fleeDir = vecNorm(fleeSum);
+      const panicNoise = s.panicLevel > 0.5 ? { x: (random()-0.5), y: (random()-0.5) } : {x:0, y:0};
+      const finalDir = vecNorm(vecAdd(fleeDir, vecMult(panicNoise, 0.5)));
+      fear = vecMult(finalDir, 2.5 * panicMult);
+      s.state = 'FLEEING';
+    } else {
+      s.state = 'GRAZING';
+    }
+
+    // A wolf in sight is as frightening as a running dog, whatever the dogs are doing
+    wolves.forEach(wolf => {
+      if (wolf.state === 'AWAY') return;
+      const dWolf = dist(s.pos, wolf.pos);
+      if (dWolf >= breed.perception * weather.perceptionScale) return;
+      fear = vecAdd(fear, vecMult(vecNorm(vecSub(s.pos, wolf.pos)), 2.5 * 1.5));
+      s.panicLevel = Math.min(1, s.panicLevel + 0.1 * breed.skittishness);
+      s.state = 'FLEEING';
+    });
+
+    let avoidObs = { x: 0, y: 0 };
+    nearbyObstacles.length = 0;
+    obstacleGrid.query(s.pos, maxObstacleRadius + s.radius + 15, nearbyObstacles).forEach(obs => {
+        const d = dist(s.pos, obs.pos);
+        const safeDist = obs.radius + s.radius + 15;
+        if (d < safeDist) {
+            const push = vecNorm(vecSub(s.pos, obs.pos));
+            avoidObs = vecAdd(avoidObs, vecMult(push, 3.0));
+        }
+    });
+
+    let wall = { x: 0, y: 0 };
+    const margin = 35;
+    if (s.pos.x < margin) wall.x += 1;
+    if (s.pos.x > w - margin) wall.x -= 1;
+    if (s.pos.y < margin) wall.y += 1;
+    if (s.pos.y > h - margin) wall.y -= 1;
+    if (wall.x !== 0 || wall.y !== 0) wall = vecMult(vecNorm(wall), 4.0);
+
+    // Followers keep to their leader, hurrying when they've fallen behind
+    let follow = { x: 0, y: 0 };
+    let hurrying = false;
+    const leader = s.followId ? byId?.get(s.followId) : undefined;
+    if (leader) {
+        const toLeader = vecSub(leader.pos, s.pos);
+        const dLeader = vecMag(toLeader);
+        if (dLeader > s.radius + leader.radius + 6) {
+            follow = vecMult(vecNorm(toLeader), (breed.followWeight ?? 0) * Math.min(1, dLeader / 60));
+        }
+        hurrying = dLeader > FLOCKING_RADIUS;
+    }
+
+    force = vecAdd(force, vecMult(separation, breed.separationWeight));
+    force = vecAdd(force, alignment);
+    force = vecAdd(force, cohesion);
+    force = vecAdd(force, fear);
+    force = vecAdd(force, avoidObs);
+    force = vecAdd(force, wall);
+    force = vecAdd(force, follow);
+
+    if (s.state === 'GRAZING') {
+       const wander = {
+         x: (random() - 0.5) * breed.wanderStrength,
+         y: (random() - 0.5) * breed.wanderStrength
+       };
+       force = vecAdd(force, wander);
+    }
+
+    s.vel = vecAdd(s.vel, vecMult(force, 0.15));
+    const maxSpeed = s.state === 'FLEEING' ? breed.maxSpeed * (1 + s.panicLevel * 0.5) : hurrying ? breed.maxSpeed : breed.wanderSpeed;
+    s.vel = vecLimit(s.vel, maxSpeed);
+    // Wind carries loose sheep along on top of whatever they're doing themselves
+    s.pos = vecAdd(vecAdd(s.pos, s.vel), weather.drift);
+    collideWithFences(s, fences);
+
+    s.pos.x = Math.max(s.radius, Math.min(w - s.radius, s.pos.x));
+    s.pos.y = Math.max(s.radius, Math.min(h - s.radius, s.pos.y));
+  });
+
+  // 3. Wolves
+  const { appeared, taken } = stepWolves(state, world, obstacles, random);
+  if (taken.length > 0) {
+    const lost = new Set(taken);
+    state.sheep = sheep.filter(s => !lost.has(s));
+    state.stats.sheepLost += lost.size;
+  }
+
+  // 4. Scoring
+  state.stats.panicSeconds += sheep.reduce((sum, s) => sum + s.panicLevel, 0) * dt;
+  state.timeElapsed += dt;
+  advanceEnvironment(state.environment, dt);
+  state.score = scoreLevel(state).total;
+
+  const events = { barked, layDown, howled: appeared, sheepTaken: taken.length > 0, penned };
+
+  if (state.stats.sheepLost > state.lossLimit || state.sheep.length === 0) {
+    state.isPlaying = false;
+    return { levelComplete: false, levelFailed: true, ...events };
+  }
+
+  // Sheep taken this tick no longer need penning
+  const allPenned = allCorrect || state.sheep.every(s => s.state === 'SECURE');
+  if (allPenned && !state.isLevelComplete) {
+    state.isLevelComplete = true;
+    state.isPlaying = false;
+    return { levelComplete: true, levelFailed: false, ...events };
+  }
+
+  return { levelComplete: false, levelFailed: false, ...events };
+};
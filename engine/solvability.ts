@@ -0,0 +1,66 @@
+import { DOG_PALETTES } from '../constants';
+import { GameState, LevelConfig } from '../types';
+import { Autopilot, DogController } from './autopilot';
+import { createDog } from './dogs';
+import { quantizeInput } from './replay';
+import { buildLevelState, emptyState, levelWorld } from './level';
+import { layoutPastures } from './pastures';
+import { stepSimulation, WorldSize } from './simulation';
+
+// --- Solvability Check ---
+// Lets the autopilot play each level headlessly to prove the layout can actually be
+// finished. A level passes if the dog pens the whole flock inside the time budget.
+
+export interface SolveResult {
+  level: number;
+  name?: string;
+  seed: number;
+  world: WorldSize;
+  solved: boolean;
+  failed: boolean; // Wolves took too many
+  time: number; // Seconds played
+  budget: number;
+  penned: number;
+  sheep: number;
+}
+
+// Generous by default: three times the level's par
+export const solveBudget = (state: GameState) => state.parTime * 3;
+
+export const solveLevel = (
+  config: LevelConfig,
+  level: number,
+  seed: number,
+  world: WorldSize = levelWorld(config),
+  controller: DogController = new Autopilot(),
+  budget?: number
+): SolveResult => {
+  const pastures = layoutPastures(config.pastures, world);
+  const state = buildLevelState(emptyState([createDog(DOG_PALETTES.BLACK)]), config, level, seed, world, pastures);
+  const limit = budget ?? solveBudget(state);
+  state.isPlaying = true;
+
+  let failed = false;
+  while (state.isPlaying && state.timeElapsed < limit) {
+    // Quantized like a recorded run, so a passing seed replays exactly
+    const input = quantizeInput(controller.read(state, pastures, world));
+    failed = stepSimulation(state, pastures, world, [input]).levelFailed;
+  }
+
+  return {
+    level,
+    name: config.name,
+    seed,
+    world,
+    solved: state.isLevelComplete,
+    failed,
+    time: state.timeElapsed,
+    budget: limit,
+    penned: state.sheep.filter(s => s.state === 'SECURE').length,
+    sheep: state.sheep.length + state.stats.sheepLost,
+  };
+};
+
+// Every level at every seed, on its own field
+export const solveAll = (levels: LevelConfig[], seeds: number[]): SolveResult[] =>
+  levels.flatMap((config, i) => seeds.map(seed => solveLevel(config, i + 1, seed)));
@@ -0,0 +1,49 @@
+import { Vector2 } from '../types';
+
+// --- Spatial Hash ---
+// Uniform grid bucketing things by position so neighbour lookups only visit nearby cells.
+// Rebuilt from scratch each tick; queries return candidates, callers still check distance.
+
+const cellKey = (cx: number, cy: number) => (cx + 32768) * 65536 + (cy + 32768);
+
+export class SpatialHash<T extends { pos: Vector2 }> {
+  cellSize: number;
+  cells = new Map<number, T[]>();
+
+  constructor(cellSize: number) {
+    this.cellSize = cellSize;
+  }
+
+  // Empty the buckets but keep their arrays around for the next rebuild
+  clear() {
+    this.cells.forEach(bucket => { bucket.length = 0; });
+  }
+
+  insert(item: T) {
+    const key = cellKey(Math.floor(item.pos.x / this.cellSize), Math.floor(item.pos.y / this.cellSize));
+    const bucket = this.cells.get(key);
+    if (bucket) bucket.push(item);
+    else this.cells.set(key, [item]);
+  }
+
+  rebuild(items: readonly T[]) {
+    this.clear();
+    items.forEach(item => this.insert(item));
+  }
+
+  // Everything in the cells overlapping the circle at `pos`. Appends to `out` so hot loops
+  // can reuse one array.
+  query(pos: Vector2, radius: number, out: T[] = []): T[] {
+    const minX = Math.floor((pos.x - radius) / this.cellSize);
+    const maxX = Math.floor((pos.x + radius) / this.cellSize);
+    const minY = Math.floor((pos.y - radius) / this.cellSize);
+    const maxY = Math.floor((pos.y + radius) / this.cellSize);
+    for (let cx = minX; cx <= maxX; cx++) {
+      for (let cy = minY; cy <= maxY; cy++) {
+        const bucket = this.cells.get(cellKey(cx, cy));
+        if (bucket) for (let i = 0; i < bucket.length; i++) out.push(bucket[i]);
+      }
+    }
+    return out;
+  }
+}
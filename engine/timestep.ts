@@ -0,0 +1,32 @@
+// Simulation runs at a fixed 60 ticks per second regardless of display refresh rate
+export const FIXED_STEP_MS = 1000 / 60;
+
+// Cap on a single frame's elapsed time so a backgrounded tab doesn't fast-forward the flock
+const MAX_FRAME_MS = 250;
+
+export class FixedTimestep {
+  accumulator: number = 0;
+  lastTime: number | null = null;
+
+  reset() {
+    this.accumulator = 0;
+    this.lastTime = null;
+  }
+
+  // Feeds a requestAnimationFrame timestamp and runs `step` once per whole tick owed.
+  // `timeScale` speeds up or slows down simulated time (used by replay playback).
+  // Returns the number of ticks that were run this frame.
+  advance(time: number, step: () => void, timeScale: number = 1): number {
+    const frameMs = this.lastTime === null ? 0 : Math.min(MAX_FRAME_MS, time - this.lastTime);
+    this.lastTime = time;
+    this.accumulator += Math.max(0, frameMs) * timeScale;
+
+    let ticks = 0;
+    while (this.accumulator >= FIXED_STEP_MS) {
+      step();
+      this.accumulator -= FIXED_STEP_MS;
+      ticks++;
+    }
+    return ticks;
+  }
+}
@@ -0,0 +1,15 @@
+// --- Untrusted Data ---
+// Type guards for JSON from files, the network, models and storage. Everything parsed from
+// outside comes in as `unknown` and is narrowed with these before it's read.
+
+export type JsonObject = { [key: string]: unknown };
+
+export const isObject = (v: unknown): v is JsonObject => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+export const isNum = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+
+export const isFraction = (v: unknown): v is number => isNum(v) && v >= 0 && v <= 1;
+
+export const isString = (v: unknown): v is string => typeof v === 'string';
+
+export const isBool = (v: unknown): v is boolean => typeof v === 'boolean';
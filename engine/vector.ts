@@ -0,0 +1,16 @@
+import { Vector2 } from '../types';
+
+// --- Vector Math Helpers ---
+export const vecAdd = (v1: Vector2, v2: Vector2) => ({ x: v1.x + v2.x, y: v1.y + v2.y });
+export const vecSub = (v1: Vector2, v2: Vector2) => ({ x: v1.x - v2.x, y: v1.y - v2.y });
+export const vecMult = (v: Vector2, s: number) => ({ x: v.x * s, y: v.y * s });
+export const vecMag = (v: Vector2) => Math.sqrt(v.x * v.x + v.y * v.y);
+export const vecNorm = (v: Vector2) => {
+  const m = vecMag(v);
+  return m === 0 ? { x: 0, y: 0 } : { x: v.x / m, y: v.y / m };
+};
+export const vecLimit = (v: Vector2, max: number) => {
+  const m = vecMag(v);
+  return m > max ? vecMult(vecNorm(v), max) : v;
+};
+export const dist = (v1: Vector2, v2: Vector2) => Math.sqrt(Math.pow(v2.x - v1.x, 2) + Math.pow(v2.y - v1.y, 2));
@@ -0,0 +1,146 @@
+import {
+  WOLF_DELAY,
+  WOLF_DOG_FEAR_RADIUS,
+  WOLF_FLEE_SPEED,
+  WOLF_HUNT_SPEED,
+  WOLF_POUNCE_RADIUS,
+  WOLF_RADIUS,
+  WOLF_RETURN_TICKS,
+  WOLF_STAGGER_TICKS,
+  WOLF_STALK_SPEED,
+} from '../constants';
+import { GameState, Obstacle, Sheep, Vector2, WolfPack, Wolf } from '../types';
+import { nearestDog } from './dogs';
+import { collideWithFences } from './fences';
+import { WorldSize } from './simulation';
+import { vecAdd, vecSub, vecMult, vecNorm, vecLimit, dist } from './vector';
+
+// --- Wolves ---
+// A wolf slinks in from the edge of the field, creeps up on whichever loose sheep has
+// strayed furthest from the rest and rushes it once close. The dogs are the only defence:
+// get one near and the wolf bolts back off the field for a while.
+
+export const createWolves = (pack: WolfPack | undefined): Wolf[] =>
+  Array.from({ length: pack?.count ?? 0 }, (_, i) => ({
+    id: `wolf_${i}`,
+    pos: { x: -WOLF_RADIUS, y: -WOLF_RADIUS },
+    vel: { x: 0, y: 0 },
+    radius: WOLF_RADIUS,
+    state: 'AWAY',
+    timer: Math.round((pack?.delay ?? WOLF_DELAY) * 60) + i * WOLF_STAGGER_TICKS,
+    wobbleOffset: i * 37,
+  }));
+
+// Somewhere along a random edge of the field
+const edgePoint = (world: WorldSize, random: () => number): Vector2 => {
+  const side = Math.floor(random() * 4);
+  const t = random();
+  const r = WOLF_RADIUS;
+  if (side === 0) return { x: t * world.w, y: r };
+  if (side === 1) return { x: world.w - r, y: t * world.h };
+  if (side === 2) return { x: t * world.w, y: world.h - r };
+  return { x: r, y: t * world.h };
+};
+
+// Straight out through the closest edge
+const exitDirection = (pos: Vector2, world: WorldSize): Vector2 => {
+  const gaps = [pos.y, world.w - pos.x, world.h - pos.y, pos.x];
+  const nearest = gaps.indexOf(Math.min(...gaps));
+  return [{ x: 0, y: -1 }, { x: 1, y: 0 }, { x: 0, y: 1 }, { x: -1, y: 0 }][nearest];
+};
+
+const isAtEdge = (pos: Vector2, world: WorldSize) =>
+  pos.x <= WOLF_RADIUS + 1 || pos.y <= WOLF_RADIUS + 1 || pos.x >= world.w - WOLF_RADIUS - 1 || pos.y >= world.h - WOLF_RADIUS - 1;
+
+// The loose sheep furthest from the middle of the loose flock
+const strayestSheep = (sheep: Sheep[]): Sheep | undefined => {
+  const loose = sheep.filter(s => s.state !== 'SECURE');
+  if (loose.length === 0) return undefined;
+  const center = vecMult(loose.reduce((sum, s) => vecAdd(sum, s.pos), { x: 0, y: 0 }), 1 / loose.length);
+  return loose.reduce((best, s) => (dist(s.pos, center) > dist(best.pos, center) ? s : best));
+};
+
+export interface WolfResult {
+  appeared: boolean; // A wolf came onto the field this tick
+  taken: Sheep[]; // Sheep caught this tick
+}
+
+// Advances every wolf by one tick. Caught sheep are returned rather than removed so the
+// caller can drop them from the flock in one go.
+export const stepWolves = (
+  state: GameState,
+  world: WorldSize,
+  obstacles: Obstacle[],
+  random: () => number
+): WolfResult => {
+  const { dogs, fences } = state;
+  const result: WolfResult = { appeared: false, taken: [] };
+
+  state.wolves.forEach(wolf => {
+    if (wolf.state === 'AWAY') {
+      if (--wolf.timer > 0) return;
+      wolf.pos = edgePoint(world, random);
+      wolf.vel = { x: 0, y: 0 };
+      wolf.state = 'STALKING';
+      wolf.targetId = undefined;
+      result.appeared = true;
+      return;
+    }
+
+    const dog = nearestDog(dogs, wolf.pos);
+    if (wolf.state !== 'FLEEING' && dist(wolf.pos, dog.pos) < WOLF_DOG_FEAR_RADIUS) {
+      wolf.state = 'FLEEING';
+      wolf.targetId = undefined;
+    }
+
+    // Stick with a rush once it's started; otherwise keep picking the worst straggler
+    let target = wolf.state === 'HUNTING' ? state.sheep.find(s => s.id === wolf.targetId && s.state !== 'SECURE') : undefined;
+    if (wolf.state !== 'FLEEING' && !target) {
+      target = strayestSheep(state.sheep);
+      wolf.state = 'STALKING';
+      // Nothing left to hunt: slink off
+      if (!target) wolf.state = 'FLEEING';
+    }
+    wolf.targetId = target?.id;
+
+    let desired: Vector2;
+    if (wolf.state === 'FLEEING') {
+      const away = vecNorm(vecSub(wolf.pos, dog.pos));
+      desired = vecMult(vecNorm(vecAdd(away, exitDirection(wolf.pos, world))), WOLF_FLEE_SPEED);
+    } else {
+      const d = dist(wolf.pos, target!.pos);
+      if (d < WOLF_POUNCE_RADIUS) wolf.state = 'HUNTING';
+      desired = vecMult(vecNorm(vecSub(target!.pos, wolf.pos)), wolf.state === 'HUNTING' ? WOLF_HUNT_SPEED : WOLF_STALK_SPEED);
+    }
+
+    wolf.vel = vecLimit(vecAdd(vecMult(wolf.vel, 0.85), vecMult(desired, 0.15)), WOLF_FLEE_SPEED);
+    wolf.pos = vecAdd(wolf.pos, wolf.vel);
+
+    obstacles.forEach(obs => {
+      const d = dist(wolf.pos, obs.pos);
+      const minDist = wolf.radius + obs.radius;
+      if (d < minDist) wolf.pos = vecAdd(wolf.pos, vecMult(vecNorm(vecSub(wolf.pos, obs.pos)), minDist - d));
+    });
+    collideWithFences(wolf, fences);
+
+    wolf.pos.x = Math.max(wolf.radius, Math.min(world.w - wolf.radius, wolf.pos.x));
+    wolf.pos.y = Math.max(wolf.radius, Math.min(world.h - wolf.radius, wolf.pos.y));
+
+    if (wolf.state === 'FLEEING') {
+      if (isAtEdge(wolf.pos, world)) {
+        wolf.state = 'AWAY';
+        wolf.timer = WOLF_RETURN_TICKS;
+      }
+      return;
+    }
+
+    if (target && wolf.state === 'HUNTING' && dist(wolf.pos, target.pos) < wolf.radius + target.radius) {
+      result.taken.push(target);
+      // Carries its catch off the field
+      wolf.state = 'FLEEING';
+      wolf.targetId = undefined;
+    }
+  });
+
+  return result;
+};
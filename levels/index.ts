@@ -0,0 +1,14 @@
+import { LevelConfig } from '../types';
+import { parseLevelConfig } from '../engine/level';
+
+// Every levels/*.json file is a pasture. Files are played in name order, so
+// prefix them with a number (level-01.json, level-02.json, ...)
+const files = import.meta.glob<unknown>('./*.json', { eager: true, import: 'default' });
+
+export const LEVELS: LevelConfig[] = Object.keys(files)
+  .sort()
+  .map(path => parseLevelConfig(files[path], path));
+
+export const MAX_LEVELS = LEVELS.length;
+
+export const getLevelConfig = (level: number): LevelConfig => LEVELS[Math.min(level, MAX_LEVELS) - 1];
@@ -0,0 +1,45 @@
+// Headless solvability check: lets the autopilot play every level in levels/ at a couple
+// of seeds, prints a table and exits non-zero if any run isn't finished. Runs the
+// TypeScript sources through Vite so import.meta.glob works.
+import { createServer } from 'vite';
+
+const SEEDS = [1, 2];
+
+const server = await createServer({
+  configFile: false,
+  logLevel: 'error',
+  server: { middlewareMode: true, hmr: false },
+  appType: 'custom',
+});
+
+let exitCode = 0;
+try {
+  const { LEVELS } = await server.ssrLoadModule('/levels/index.ts');
+  const { solveAll } = await server.ssrLoadModule('/engine/solvability.ts');
+
+  const results = solveAll(LEVELS, SEEDS);
+  const pad = (text, width) => String(text).padEnd(width);
+  console.log(`${pad('Level', 24)}${pad('Seed', 6)}${pad('World', 11)}${pad('Penned', 9)}${pad('Time', 12)}Result`);
+  results.forEach(r => {
+    const outcome = r.solved ? 'ok' : r.failed ? 'wolves' : 'timeout';
+    console.log(
+      `${pad(`${r.level} ${r.name ?? ''}`, 24)}${pad(r.seed, 6)}${pad(`${r.world.w}x${r.world.h}`, 11)}` +
+        `${pad(`${r.penned}/${r.sheep}`, 9)}${pad(`${Math.round(r.time)}/${r.budget}s`, 12)}${outcome}`
+    );
+  });
+
+  // Every level has to be finished at every seed, not just one of them
+  const unsolved = results.filter(r => !r.solved);
+  console.log(`\n${results.length - unsolved.length}/${results.length} runs finished.`);
+  if (unsolved.length > 0) {
+    console.error(`Unsolved: ${unsolved.map(r => `level ${r.level} seed ${r.seed}`).join(', ')}`);
+    exitCode = 1;
+  }
+} catch (e) {
+  console.error('Level check failed to run', e);
+  exitCode = 1;
+} finally {
+  await server.close();
+}
+
+process.exit(exitCode);
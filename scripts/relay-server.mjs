@@ -0,0 +1,110 @@
+// Local relay for online play: holds the one authoritative simulation and streams it to every
+// connected browser. Listens on localhost only. Runs the TypeScript engine through Vite, the
+// same way check-levels does.
+import { createServer } from 'vite';
+import { WebSocketServer } from 'ws';
+
+const vite = await createServer({
+  configFile: false,
+  logLevel: 'error',
+  server: { middlewareMode: true, hmr: false },
+  appType: 'custom',
+});
+
+const { LEVELS } = await vite.ssrLoadModule('/levels/index.ts');
+const { Room } = await vite.ssrLoadModule('/engine/room.ts');
+const { NET_PORT, SNAPSHOT_INTERVAL, parseClientMessage } = await vite.ssrLoadModule('/engine/netcode.ts');
+const { FixedTimestep, FIXED_STEP_MS } = await vite.ssrLoadModule('/engine/timestep.ts');
+
+const port = Number(process.env.PORT) || NET_PORT;
+const room = new Room(LEVELS);
+const sockets = new Map(); // Player id -> socket
+
+const send = (socket, message) => {
+  if (socket.readyState === socket.OPEN) socket.send(JSON.stringify(message));
+};
+const broadcast = message => {
+  const text = JSON.stringify(message);
+  sockets.forEach(socket => {
+    if (socket.readyState === socket.OPEN) socket.send(text);
+  });
+};
+const broadcastLevel = () => {
+  broadcast({ type: 'level', level: room.level, config: room.levels[room.level - 1], state: room.state });
+  broadcast(room.roster());
+};
+
+const wss = new WebSocketServer({ host: '127.0.0.1', port });
+
+wss.on('connection', socket => {
+  let playerId = null;
+
+  socket.on('message', data => {
+    const message = parseClientMessage(String(data));
+    if (!message) return;
+
+    if (message.type === 'join') {
+      if (playerId) return;
+      const joined = room.join(message.name, message.palette);
+      if (typeof joined === 'string') {
+        send(socket, { type: 'error', message: joined });
+        socket.close();
+        return;
+      }
+      playerId = joined.id;
+      sockets.set(playerId, socket);
+      send(socket, { type: 'welcome', playerId });
+      // Someone arriving mid-level watches until the next one
+      if (room.state) send(socket, { type: 'level', level: room.level, config: room.levels[room.level - 1], state: room.state });
+      broadcast(room.roster());
+      console.log(`${joined.name} joined (${room.players.length} connected)`);
+      return;
+    }
+
+    if (!playerId) return;
+    if (message.type === 'start') {
+      const error = room.start(playerId, message.level);
+      if (error) send(socket, { type: 'error', message: error });
+      else broadcastLevel();
+    } else if (message.type === 'input') {
+      room.queueInput(playerId, message.seq, message.input);
+    }
+  });
+
+  socket.on('close', () => {
+    if (!playerId) return;
+    const name = room.players.find(p => p.id === playerId)?.name;
+    room.leave(playerId);
+    sockets.delete(playerId);
+    broadcast(room.roster());
+    console.log(`${name} left (${room.players.length} connected)`);
+  });
+});
+
+// Timers drift, so each wake-up runs however many fixed ticks are owed since the last
+const timestep = new FixedTimestep();
+const loop = setInterval(() => {
+  timestep.advance(performance.now(), () => {
+    const phase = room.phase;
+    if (!room.step()) return;
+    if (room.tick % SNAPSHOT_INTERVAL === 0 || room.phase !== phase) {
+      broadcast({ type: 'snapshot', snapshot: room.snapshot() });
+    }
+    if (room.phase !== phase) broadcast(room.roster());
+  });
+}, FIXED_STEP_MS / 2);
+
+wss.on('listening', () => console.log(`Herdlight relay listening on ws://localhost:${port}`));
+wss.on('error', error => {
+  console.error('Relay server failed', error);
+  process.exit(1);
+});
+
+const shutdown = async () => {
+  clearInterval(loop);
+  wss.close();
+  await vite.close();
+  process.exit(0);
+};
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
@@ -0,0 +1,104 @@
+import { GameState, SheepType } from '../types';
+
+// --- Accessibility ---
+// Flocks and their pastures are otherwise told apart by colour alone. Markings add a shape
+// per flock, drawn on every animal's back and patterned across its pasture; high contrast
+// swaps the soft palette for colours that stay distinct with any kind of colour blindness
+// (Okabe-Ito). Reduced motion stills the wobble and the grass, and game speed slows the
+// whole simulation down.
+
+export type MotionSetting = 'auto' | 'reduced' | 'full'; // auto follows the system preference
+
+export interface AccessibilitySettings {
+  markings: boolean;
+  highContrast: boolean;
+  motion: MotionSetting;
+  gameSpeed: number; // Simulation rate; 1 is normal
+}
+
+export const DEFAULT_ACCESSIBILITY: AccessibilitySettings = {
+  markings: false,
+  highContrast: false,
+  motion: 'auto',
+  gameSpeed: 1,
+};
+
+export const GAME_SPEEDS = [0.5, 0.75, 1];
+
+const motionQuery = typeof window !== 'undefined' && window.matchMedia ? window.matchMedia('(prefers-reduced-motion: reduce)') : null;
+
+export const reducedMotion = (settings: AccessibilitySettings) =>
+  settings.motion === 'reduced' || (settings.motion === 'auto' && !!motionQuery?.matches);
+
+// --- Markings ---
+export type Marking = 'ring' | 'cross' | 'triangle';
+
+export const FLOCK_MARKINGS: Record<SheepType, Marking> = {
+  [SheepType.WHITE]: 'ring',
+  [SheepType.BLACK]: 'cross',
+  [SheepType.GOAT]: 'triangle',
+};
+
+// Ink that stands out against each flock's fleece
+const MARKING_INK: Record<SheepType, string> = {
+  [SheepType.WHITE]: '#1f2937',
+  [SheepType.BLACK]: '#f9fafb',
+  [SheepType.GOAT]: '#1f2937',
+};
+
+// The flock's shape, centred on (x, y) and `size` across
+export const drawMarking = (ctx: CanvasRenderingContext2D, type: SheepType, x: number, y: number, size: number, ink = MARKING_INK[type]) => {
+  const r = size / 2;
+  ctx.strokeStyle = ink;
+  ctx.fillStyle = ink;
+  ctx.lineWidth = Math.max(1.5, size * 0.18);
+  ctx.lineCap = 'round';
+  ctx.beginPath();
+  switch (FLOCK_MARKINGS[type]) {
+    case 'ring':
+      ctx.arc(x, y, r * 0.75, 0, Math.PI * 2);
+      ctx.stroke();
+      break;
+    case 'cross':
+      ctx.moveTo(x - r * 0.7, y - r * 0.7);
+      ctx.lineTo(x + r * 0.7, y + r * 0.7);
+      ctx.moveTo(x + r * 0.7, y - r * 0.7);
+      ctx.lineTo(x - r * 0.7, y + r * 0.7);
+      ctx.stroke();
+      break;
+    case 'triangle':
+      ctx.moveTo(x, y - r);
+      ctx.lineTo(x + r * 0.9, y + r * 0.6);
+      ctx.lineTo(x - r * 0.9, y + r * 0.6);
+      ctx.closePath();
+      ctx.fill();
+      break;
+  }
+};
+
+// --- High Contrast ---
+export interface FlockPalette {
+  body: string;
+  head: string;
+  outline: string;
+  pasture: string;
+  border: string;
+}
+
+export const HIGH_CONTRAST_FLOCKS: Record<SheepType, FlockPalette> = {
+  [SheepType.WHITE]: { body: '#ffffff', head: '#d4d4d4', outline: '#000000', pasture: 'rgba(255, 255, 255, 0.6)', border: '#000000' },
+  [SheepType.BLACK]: { body: '#0a0a0a', head: '#404040', outline: '#ffffff', pasture: 'rgba(0, 114, 178, 0.35)', border: '#0072b2' },
+  [SheepType.GOAT]: { body: '#e69f00', head: '#9a6a00', outline: '#000000', pasture: 'rgba(230, 159, 0, 0.35)', border: '#d55e00' },
+};
+
+// --- Announcements ---
+// Short lines for the screen reader's live region
+export const securedAnnouncement = (game: GameState) => {
+  const secured = game.sheep.filter(s => s.state === 'SECURE').length;
+  return `${secured} of ${game.sheep.length} sheep secured`;
+};
+
+export const takenAnnouncement = (game: GameState) => {
+  const left = Math.max(0, game.lossLimit - game.stats.sheepLost);
+  return `A wolf took a sheep. ${left === 0 ? 'No more can be lost' : `${left} more can be lost`}`;
+};
@@ -0,0 +1,111 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { levelWorld, parseLevelConfig, scatteredCount } from '../engine/level';
+import { ObstacleDensity } from '../types';
+import { generateLevelLayout, getLevelFlavorText, ModelClient } from './aiService';
+
+// Stands in for a model: answers every prompt with `reply`
+const fakeClient = (reply: string | undefined): ModelClient => ({
+  name: 'fake',
+  complete: async () => reply,
+});
+
+const LEVEL = {
+  name: 'Two Pens',
+  sheepCount: 6,
+  blackSheepRatio: 0.5,
+  spawn: { x: 0.1, y: 0.7, w: 0.8, h: 0.2 },
+  pastures: [
+    { type: 'WHITE', bounds: { x: 0.03, y: 0.05, w: 0.2, h: 0.3 } },
+    { type: 'BLACK', bounds: { x: 0.77, y: 0.05, w: 0.2, h: 0.3 } },
+  ],
+  obstacles: [{ type: 'TREE', x: 0.5, y: 0.15 }],
+};
+
+describe('generateLevelLayout', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('accepts a valid level', async () => {
+    const { config, fixes } = await generateLevelLayout('two pens', fakeClient(JSON.stringify(LEVEL)));
+    expect(config.name).toBe('Two Pens');
+    expect(config.pastures).toHaveLength(2);
+    expect(fixes).toEqual([]);
+  });
+
+  it('reads JSON inside code fences', async () => {
+    const reply = '```json\n' + JSON.stringify(LEVEL) + '\n```';
+    const { config } = await generateLevelLayout('two pens', fakeClient(reply));
+    expect(config.sheepCount).toBe(6);
+  });
+
+  it('repairs what it can and says what changed', async () => {
+    const overlapping = { ...LEVEL, pastures: [LEVEL.pastures[0], { type: 'BLACK', bounds: { x: 0.1, y: 0.1, w: 0.2, h: 0.3 } }] };
+    const { fixes } = await generateLevelLayout('two pens', fakeClient(JSON.stringify(overlapping)));
+    expect(fixes).toContain('Moved the Dark Flock pen to a clear spot');
+  });
+
+  it('thins a scattered-obstacle spec before the level is built', async () => {
+    const reply = JSON.stringify({ ...LEVEL, obstacles: { count: 200, pxPerExtra: 100 } });
+    const { config, fixes } = await generateLevelLayout('a dense wood', fakeClient(reply));
+    expect(fixes).toContain('Thinned the obstacles to 40');
+    expect(scatteredCount(config.obstacles as ObstacleDensity, levelWorld(config))).toBeLessThanOrEqual(40);
+  });
+
+  it('rejects a reply that is not JSON', async () => {
+    await expect(generateLevelLayout('two pens', fakeClient('Here is a lovely level!'))).rejects.toThrow("The model's level wasn't valid JSON");
+  });
+
+  it('rejects a reply that fails the level schema', async () => {
+    const reply = JSON.stringify({ ...LEVEL, sheepCount: 0 });
+    await expect(generateLevelLayout('two pens', fakeClient(reply))).rejects.toThrow('Invalid generated level: sheepCount must be a whole number from 1 to 1000');
+  });
+
+  it('rejects a layout that cannot be repaired', async () => {
+    const reply = JSON.stringify({ ...LEVEL, pastures: [{ type: 'WHITE', bounds: { x: 0, y: 0, w: 1, h: 1 } }, LEVEL.pastures[1]] });
+    await expect(generateLevelLayout('two pens', fakeClient(reply))).rejects.toThrow("Generated level isn't playable: No room for the White Flock pen");
+  });
+
+  it('rejects an empty reply', async () => {
+    await expect(generateLevelLayout('two pens', fakeClient(''))).rejects.toThrow('The model sent back nothing');
+    await expect(generateLevelLayout('two pens', fakeClient(undefined))).rejects.toThrow('The model sent back nothing');
+  });
+
+  it('gives up on a model that never answers, and tells it to stop', async () => {
+    vi.useFakeTimers();
+    let signal: AbortSignal | undefined;
+    const client: ModelClient = {
+      name: 'stuck',
+      complete: (_prompt, s) => {
+        signal = s;
+        return new Promise(() => {});
+      },
+    };
+    const result = expect(generateLevelLayout('two pens', client)).rejects.toThrow('Timed out after 30000ms');
+    await vi.advanceTimersByTimeAsync(30000);
+    await result;
+    expect(signal?.aborted).toBe(true);
+  });
+
+  it('needs a model', async () => {
+    await expect(generateLevelLayout('two pens', null)).rejects.toThrow('No model configured');
+  });
+});
+
+describe('getLevelFlavorText', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('caches an editor layout apart from the built-in level with the same number', async () => {
+    const store = new Map<string, string>();
+    vi.stubGlobal('localStorage', { getItem: (k: string) => store.get(k) ?? null, setItem: (k: string, v: string) => store.set(k, v) });
+    const builtIn = parseLevelConfig(LEVEL);
+    const custom = { ...builtIn, sheepCount: 8 };
+
+    await getLevelFlavorText(1, 42, builtIn);
+    await getLevelFlavorText(1, 42, custom);
+    await getLevelFlavorText(1, 42, builtIn);
+    expect(Object.keys(JSON.parse(store.get('herdlight:flavor')!))).toHaveLength(2);
+  });
+});
@@ -1,45 +1,242 @@
 import { GoogleGenAI } from "@google/genai";
+import { LevelConfig } from '../types';
+import { parseLevelConfig } from '../engine/level';
+import { repairLevel, RepairResult } from '../engine/levelRepair';
+import { isObject, isString } from '../engine/validate';
+import { generateHaiku } from './haikuGenerator';
 
-const apiKey = process.env.API_KEY || '';
-
-// Fallback if API key is missing or fails
-const FALLBACK_DESCRIPTIONS = [
-  "The morning dew is fresh on the grass. Guide them gently.",
-  "The afternoon sun is warm. The flock is restless.",
-  "Shadows lengthen. Focus and patience are key.",
-  "A gentle breeze blows from the west. The work continues.",
-  "The herd grows larger. Find your rhythm."
-];
-
-export const getLevelFlavorText = async (level: number): Promise<{ title: string; description: string }> => {
-  if (!apiKey) {
-    return {
-      title: `Chapter ${level}`,
-      description: FALLBACK_DESCRIPTIONS[(level - 1) % FALLBACK_DESCRIPTIONS.length]
-    };
-  }
+// --- AI Features ---
+// Each pasture opens with a short title and a line of verse. Where it comes from is a
+// provider: a model (Gemini, or any OpenAI-compatible endpoint such as a local one) or the
+// offline haiku generator. Whatever a provider returns is validated, then cached per level,
+// seed and layout so a replay of the same run reads the same words. The same model can also
+// design whole levels from a description.
+
+// Sends one prompt, returns the raw reply. Anything with this shape can stand in for a model.
+export interface ModelClient {
+  name: string;
+  complete: (prompt: string, signal: AbortSignal) => Promise<string | undefined>;
+}
+
+export interface FlavorText {
+  title: string;
+  description: string;
+}
+
+export interface FlavorProvider {
+  name: string;
+  generate: (level: number, seed: number, signal: AbortSignal) => Promise<FlavorText>;
+}
+
+const CACHE_KEY = 'herdlight:flavor';
+const MAX_CACHED = 100; // Oldest entries go first
+const FLAVOR_TIMEOUT_MS = 6000; // Past this the loading screen gives up and uses a haiku
+const LEVEL_TIMEOUT_MS = 30000; // A whole level is a much longer reply
+const MAX_TITLE_LENGTH = 60;
+const MAX_DESCRIPTION_LENGTH = 240;
 
+const flavorPrompt = (level: number) =>
+  `Generate a very short, artistic, nature-focused title and a one-sentence haiku-like description for Level ${level} of a peaceful sheep herding game.
+      Return JSON format: { "title": "string", "description": "string" }.
+      Keep it zen, calm, and pastoral.`;
+
+// --- Response Validation ---
+// Models wrap JSON in code fences, add keys or ramble; anything that isn't a short title and
+// description is rejected
+const parseJsonReply = (text: string): unknown => JSON.parse(text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, ''));
+
+const toFlavorText = (data: unknown): FlavorText | null => {
+  if (!isObject(data)) return null;
+  const title = isString(data.title) ? data.title.trim() : '';
+  const description = isString(data.description) ? data.description.trim() : '';
+  if (!title || !description) return null;
+  if (title.length > MAX_TITLE_LENGTH || description.length > MAX_DESCRIPTION_LENGTH) return null;
+  return { title, description };
+};
+
+export const parseFlavorText = (text: string): FlavorText | null => {
   try {
-    const ai = new GoogleGenAI({ apiKey });
+    return toFlavorText(parseJsonReply(text));
+  } catch {
+    return null;
+  }
+};
+
+const requireFlavorText = (text: string | undefined): FlavorText => {
+  if (!text) throw new Error("No text response");
+  const flavor = parseFlavorText(text);
+  if (!flavor) throw new Error(`Unusable flavor text: ${text.slice(0, 120)}`);
+  return flavor;
+};
+
+// --- Model Clients ---
+// `baseUrl` is the dev server's proxy, which adds the real key; the SDK insists on one
+// being set in a browser, so it gets a placeholder
+export const geminiClient = (baseUrl: string, model = 'gemini-3-flash-preview'): ModelClient => ({
+  name: 'gemini',
+  complete: async (prompt, signal) => {
+    const ai = new GoogleGenAI({ apiKey: 'proxy', httpOptions: { baseUrl: new URL(baseUrl, location.href).href } });
     const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: `Generate a very short, artistic, nature-focused title and a one-sentence haiku-like description for Level ${level} of a peaceful sheep herding game. 
-      Return JSON format: { "title": "string", "description": "string" }. 
-      Keep it zen, calm, and pastoral.`,
+      model,
+      contents: prompt,
       config: {
         responseMimeType: "application/json",
+        abortSignal: signal,
       }
     });
+    return response.text;
+  },
+});
+
+// Anything that speaks the chat completions API: llama.cpp, Ollama, LM Studio, vLLM...
+export const openAiCompatibleClient = (baseUrl: string, model: string, apiKey = ''): ModelClient => ({
+  name: 'openai',
+  complete: async (prompt, signal) => {
+    const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model,
+        messages: [
+          { role: 'system', content: 'You reply with a single JSON object and nothing else.' },
+          { role: 'user', content: prompt },
+        ],
+      }),
+      signal,
+    });
+    if (!response.ok) throw new Error(`Flavor endpoint returned ${response.status}`);
+    const data = await response.json();
+    return data?.choices?.[0]?.message?.content;
+  },
+});
+
+// --- Flavor Providers ---
+export const modelFlavorProvider = (client: ModelClient): FlavorProvider => ({
+  name: client.name,
+  generate: async (level, _seed, signal) => requireFlavorText(await client.complete(flavorPrompt(level), signal)),
+});
+
+export const haikuProvider: FlavorProvider = {
+  name: 'haiku',
+  generate: async (level, seed) => generateHaiku(level, seed),
+};
+
+// Picked from the environment (see README): FLAVOR_PROVIDER=openai with an LLM_BASE_URL uses
+// that endpoint, otherwise Gemini if there's a key. Both go through the dev server's proxy,
+// so all the bundle knows is the proxy path. Null means no model at all.
+const configuredClient = (): ModelClient | null => {
+  const choice = process.env.FLAVOR_PROVIDER || '';
+  const geminiProxy = process.env.GEMINI_PROXY || '';
+  if (choice === 'openai') {
+    if (process.env.LLM_PROXY) {
+      return openAiCompatibleClient(process.env.LLM_PROXY, process.env.LLM_MODEL || 'local');
+    }
+    console.error("FLAVOR_PROVIDER is openai but LLM_BASE_URL is not set");
+  } else if (choice && choice !== 'gemini' && choice !== 'haiku') {
+    console.error(`Unknown FLAVOR_PROVIDER "${choice}"`);
+  }
+  return geminiProxy ? geminiClient(geminiProxy) : null;
+};
+
+const modelClient = configuredClient();
+// FLAVOR_PROVIDER=haiku keeps flavor text offline even with a model configured
+const provider = modelClient && process.env.FLAVOR_PROVIDER !== 'haiku' ? modelFlavorProvider(modelClient) : haikuProvider;
+
+// --- Cache ---
+// FNV-1a over the layout, so an editor test run doesn't share text with the built-in level
+// it happens to be numbered as
+const layoutHash = (layout: LevelConfig) => {
+  let hash = 0x811C9DC5;
+  const text = JSON.stringify(layout);
+  for (let i = 0; i < text.length; i++) hash = Math.imul(hash ^ text.charCodeAt(i), 0x01000193);
+  return (hash >>> 0).toString(36);
+};
 
-    const text = response.text;
-    if (!text) throw new Error("No text response");
-    
-    return JSON.parse(text);
+const cacheKey = (level: number, seed: number, layout: LevelConfig) => `${level}:${seed}:${layoutHash(layout)}`;
+
+const readCache = (): { [key: string]: FlavorText } => {
+  try {
+    return JSON.parse(localStorage.getItem(CACHE_KEY) ?? '{}') ?? {};
+  } catch (error) {
+    console.error("Could not read cached flavor text", error);
+    return {};
+  }
+};
+
+const writeCache = (key: string, flavor: FlavorText) => {
+  try {
+    const entries = Object.entries(readCache()).filter(([k]) => k !== key);
+    entries.push([key, flavor]);
+    localStorage.setItem(CACHE_KEY, JSON.stringify(Object.fromEntries(entries.slice(-MAX_CACHED))));
+  } catch (error) {
+    console.error("Could not cache flavor text", error);
+  }
+};
+
+// Rejects once `ms` have passed, and tells the work to stop through its signal
+const withTimeout = <T>(work: (signal: AbortSignal) => Promise<T>, ms: number): Promise<T> => {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new Error(`Timed out after ${ms}ms`));
+    }, ms);
+  });
+  return Promise.race([work(controller.signal), timeout]).finally(() => clearTimeout(timer));
+};
+
+export const getLevelFlavorText = async (level: number, seed: number, layout: LevelConfig): Promise<FlavorText> => {
+  const key = cacheKey(level, seed, layout);
+  const cached = toFlavorText(readCache()[key]);
+  if (cached) return cached;
+
+  try {
+    const flavor = await withTimeout(signal => provider.generate(level, seed, signal), FLAVOR_TIMEOUT_MS);
+    writeCache(key, flavor);
+    return flavor;
   } catch (error) {
-    console.error("AI Generation failed, using fallback", error);
-    return {
-      title: `Chapter ${level}`,
-      description: FALLBACK_DESCRIPTIONS[(level - 1) % FALLBACK_DESCRIPTIONS.length]
-    };
+    console.error(`Flavor text from ${provider.name} failed, using a haiku`, error);
+    return generateHaiku(level, seed);
+  }
+};
+
+// --- Level Design ---
+const levelPrompt = (description: string) =>
+  `Design one level for a calm top-down sheep herding game from this description: "${description}".
+      The field is 16:9. Every position and size is a fraction of the field from 0 to 1, origin top-left; the dog starts in the middle.
+      Return only JSON in this shape:
+      {
+        "name": "short evocative name",
+        "sheepCount": 12, "blackSheepRatio": 0.5,
+        "spawn": { "x": 0.1, "y": 0.4, "w": 0.8, "h": 0.4 },
+        "spawnZones": [{ "type": "WHITE" | "BLACK" | "GOAT", "bounds": { "x", "y", "w", "h" }, "count": 6 }],
+        "pastures": [{ "type": "WHITE" | "BLACK" | "GOAT", "bounds": { "x", "y", "w", "h" }, "gates": [{ "edge": 0-3 (top, right, bottom, left), "at": 0.5, "width": 0.5 }] }],
+        "obstacles": [{ "type": "TREE" | "ROCK" | "BUSH", "x": 0.3, "y": 0.2 }],
+        "fences": [[{ "x": 0.5, "y": 0.1 }, { "x": 0.5, "y": 0.4 }]],
+        "environment": { "hour": 0-24, "weather": "CLEAR" | "RAIN" | "WIND" | "FOG" }
+      }
+      Give every flock a pasture of its type, keep pastures apart, and leave a way through for the dog.
+      Rivers and walls are lines of ROCK obstacles or fences with gaps. Use up to 40 sheep and 40 obstacles.`;
+
+// Asks the model for a level, checks it against the level schema, then repairs the layout.
+// Throws with a readable reason if no playable level comes out of it.
+export const generateLevelLayout = async (description: string, client: ModelClient | null = modelClient): Promise<RepairResult> => {
+  if (!client) throw new Error("No model configured: set GEMINI_API_KEY, or FLAVOR_PROVIDER=openai and LLM_BASE_URL");
+  const text = await withTimeout(signal => client.complete(levelPrompt(description), signal), LEVEL_TIMEOUT_MS);
+  if (!text) throw new Error("The model sent back nothing");
+
+  let data: unknown;
+  try {
+    data = parseJsonReply(text);
+  } catch {
+    throw new Error("The model's level wasn't valid JSON");
   }
-};
\ No newline at end of file
+  const config: LevelConfig = parseLevelConfig(data, 'generated level');
+  const result = repairLevel(config);
+  if (result.problems.length > 0) throw new Error(`Generated level isn't playable: ${result.problems.join('; ')}`);
+  return result;
+};
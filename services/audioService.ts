@@ -0,0 +1,474 @@
+import { DOG_SPEED } from '../constants';
+import { Environment, GameState, Sheep, SheepType } from '../types';
+import { darknessAt, windVector } from '../engine/environment';
+import { WorldSize } from '../engine/simulation';
+import { vecMag } from '../engine/vector';
+
+// --- Procedural Audio Engine (Zen Mode) ---
+// Everything is synthesised; there are no sound files. Sound runs through two buses under a
+// master gain: music is the continuous bed (drone, weather, the level-complete chord) and
+// effects is anything a game event triggers (barks, bleats, paws, chimes).
+
+export interface VolumeSettings {
+  master: number; // 0 to 1
+  music: number;
+  effects: number;
+}
+
+export const DEFAULT_VOLUME: VolumeSettings = { master: 1, music: 0.8, effects: 0.8 };
+
+// Base bleat pitch per flock, Hz. Goats are higher and thinner, black-faced sheep lower.
+const BLEAT_PITCH: Record<SheepType, number> = {
+  [SheepType.WHITE]: 300,
+  [SheepType.BLACK]: 230,
+  [SheepType.GOAT]: 410,
+};
+const BLEATS_PER_SECOND = { calm: 0.02, panicked: 0.4 }; // Per sheep
+const MIN_BLEAT_GAP = 0.15; // Seconds between any two bleats, so a stampede doesn't turn to noise
+const STEP_DISTANCE = 26; // px a dog covers per paw-step
+// Pentatonic over A; each sheep penned rings the next note up
+const CHIME_NOTES = [440, 493.88, 554.37, 659.25, 739.99];
+// Drone harmony voices and the flock calm (0 to 1) at which each fades in
+const HARMONY = [
+  { freq: 220, calm: 0.35 }, // A3
+  { freq: 277.18, calm: 0.55 }, // C#4
+  { freq: 329.63, calm: 0.7 }, // E4
+  { freq: 493.88, calm: 0.85 }, // B4, the added ninth
+];
+
+const clamp01 = (v: number) => Math.max(0, Math.min(1, v));
+
+// How settled the flock is: 1 when nobody is panicking
+export const flockCalm = (sheep: Sheep[]) =>
+  sheep.length === 0 ? 1 : 1 - sheep.reduce((sum, s) => sum + s.panicLevel, 0) / sheep.length;
+
+export class ZenAudio {
+  ctx: AudioContext | null = null;
+  master: GainNode | null = null;
+  music: GainNode | null = null;
+  effects: GainNode | null = null;
+  windGain: GainNode | null = null;
+  droneGain: GainNode | null = null;
+  rainGain: GainNode | null = null;
+  nightGain: GainNode | null = null;
+  fogGain: GainNode | null = null;
+  harmonyGains: GainNode[] = [];
+  noise: AudioBuffer | null = null;
+  volume: VolumeSettings = { ...DEFAULT_VOLUME };
+
+  private lastBleat = 0;
+  private stepDistance = new Map<string, number>(); // Dog id -> px walked since the last paw-step
+
+  get isMuted() {
+    return this.volume.master === 0;
+  }
+
+  init() {
+    if (this.ctx) return;
+    this.ctx = new (window.AudioContext || (window as any).webkitAudioContext)();
+
+    this.master = this.ctx.createGain();
+    this.master.connect(this.ctx.destination);
+    this.music = this.ctx.createGain();
+    this.music.connect(this.master);
+    this.effects = this.ctx.createGain();
+    this.effects.connect(this.master);
+    this.setVolume(this.volume);
+
+    // 1. Wind (Pink Noise -> Lowpass Filter)
+    const bufferSize = this.ctx.sampleRate * 2;
+    const buffer = this.ctx.createBuffer(1, bufferSize, this.ctx.sampleRate);
+    const data = buffer.getChannelData(0);
+    let lastOut = 0;
+    for (let i = 0; i < bufferSize; i++) {
+      const white = Math.random() * 2 - 1;
+      data[i] = (lastOut + (0.02 * white)) / 1.02;
+      lastOut = data[i];
+      data[i] *= 3.5;
+    }
+    this.noise = buffer;
+
+    const noise = this.ctx.createBufferSource();
+    noise.buffer = buffer;
+    noise.loop = true;
+
+    const windFilter = this.ctx.createBiquadFilter();
+    windFilter.type = 'lowpass';
+    windFilter.frequency.value = 400;
+
+    this.windGain = this.ctx.createGain();
+    this.windGain.gain.value = 0.03;
+
+    noise.connect(windFilter);
+    windFilter.connect(this.windGain);
+    this.windGain.connect(this.music);
+    noise.start();
+
+    // 2. Drone (Sine Oscillators)
+    const osc1 = this.ctx.createOscillator();
+    osc1.type = 'sine';
+    osc1.frequency.value = 110; // A2
+
+    const osc2 = this.ctx.createOscillator();
+    osc2.type = 'sine';
+    osc2.frequency.value = 164.81; // E3
+
+    this.droneGain = this.ctx.createGain();
+    this.droneGain.gain.value = 0.02;
+
+    osc1.connect(this.droneGain);
+    osc2.connect(this.droneGain);
+    this.droneGain.connect(this.music);
+
+    osc1.start();
+    osc2.start();
+
+    // Harmony over the drone, silent until the flock settles (see setCalm)
+    this.harmonyGains = HARMONY.map(({ freq }) => {
+      const osc = this.ctx!.createOscillator();
+      osc.type = 'sine';
+      osc.frequency.value = freq;
+      const gain = this.ctx!.createGain();
+      gain.gain.value = 0;
+      osc.connect(gain);
+      gain.connect(this.music!);
+      osc.start();
+      return gain;
+    });
+
+    // LFO for subtle movement
+    const lfo = this.ctx.createOscillator();
+    lfo.frequency.value = 0.1;
+    const lfoGain = this.ctx.createGain();
+    lfoGain.gain.value = 200;
+    lfo.connect(lfoGain);
+    lfoGain.connect(windFilter.frequency);
+    lfo.start();
+
+    // 3. Rain (same noise, hissing high end)
+    const rain = this.ctx.createBufferSource();
+    rain.buffer = buffer;
+    rain.loop = true;
+    rain.playbackRate.value = 1.7;
+    const rainFilter = this.ctx.createBiquadFilter();
+    rainFilter.type = 'highpass';
+    rainFilter.frequency.value = 1200;
+    this.rainGain = this.ctx.createGain();
+    this.rainGain.gain.value = 0;
+    rain.connect(rainFilter);
+    rainFilter.connect(this.rainGain);
+    this.rainGain.connect(this.music);
+    rain.start();
+
+    // 4. Night crickets (high sine, chopped into chirps by a fast square LFO)
+    const cricket = this.ctx.createOscillator();
+    cricket.frequency.value = 4200;
+    const chirp = this.ctx.createGain();
+    chirp.gain.value = 0.5;
+    const chirpLfo = this.ctx.createOscillator();
+    chirpLfo.type = 'square';
+    chirpLfo.frequency.value = 14;
+    const chirpDepth = this.ctx.createGain();
+    chirpDepth.gain.value = 0.5; // Swings the chirp gain between 0 and 1
+    chirpLfo.connect(chirpDepth);
+    chirpDepth.connect(chirp.gain);
+    this.nightGain = this.ctx.createGain();
+    this.nightGain.gain.value = 0;
+    cricket.connect(chirp);
+    chirp.connect(this.nightGain);
+    this.nightGain.connect(this.music);
+    cricket.start();
+    chirpLfo.start();
+
+    // 5. Fog (muffled low hum)
+    const fogOsc = this.ctx.createOscillator();
+    fogOsc.type = 'sawtooth';
+    fogOsc.frequency.value = 55;
+    const fogFilter = this.ctx.createBiquadFilter();
+    fogFilter.type = 'lowpass';
+    fogFilter.frequency.value = 180;
+    this.fogGain = this.ctx.createGain();
+    this.fogGain.gain.value = 0;
+    fogOsc.connect(fogFilter);
+    fogFilter.connect(this.fogGain);
+    this.fogGain.connect(this.music);
+    fogOsc.start();
+
+    // Honour a saved silent master from before the context existed
+    if (this.isMuted) this.ctx.suspend();
+  }
+
+  // Nothing is worth running with the master all the way down, so the context sleeps
+  setVolume(volume: VolumeSettings) {
+    this.volume = volume;
+    if (!this.ctx) return;
+    const t = this.ctx.currentTime;
+    this.master?.gain.setTargetAtTime(volume.master, t, 0.05);
+    this.music?.gain.setTargetAtTime(volume.music, t, 0.05);
+    this.effects?.gain.setTargetAtTime(volume.effects, t, 0.05);
+    if (this.isMuted) this.ctx.suspend();
+    else this.ctx.resume();
+  }
+
+  resume() {
+    if (this.ctx && this.ctx.state === 'suspended' && !this.isMuted) {
+      this.ctx.resume();
+    }
+  }
+
+  // Fade the ambience layers toward the current weather and hour
+  setEnvironment(env: Environment, timeElapsed: number) {
+    if (!this.ctx) return;
+    const t = this.ctx.currentTime;
+    const gust = env.weather === 'WIND' ? windVector(env, timeElapsed) : { x: 0, y: 0 };
+    this.windGain?.gain.setTargetAtTime(0.03 + 0.09 * Math.hypot(gust.x, gust.y), t, 0.5);
+    this.rainGain?.gain.setTargetAtTime(env.weather === 'RAIN' ? 0.05 * env.intensity : 0, t, 1);
+    this.fogGain?.gain.setTargetAtTime(env.weather === 'FOG' ? 0.03 * env.intensity : 0, t, 1);
+    this.nightGain?.gain.setTargetAtTime(0.006 * darknessAt(env.hour), t, 2);
+  }
+
+  // The calmer the flock, the more voices join the drone
+  setCalm(calm: number) {
+    if (!this.ctx) return;
+    const t = this.ctx.currentTime;
+    this.harmonyGains.forEach((gain, i) => {
+      gain.gain.setTargetAtTime(0.008 * clamp01((calm - HARMONY[i].calm) / 0.15), t, 1.5);
+    });
+  }
+
+  // --- Game Events ---
+  // Called once per simulation tick with the live field: sheep bleat now and then (more when
+  // frightened) and each dog's paws rustle in time with how fast it's moving
+  listen(state: GameState, world: WorldSize, dt: number) {
+    if (!this.ctx || this.isMuted) return;
+    const now = this.ctx.currentTime;
+
+    if (now - this.lastBleat > MIN_BLEAT_GAP) {
+      for (const s of state.sheep) {
+        const rate = s.state === 'SECURE'
+          ? BLEATS_PER_SECOND.calm / 2
+          : BLEATS_PER_SECOND.calm + (BLEATS_PER_SECOND.panicked - BLEATS_PER_SECOND.calm) * s.panicLevel;
+        if (Math.random() < rate * dt) {
+          this.bleat(s.type, s.panicLevel, s.pos.x / world.w * 2 - 1);
+          this.lastBleat = now;
+          break;
+        }
+      }
+    }
+
+    state.dogs.forEach(dog => {
+      const speed = dog.isLyingDown ? 0 : vecMag(dog.vel);
+      const walked = (this.stepDistance.get(dog.id) ?? 0) + speed;
+      if (walked < STEP_DISTANCE) {
+        this.stepDistance.set(dog.id, walked);
+        return;
+      }
+      this.stepDistance.set(dog.id, 0);
+      this.pawStep(speed / DOG_SPEED, dog.pos.x / world.w * 2 - 1);
+    });
+  }
+
+  // A wavering "baa": a buzzy tone through a vowel-ish band, with vibrato that quickens with panic
+  bleat(type: SheepType, panic: number, pan: number) {
+    if (!this.ctx || !this.effects || this.isMuted) return;
+    const t = this.ctx.currentTime;
+    const pitch = BLEAT_PITCH[type] * (1 + 0.4 * panic) * (0.94 + Math.random() * 0.12);
+    const length = 0.55 - 0.2 * panic;
+
+    const osc = this.ctx.createOscillator();
+    osc.type = 'sawtooth';
+    osc.frequency.setValueAtTime(pitch * 0.9, t);
+    osc.frequency.linearRampToValueAtTime(pitch, t + 0.08);
+    osc.frequency.linearRampToValueAtTime(pitch * 0.85, t + length);
+
+    const vibrato = this.ctx.createOscillator();
+    vibrato.frequency.value = 6 + 8 * panic;
+    const vibratoDepth = this.ctx.createGain();
+    vibratoDepth.gain.value = pitch * (0.04 + 0.05 * panic);
+    vibrato.connect(vibratoDepth);
+    vibratoDepth.connect(osc.frequency);
+
+    const formant = this.ctx.createBiquadFilter();
+    formant.type = 'bandpass';
+    formant.frequency.value = type === SheepType.GOAT ? 1400 : 900;
+    formant.Q.value = 3;
+
+    const gain = this.ctx.createGain();
+    gain.gain.setValueAtTime(0, t);
+    gain.gain.linearRampToValueAtTime(0.05, t + 0.05);
+    gain.gain.exponentialRampToValueAtTime(0.001, t + length);
+
+    const panner = this.ctx.createStereoPanner();
+    panner.pan.value = Math.max(-1, Math.min(1, pan));
+
+    osc.connect(formant);
+    formant.connect(gain);
+    gain.connect(panner);
+    panner.connect(this.effects);
+    osc.start(t);
+    vibrato.start(t);
+    osc.stop(t + length + 0.05);
+    vibrato.stop(t + length + 0.05);
+  }
+
+  // A soft rustle of grass under a paw, louder the faster the dog is going
+  pawStep(pace: number, pan: number) {
+    if (!this.ctx || !this.effects || !this.noise || this.isMuted) return;
+    const t = this.ctx.currentTime;
+
+    const rustle = this.ctx.createBufferSource();
+    rustle.buffer = this.noise;
+    const offset = Math.random() * (this.noise.duration - 0.1);
+
+    const filter = this.ctx.createBiquadFilter();
+    filter.type = 'bandpass';
+    filter.frequency.value = 2200 + Math.random() * 800;
+    filter.Q.value = 0.8;
+
+    const gain = this.ctx.createGain();
+    gain.gain.setValueAtTime(0.012 + 0.03 * Math.min(1.5, pace), t);
+    gain.gain.exponentialRampToValueAtTime(0.001, t + 0.07);
+
+    const panner = this.ctx.createStereoPanner();
+    panner.pan.value = Math.max(-1, Math.min(1, pan));
+
+    rustle.connect(filter);
+    filter.connect(gain);
+    gain.connect(panner);
+    panner.connect(this.effects);
+    rustle.start(t, offset, 0.08);
+  }
+
+  // A small bell for a sheep reaching its pen; each one in a level climbs the scale
+  chime(penned: number) {
+    if (!this.ctx || !this.effects || this.isMuted) return;
+    const t = this.ctx.currentTime;
+    const step = Math.max(0, penned - 1);
+    const base = CHIME_NOTES[step % CHIME_NOTES.length] * 2 ** Math.min(1, Math.floor(step / CHIME_NOTES.length));
+
+    // Fundamental plus two harmonics, the higher ones dying away first
+    [1, 2, 3].forEach((harmonic, i) => {
+      const osc = this.ctx!.createOscillator();
+      osc.type = 'sine';
+      osc.frequency.value = base * harmonic;
+      const gain = this.ctx!.createGain();
+      const decay = 1.6 / (i + 1);
+      gain.gain.setValueAtTime(0, t);
+      gain.gain.linearRampToValueAtTime(0.04 / (i + 1), t + 0.01);
+      gain.gain.exponentialRampToValueAtTime(0.001, t + decay);
+      osc.connect(gain);
+      gain.connect(this.effects!);
+      osc.start(t);
+      osc.stop(t + decay + 0.05);
+    });
+  }
+
+  // Level complete: a suspended chord that settles onto A major
+  resolve() {
+    if (!this.ctx || !this.music || this.isMuted) return;
+    const t = this.ctx.currentTime;
+    const voice = (freq: number, start: number, end: number, level: number) => {
+      const osc = this.ctx!.createOscillator();
+      osc.type = 'triangle';
+      osc.frequency.value = freq;
+      const gain = this.ctx!.createGain();
+      gain.gain.setValueAtTime(0, t + start);
+      gain.gain.linearRampToValueAtTime(level, t + start + 0.15);
+      gain.gain.setTargetAtTime(0, t + end, 0.4);
+      osc.connect(gain);
+      gain.connect(this.music!);
+      osc.start(t + start);
+      osc.stop(t + end + 2);
+    };
+    // Asus4 ...
+    [220, 293.66, 329.63].forEach(f => voice(f, 0, 0.9, 0.03));
+    // ... resolving to A major, with the octave on top
+    [220, 277.18, 329.63, 440].forEach(f => voice(f, 0.8, 3, 0.03));
+  }
+
+  // Short gruff woof: a filtered noise burst over a falling square tone
+  bark() {
+    if (!this.ctx || !this.effects || this.isMuted) return;
+    const t = this.ctx.currentTime;
+
+    const osc = this.ctx.createOscillator();
+    osc.type = 'square';
+    osc.frequency.setValueAtTime(420, t);
+    osc.frequency.exponentialRampToValueAtTime(180, t + 0.12);
+
+    const burst = this.ctx.createBufferSource();
+    const len = Math.floor(this.ctx.sampleRate * 0.15);
+    burst.buffer = this.ctx.createBuffer(1, len, this.ctx.sampleRate);
+    const data = burst.buffer.getChannelData(0);
+    for (let i = 0; i < len; i++) data[i] = Math.random() * 2 - 1;
+
+    const filter = this.ctx.createBiquadFilter();
+    filter.type = 'bandpass';
+    filter.frequency.value = 700;
+
+    const gain = this.ctx.createGain();
+    gain.gain.setValueAtTime(0.12, t);
+    gain.gain.exponentialRampToValueAtTime(0.001, t + 0.18);
+
+    osc.connect(filter);
+    burst.connect(filter);
+    filter.connect(gain);
+    gain.connect(this.effects);
+    osc.start(t);
+    burst.start(t);
+    osc.stop(t + 0.2);
+  }
+
+  // Shepherd's two-note whistle for "lie down"
+  whistle() {
+    if (!this.ctx || !this.effects || this.isMuted) return;
+    const t = this.ctx.currentTime;
+
+    const osc = this.ctx.createOscillator();
+    osc.type = 'sine';
+    osc.frequency.setValueAtTime(1800, t);
+    osc.frequency.linearRampToValueAtTime(2400, t + 0.15);
+    osc.frequency.setValueAtTime(1600, t + 0.22);
+    osc.frequency.linearRampToValueAtTime(1400, t + 0.45);
+
+    const gain = this.ctx.createGain();
+    gain.gain.setValueAtTime(0, t);
+    gain.gain.linearRampToValueAtTime(0.05, t + 0.03);
+    gain.gain.setValueAtTime(0.05, t + 0.4);
+    gain.gain.linearRampToValueAtTime(0, t + 0.5);
+
+    osc.connect(gain);
+    gain.connect(this.effects);
+    osc.start(t);
+    osc.stop(t + 0.5);
+  }
+
+  // Distant rising howl when a wolf comes onto the field
+  howl() {
+    if (!this.ctx || !this.effects || this.isMuted) return;
+    const t = this.ctx.currentTime;
+
+    const osc = this.ctx.createOscillator();
+    osc.type = 'triangle';
+    osc.frequency.setValueAtTime(280, t);
+    osc.frequency.linearRampToValueAtTime(520, t + 0.6);
+    osc.frequency.setValueAtTime(520, t + 1.2);
+    osc.frequency.linearRampToValueAtTime(380, t + 1.8);
+
+    const filter = this.ctx.createBiquadFilter();
+    filter.type = 'lowpass';
+    filter.frequency.value = 900;
+
+    const gain = this.ctx.createGain();
+    gain.gain.setValueAtTime(0, t);
+    gain.gain.linearRampToValueAtTime(0.06, t + 0.4);
+    gain.gain.setValueAtTime(0.06, t + 1.4);
+    gain.gain.linearRampToValueAtTime(0, t + 1.9);
+
+    osc.connect(filter);
+    filter.connect(gain);
+    gain.connect(this.effects);
+    osc.start(t);
+    osc.stop(t + 2);
+  }
+}
@@ -0,0 +1,75 @@
+import { createRng, levelSeed, nextRandom } from '../engine/random';
+import { Rng } from '../types';
+import type { FlavorText } from './aiService';
+
+// --- Offline Haiku ---
+// Flavor text with no network at all: a title and a 5-7-5 haiku stitched together from
+// word banks. Every line in a bank already has the right syllable count, so any pick scans.
+// The same level and seed always give the same poem.
+
+const TITLE_WORDS = [
+  'Clover', 'Bracken', 'Heather', 'Thistle', 'Willow', 'Barley', 'Mossy', 'Quiet',
+  'Golden', 'Misty', 'Hollow', 'Amber', 'Silver', 'Dappled', 'Windward', 'Lantern',
+];
+
+const TITLE_PLACES = [
+  'Hollow', 'Meadow', 'Ridge', 'Fold', 'Brook', 'Common', 'Downs', 'Glen',
+  'Hill', 'Vale', 'Field', 'Crossing', 'Heath', 'Pasture', 'Dell', 'Green',
+];
+
+const OPENING_LINES = [ // Five syllables
+  'Dew on the clover',
+  'Morning mist lifting',
+  'Wind in the barley',
+  'A bell in the fog',
+  'Low sun on the hill',
+  'Rain on the stone wall',
+  'First light on the fold',
+  'The gate stands open',
+  'Thistle seeds drifting',
+  'Frost on the bracken',
+  'Clouds over the downs',
+  'A crow on the fence',
+];
+
+const MIDDLE_LINES = [ // Seven syllables
+  'the flock turns as one soft wave',
+  'a slow bleat drifts down the slope',
+  'patient paws press through the grass',
+  'the old ewe leads the way home',
+  'small hooves drum the quiet earth',
+  'the dog waits, still as a stone',
+  'wool glows white against the green',
+  'lambs run circles round their kin',
+  'one stray wanders to the brook',
+  'the hedgerow hums with spring bees',
+  'a far whistle rides the wind',
+  'shadows stretch across the field',
+];
+
+const CLOSING_LINES = [ // Five syllables
+  'all of them come home',
+  'the pen gate closes',
+  'breathe, and guide them in',
+  'no need to hurry',
+  'the valley is still',
+  'evening settles in',
+  'each one finds its place',
+  'the grass springs back up',
+  'a long day ending',
+  'stars over the fold',
+  'quiet in the pen',
+  'and the wind moves on',
+];
+
+const pick = <T>(rng: Rng, bank: T[]): T => bank[Math.floor(nextRandom(rng) * bank.length)];
+
+export const generateHaiku = (level: number, seed: number): FlavorText => {
+  const rng = createRng(levelSeed(seed, level));
+  const word = pick(rng, TITLE_WORDS);
+  const place = pick(rng, TITLE_PLACES.filter(p => p !== word)); // No "Hollow Hollow"
+  return {
+    title: `${word} ${place}`,
+    description: [pick(rng, OPENING_LINES), pick(rng, MIDDLE_LINES), pick(rng, CLOSING_LINES)].join('\n'),
+  };
+};
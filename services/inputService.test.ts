@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { InputManager } from './inputService';
+
+const DOG = { x: 0, y: 0 };
+
+describe('InputManager keyboard', () => {
+  it('lets go of a key released while Shift is held', () => {
+    const input = new InputManager();
+    input.keyDown('KeyW');
+    input.keyDown('ShiftLeft');
+    expect(input.read(DOG)).toEqual({ move: { x: 0, y: -1 }, bark: false, lieDown: true });
+    input.keyUp('KeyW');
+    input.keyUp('ShiftLeft');
+    expect(input.read(DOG)).toEqual({ move: { x: 0, y: 0 }, bark: false, lieDown: false });
+  });
+
+  it('reads WASD, the arrows, Space and either Shift for a lone player', () => {
+    const input = new InputManager();
+    input.keyDown('KeyD');
+    input.keyDown('ArrowDown');
+    input.keyDown('Space');
+    input.keyDown('ShiftRight');
+    expect(input.read(DOG)).toEqual({ move: { x: 1, y: 1 }, bark: true, lieDown: true });
+  });
+
+  it('gives each co-op player their own side of the keyboard', () => {
+    const input = new InputManager();
+    input.keyDown('KeyA');
+    input.keyDown('ShiftRight');
+    expect(input.read(DOG, 'wasd')).toEqual({ move: { x: -1, y: 0 }, bark: false, lieDown: false });
+    expect(input.read(DOG, 'arrows')).toEqual({ move: { x: 0, y: 0 }, bark: false, lieDown: true });
+  });
+});
@@ -0,0 +1,132 @@
+import { Vector2 } from '../types';
+import { EMPTY_INPUT, InputSnapshot, KeyboardLayout, readKeyboardInput, readKeyboardLayout } from '../engine/input';
+import { vecLimit, vecMag, vecMult, vecSub } from '../engine/vector';
+
+export type ControlScheme = 'keyboard' | 'touch' | 'gamepad';
+
+// Which controls drive a dog. A lone player gets everything; in co-op each player has one
+// side of the keyboard plus the gamepad in their slot.
+export type InputBinding = 'any' | KeyboardLayout;
+
+const BINDING_PAD: Record<KeyboardLayout, number> = { wasd: 0, arrows: 1 };
+
+const STICK_DEADZONE = 0.15;
+// Follow-the-finger: full speed beyond this distance, easing off as the dog arrives
+const FOLLOW_FULL_SPEED_DIST = 80;
+const FOLLOW_STOP_DIST = 6;
+
+// Rescale a stick so the deadzone edge reads as 0 and the rim as 1, keeping direction
+const applyDeadzone = (v: Vector2): Vector2 => {
+  const m = vecMag(v);
+  if (m < STICK_DEADZONE) return { x: 0, y: 0 };
+  return vecMult(v, Math.min(1, (m - STICK_DEADZONE) / (1 - STICK_DEADZONE)) / m);
+};
+
+const connectedPads = () => {
+  const pads = typeof navigator !== 'undefined' && navigator.getGamepads ? navigator.getGamepads() : [];
+  return Array.from(pads).filter((p): p is Gamepad => !!p);
+};
+
+const readGamepad = (pads: Gamepad[]): InputSnapshot => {
+  let move = { x: 0, y: 0 };
+  let bark = false;
+  let lieDown = false;
+  for (const pad of pads) {
+    // Standard mapping: A (0) barks, B (1) lies down; d-pad is 12 up, 13 down, 14 left, 15 right
+    const pressed = (i: number) => !!pad.buttons[i]?.pressed;
+    bark = bark || pressed(0);
+    lieDown = lieDown || pressed(1);
+    if (move.x !== 0 || move.y !== 0) continue;
+
+    const stick = applyDeadzone({ x: pad.axes[0] ?? 0, y: pad.axes[1] ?? 0 });
+    const dpad = {
+      x: (pressed(15) ? 1 : 0) - (pressed(14) ? 1 : 0),
+      y: (pressed(13) ? 1 : 0) - (pressed(12) ? 1 : 0),
+    };
+    move = stick.x !== 0 || stick.y !== 0 ? stick : vecLimit(dpad, 1);
+  }
+  return { move, bark, lieDown };
+};
+
+export const detectControlScheme = (): ControlScheme => {
+  if (connectedPads().length > 0) return 'gamepad';
+  if (typeof window !== 'undefined' && window.matchMedia?.('(pointer: coarse)').matches) return 'touch';
+  return 'keyboard';
+};
+
+// --- Input Manager ---
+// Collects every way of steering the dog and hands the engine one analog vector per tick.
+// Whichever source is actively pushing wins: gamepad, then on-screen joystick, then a held
+// pointer, then the keyboard.
+export class InputManager {
+  keys: { [code: string]: boolean } = {}; // By physical key code
+  joystick: Vector2 = { x: 0, y: 0 };
+  pointerTarget: Vector2 | null = null; // World position the finger/mouse is holding
+  touchCommands = { bark: false, lieDown: false }; // On-screen command buttons
+
+  // Tracked by `code` rather than `key`: the key a code produces changes with Shift held,
+  // so a key pressed before Shift and released after it would never come back up
+  keyDown(code: string) {
+    this.keys[code] = true;
+  }
+
+  keyUp(code: string) {
+    this.keys[code] = false;
+  }
+
+  setJoystick(v: Vector2) {
+    this.joystick = vecLimit(v, 1);
+  }
+
+  setPointerTarget(p: Vector2 | null) {
+    this.pointerTarget = p;
+  }
+
+  setTouchCommand(command: 'bark' | 'lieDown', held: boolean) {
+    this.touchCommands[command] = held;
+  }
+
+  // Drop everything held, e.g. when the window loses focus
+  clear() {
+    this.keys = {};
+    this.joystick = { x: 0, y: 0 };
+    this.pointerTarget = null;
+    this.touchCommands = { bark: false, lieDown: false };
+  }
+
+  read(dogPos: Vector2, binding: InputBinding = 'any'): InputSnapshot {
+    if (binding !== 'any') return this.readPlayer(binding);
+
+    const pad = readGamepad(connectedPads());
+    const keyboard = readKeyboardInput(this.keys);
+    // Commands from any device combine; movement comes from the most direct source
+    const bark = pad.bark || keyboard.bark || this.touchCommands.bark;
+    const lieDown = pad.lieDown || keyboard.lieDown || this.touchCommands.lieDown;
+
+    if (pad.move.x !== 0 || pad.move.y !== 0) {
+      return { move: pad.move, bark, lieDown };
+    }
+
+    if (this.joystick.x !== 0 || this.joystick.y !== 0) {
+      return { move: { ...this.joystick }, bark, lieDown };
+    }
+
+    if (this.pointerTarget) {
+      const toTarget = vecSub(this.pointerTarget, dogPos);
+      const d = vecMag(toTarget);
+      if (d < FOLLOW_STOP_DIST) return { ...EMPTY_INPUT, bark, lieDown };
+      return { move: vecMult(toTarget, Math.min(1, d / FOLLOW_FULL_SPEED_DIST) / d), bark, lieDown };
+    }
+
+    return { move: keyboard.move, bark, lieDown };
+  }
+
+  // One co-op player: their side of the keyboard or their own gamepad, whichever is pushing
+  private readPlayer(layout: KeyboardLayout): InputSnapshot {
+    const slot = connectedPads()[BINDING_PAD[layout]];
+    const pad = readGamepad(slot ? [slot] : []);
+    const keyboard = readKeyboardLayout(this.keys, layout);
+    const move = pad.move.x !== 0 || pad.move.y !== 0 ? pad.move : keyboard.move;
+    return { move, bark: pad.bark || keyboard.bark, lieDown: pad.lieDown || keyboard.lieDown };
+  }
+}
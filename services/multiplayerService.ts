@@ -0,0 +1,196 @@
+import { DogPalette, GameState } from '../types';
+import { InputSnapshot } from '../engine/input';
+import {
+  applySnapshot,
+  INTERPOLATION_DELAY_MS,
+  interpolateSnapshots,
+  NET_PORT,
+  NetPlayer,
+  NetSnapshot,
+  RoomPhase,
+  ServerMessage,
+} from '../engine/netcode';
+import { layoutPastures, PastureView } from '../engine/pastures';
+import { levelWorld } from '../engine/level';
+import { predictDog, WorldSize } from '../engine/simulation';
+
+export const DEFAULT_RELAY_URL = `ws://localhost:${NET_PORT}`;
+
+// Snapshots older than this are no use for smoothing any more
+const SNAPSHOT_BUFFER = 10;
+
+export type OnlineStatus = 'CONNECTING' | 'CONNECTED' | 'CLOSED';
+
+// What the online screens show; refreshed whenever the session hears from the server
+export interface OnlineView {
+  status: OnlineStatus;
+  playerId: string | null;
+  players: NetPlayer[];
+  hostId: string | null;
+  phase: RoomPhase;
+  level: number;
+  score: number;
+  error: string | null;
+}
+
+// --- Online Session ---
+// One browser's connection to the relay. The server's snapshots are buffered and played back
+// a little behind real time so everything moves smoothly; the player's own dog runs ahead on
+// local prediction and is corrected whenever the server confirms an input.
+export class OnlineSession {
+  socket: WebSocket;
+  status: OnlineStatus = 'CONNECTING';
+  playerId: string | null = null;
+  players: NetPlayer[] = [];
+  hostId: string | null = null;
+  phase: RoomPhase = 'LOBBY';
+  level: number = 1;
+  error: string | null = null;
+  base: GameState | null = null; // The current level as it started
+  pastures: PastureView[] = [];
+  world: WorldSize = levelWorld({});
+  onChange: () => void = () => {};
+
+  private snapshots: { at: number; snapshot: NetSnapshot }[] = [];
+  private pending: { seq: number; input: InputSnapshot }[] = []; // Sent but not yet applied by the server
+  private predicted: GameState | null = null;
+  private seq = 0;
+
+  constructor(url: string, name: string, palette: DogPalette) {
+    this.socket = new WebSocket(url);
+    this.socket.onopen = () => {
+      this.status = 'CONNECTED';
+      this.socket.send(JSON.stringify({ type: 'join', name, palette }));
+      this.onChange();
+    };
+    this.socket.onmessage = e => {
+      try {
+        this.handle(JSON.parse(e.data));
+      } catch (error) {
+        console.error("Bad message from relay", error);
+      }
+    };
+    this.socket.onerror = () => {
+      this.error ??= `Could not reach the relay at ${url}`;
+    };
+    this.socket.onclose = () => {
+      this.status = 'CLOSED';
+      this.onChange();
+    };
+  }
+
+  get me() {
+    return this.players.find(p => p.id === this.playerId) ?? null;
+  }
+
+  get isHost() {
+    return this.playerId !== null && this.playerId === this.hostId;
+  }
+
+  get view(): OnlineView {
+    return {
+      status: this.status,
+      playerId: this.playerId,
+      players: this.players,
+      hostId: this.hostId,
+      phase: this.phase,
+      level: this.level,
+      score: this.snapshots[this.snapshots.length - 1]?.snapshot.score ?? 0,
+      error: this.error,
+    };
+  }
+
+  start(level: number) {
+    this.send({ type: 'start', level });
+  }
+
+  close() {
+    this.socket.onclose = null;
+    this.socket.close();
+  }
+
+  // One tick of the local player's input: off to the server, and straight onto the predicted dog
+  sendInput(input: InputSnapshot) {
+    const dogIndex = this.me?.dogIndex ?? null;
+    if (this.phase !== 'PLAYING' || dogIndex === null || !this.predicted) return;
+    const seq = ++this.seq;
+    this.pending.push({ seq, input });
+    this.send({ type: 'input', seq, input });
+    predictDog(this.predicted, dogIndex, input, this.world);
+  }
+
+  // The field as it should be drawn at `now`
+  stateAt(now: number): GameState | null {
+    if (!this.base) return null;
+    if (this.snapshots.length === 0) return this.base;
+
+    const renderAt = now - INTERPOLATION_DELAY_MS;
+    const next = this.snapshots.findIndex(s => s.at > renderAt);
+    let snapshot: NetSnapshot;
+    if (next === -1) {
+      snapshot = this.snapshots[this.snapshots.length - 1].snapshot;
+    } else if (next === 0) {
+      snapshot = this.snapshots[0].snapshot;
+    } else {
+      const from = this.snapshots[next - 1];
+      const to = this.snapshots[next];
+      snapshot = interpolateSnapshots(from.snapshot, to.snapshot, (renderAt - from.at) / (to.at - from.at));
+    }
+
+    const state = applySnapshot(this.base, snapshot);
+    const dogIndex = this.me?.dogIndex ?? null;
+    if (dogIndex !== null && this.predicted?.dogs[dogIndex]) {
+      state.dogs = state.dogs.map((d, i) => (i === dogIndex ? this.predicted!.dogs[i] : d));
+    }
+    return state;
+  }
+
+  private send(message: object) {
+    if (this.socket.readyState === WebSocket.OPEN) this.socket.send(JSON.stringify(message));
+  }
+
+  private handle(message: ServerMessage) {
+    switch (message.type) {
+      case 'welcome':
+        this.playerId = message.playerId;
+        break;
+      case 'roster':
+        this.players = message.players;
+        this.hostId = message.hostId;
+        this.phase = message.phase;
+        this.level = message.level;
+        break;
+      case 'level':
+        this.level = message.level;
+        this.base = message.state;
+        this.world = levelWorld(message.config);
+        this.pastures = layoutPastures(message.config.pastures, this.world);
+        this.snapshots = [];
+        this.pending = [];
+        this.predicted = structuredClone(message.state);
+        this.error = null;
+        break;
+      case 'snapshot':
+        this.receiveSnapshot(message.snapshot);
+        return; // Too frequent to re-render the screens for
+      case 'error':
+        this.error = message.message;
+        break;
+    }
+    this.onChange();
+  }
+
+  private receiveSnapshot(snapshot: NetSnapshot) {
+    if (!this.base) return;
+    this.snapshots.push({ at: performance.now(), snapshot });
+    if (this.snapshots.length > SNAPSHOT_BUFFER) this.snapshots.shift();
+
+    // Reconcile: start from where the server says our dog is and replay what it hasn't seen yet
+    const dogIndex = this.me?.dogIndex ?? null;
+    if (dogIndex === null || !this.playerId) return;
+    const acked = snapshot.acks[this.playerId] ?? 0;
+    this.pending = this.pending.filter(p => p.seq > acked);
+    this.predicted = { ...applySnapshot(this.base, structuredClone(snapshot)), barkWaves: [] };
+    this.pending.forEach(p => predictDog(this.predicted!, dogIndex, p.input, this.world));
+  }
+}
@@ -0,0 +1,81 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_ACCESSIBILITY } from './accessibility';
+import { DEFAULT_VOLUME } from './audioService';
+import { loadProgress, SAVE_VERSION } from './progressService';
+
+const store = new Map<string, string>();
+
+const stored = (save: unknown) => store.set('herdlight:progress', JSON.stringify(save));
+
+const goodSave = () => ({
+  version: SAVE_VERSION,
+  highestLevel: 3,
+  levels: { 1: { bestScore: 900, bestTime: 42 } },
+  palette: 'BLACK',
+  volume: { master: 0.5, music: 0.3, effects: 1 },
+  accessibility: { markings: true, highContrast: false, motion: 'reduced', gameSpeed: 0.75 },
+});
+
+describe('loadProgress', () => {
+  beforeEach(() => {
+    store.clear();
+    vi.stubGlobal('localStorage', { getItem: (k: string) => store.get(k) ?? null, setItem: (k: string, v: string) => store.set(k, v) });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('reads back a good save', () => {
+    stored(goodSave());
+    expect(loadProgress()).toEqual(goodSave());
+  });
+
+  it('upgrades a first-version save', () => {
+    stored({ version: 1, highestLevel: 2, levels: {}, palette: 'BLACK', muted: true });
+    const save = loadProgress();
+    expect(save.volume).toEqual({ ...DEFAULT_VOLUME, master: 0 });
+    expect(save.accessibility).toEqual(DEFAULT_ACCESSIBILITY);
+  });
+
+  it.each(['fast', 0, -1, 1e9, null])('falls back to normal speed for a stored speed of %j', gameSpeed => {
+    stored({ ...goodSave(), accessibility: { ...goodSave().accessibility, gameSpeed } });
+    const { accessibility } = loadProgress();
+    expect(accessibility.gameSpeed).toBe(DEFAULT_ACCESSIBILITY.gameSpeed);
+    expect(accessibility.motion).toBe('reduced'); // The good fields next to it survive
+  });
+
+  it('checks each setting on its own', () => {
+    stored({
+      ...goodSave(),
+      volume: { master: 3, music: '0.2', effects: 0.4 },
+      accessibility: { markings: 'yes', highContrast: true, motion: 'wild', gameSpeed: 0.5 },
+    });
+    const save = loadProgress();
+    expect(save.volume).toEqual({ master: DEFAULT_VOLUME.master, music: DEFAULT_VOLUME.music, effects: 0.4 });
+    expect(save.accessibility).toEqual({ markings: false, highContrast: true, motion: 'auto', gameSpeed: 0.5 });
+  });
+
+  it('drops level records that are not numbers', () => {
+    stored({ ...goodSave(), levels: { 1: { bestScore: 900, bestTime: 42 }, 2: { bestScore: 'lots', bestTime: 10 }, x: { bestScore: 1, bestTime: 1 }, 3: 'won' } });
+    expect(loadProgress().levels).toEqual({ 1: { bestScore: 900, bestTime: 42 } });
+  });
+
+  it('falls back on a bad level, palette or settings object', () => {
+    stored({ ...goodSave(), highestLevel: -4, palette: 'toString', volume: 'loud', accessibility: [] });
+    const save = loadProgress();
+    expect(save.highestLevel).toBe(1);
+    expect(save.palette).toBe('BLACK');
+    expect(save.volume).toEqual(DEFAULT_VOLUME);
+    expect(save.accessibility).toEqual(DEFAULT_ACCESSIBILITY);
+  });
+
+  it('starts fresh from a save it cannot read', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    store.set('herdlight:progress', '{not json');
+    expect(loadProgress().highestLevel).toBe(1);
+    stored({ version: SAVE_VERSION + 1 });
+    expect(loadProgress().highestLevel).toBe(1);
+  });
+});
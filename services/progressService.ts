@@ -0,0 +1,139 @@
+import { DOG_PALETTES } from '../constants';
+import { ScoreBreakdown } from '../engine/scoring';
+import { isBool, isFraction, isNum, isObject, isString, JsonObject } from '../engine/validate';
+import { AccessibilitySettings, DEFAULT_ACCESSIBILITY, GAME_SPEEDS, MotionSetting } from './accessibility';
+import { DEFAULT_VOLUME, VolumeSettings } from './audioService';
+
+const STORAGE_KEY = 'herdlight:progress';
+
+export const SAVE_VERSION = 3;
+
+export type PaletteKey = keyof typeof DOG_PALETTES;
+
+export interface LevelRecord {
+  bestScore: number;
+  bestTime: number; // Seconds
+}
+
+export interface SaveData {
+  version: number;
+  highestLevel: number; // Highest pasture unlocked
+  levels: { [level: number]: LevelRecord };
+  palette: PaletteKey;
+  volume: VolumeSettings;
+  accessibility: AccessibilitySettings;
+}
+
+const defaultSave = (): SaveData => ({
+  version: SAVE_VERSION,
+  highestLevel: 1,
+  levels: {},
+  palette: 'BLACK',
+  volume: { ...DEFAULT_VOLUME },
+  accessibility: { ...DEFAULT_ACCESSIBILITY },
+});
+
+// Upgrades a save written by version N to N + 1. When SaveData changes, bump SAVE_VERSION
+// and add an entry here keyed by the old version; loadProgress runs them in order.
+const MIGRATIONS: { [fromVersion: number]: (data: JsonObject) => JsonObject } = {
+  // The mute toggle became volume sliders
+  1: ({ muted, ...rest }) => ({ ...rest, volume: { ...DEFAULT_VOLUME, master: muted ? 0 : DEFAULT_VOLUME.master } }),
+  // Accessibility settings were added
+  2: (data) => ({ ...data, accessibility: { ...DEFAULT_ACCESSIBILITY } }),
+};
+
+const migrate = (data: JsonObject, from: number): JsonObject => {
+  let current = data;
+  for (let version = from; version < SAVE_VERSION; version++) {
+    const step = MIGRATIONS[version];
+    if (!step) throw new Error(`No migration from save version ${version}`);
+    current = { ...step(current), version: version + 1 };
+  }
+  return current;
+};
+
+// --- Reading Saved Fields ---
+// Storage can hold anything, so each field is checked on its own and falls back to the
+// default when it doesn't fit, rather than throwing the whole save away
+const MOTION_SETTINGS: MotionSetting[] = ['auto', 'reduced', 'full'];
+
+const pick = <T>(value: unknown, valid: (v: unknown) => boolean, fallback: T): T => (valid(value) ? value as T : fallback);
+
+const readLevels = (value: unknown): SaveData['levels'] => {
+  if (!isObject(value)) return {};
+  const levels: SaveData['levels'] = {};
+  Object.entries(value).forEach(([key, record]) => {
+    const level = Number(key);
+    if (!Number.isInteger(level) || level < 1 || !isObject(record)) return;
+    if (!isNum(record.bestScore) || !isNum(record.bestTime) || record.bestTime < 0) return;
+    levels[level] = { bestScore: record.bestScore, bestTime: record.bestTime };
+  });
+  return levels;
+};
+
+const readVolume = (value: unknown, fallback: VolumeSettings): VolumeSettings => {
+  const v = isObject(value) ? value : {};
+  return {
+    master: pick(v.master, isFraction, fallback.master),
+    music: pick(v.music, isFraction, fallback.music),
+    effects: pick(v.effects, isFraction, fallback.effects),
+  };
+};
+
+const readAccessibility = (value: unknown, fallback: AccessibilitySettings): AccessibilitySettings => {
+  const a = isObject(value) ? value : {};
+  return {
+    markings: pick(a.markings, isBool, fallback.markings),
+    highContrast: pick(a.highContrast, isBool, fallback.highContrast),
+    motion: pick(a.motion, m => MOTION_SETTINGS.includes(m as MotionSetting), fallback.motion),
+    gameSpeed: pick(a.gameSpeed, s => GAME_SPEEDS.includes(s as number), fallback.gameSpeed),
+  };
+};
+
+export const loadProgress = (): SaveData => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return defaultSave();
+    const data: unknown = JSON.parse(raw);
+    if (!isObject(data) || !isNum(data.version) || data.version > SAVE_VERSION) {
+      throw new Error(`Unknown save version ${isObject(data) ? data.version : undefined}`);
+    }
+    const save = migrate(data, data.version);
+    const fresh = defaultSave();
+    return {
+      version: SAVE_VERSION,
+      highestLevel: pick(save.highestLevel, v => Number.isInteger(v) && (v as number) >= 1, fresh.highestLevel),
+      levels: readLevels(save.levels),
+      palette: pick(save.palette, p => isString(p) && Object.hasOwn(DOG_PALETTES, p), fresh.palette),
+      volume: readVolume(save.volume, fresh.volume),
+      accessibility: readAccessibility(save.accessibility, fresh.accessibility),
+    };
+  } catch (error) {
+    console.error("Could not read saved progress, starting fresh", error);
+    return defaultSave();
+  }
+};
+
+export const saveProgress = (save: SaveData) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(save));
+  } catch (error) {
+    console.error("Could not save progress", error);
+  }
+};
+
+// Fold a finished level into the save: unlock the next pasture and keep personal bests
+export const recordLevelResult = (save: SaveData, level: number, result: ScoreBreakdown, maxLevel: number): SaveData => {
+  const previous = save.levels[level];
+  return {
+    ...save,
+    highestLevel: Math.max(save.highestLevel, Math.min(maxLevel, level + 1)),
+    levels: {
+      ...save.levels,
+      [level]: {
+        bestScore: Math.max(previous?.bestScore ?? 0, result.total),
+        bestTime: Math.min(previous?.bestTime ?? Infinity, result.time),
+      },
+    },
+  };
+};
@@ -0,0 +1,61 @@
+import { WorldSize } from '../engine/simulation';
+
+// --- Render Layers ---
+// A frame is painted back to front in three layers: the static background (grass, pastures,
+// fences, rocks and the shade under every obstacle), the entities that move or sway, then
+// the overlay drawn in screen space. The background only changes with the level, so it is
+// painted once into an offscreen canvas and copied onto the screen every frame.
+
+const MAX_PIXEL_RATIO = 3;
+const MAX_BACKGROUND_PIXELS = 4096 * 4096; // Big fields on retina screens trade a little sharpness for memory
+const ZOOM_STEP = Math.SQRT2; // The cache is redrawn when the camera zooms in past the next step
+
+// Device pixels per CSS pixel, so the canvas can be drawn at the screen's own resolution
+export const currentPixelRatio = () => Math.max(1, Math.min(MAX_PIXEL_RATIO, window.devicePixelRatio || 1));
+
+type Surface = OffscreenCanvas | HTMLCanvasElement;
+
+const createSurface = (w: number, h: number): Surface => {
+  if (typeof OffscreenCanvas !== 'undefined') return new OffscreenCanvas(w, h);
+  const canvas = document.createElement('canvas');
+  canvas.width = w;
+  canvas.height = h;
+  return canvas;
+};
+
+export class BackgroundLayer {
+  private surface: Surface | null = null;
+  private deps: unknown[] = [];
+
+  // Forget the cached picture, e.g. once web fonts have loaded
+  invalidate() {
+    this.deps = [];
+  }
+
+  // Copy the background onto `ctx`, which should already be transformed to world
+  // coordinates. `paint` runs only when `deps` differ from last time (compared by
+  // identity): the level's pastures, fences and obstacles, and the pixel ratio. The cache
+  // also follows the camera's zoom, rounded up to a whole step so easing between zooms
+  // doesn't repaint it every frame; zooming out below 1 keeps the 1× picture.
+  draw(ctx: CanvasRenderingContext2D, world: WorldSize, pixelRatio: number, zoom: number, deps: unknown[], paint: (bg: CanvasRenderingContext2D) => void) {
+    const steppedZoom = Math.pow(ZOOM_STEP, Math.ceil(Math.log(Math.max(1, zoom)) / Math.log(ZOOM_STEP)));
+    const scale = Math.min(pixelRatio * steppedZoom, Math.sqrt(MAX_BACKGROUND_PIXELS / (world.w * world.h)));
+    const w = Math.ceil(world.w * scale);
+    const h = Math.ceil(world.h * scale);
+    const key = [w, h, ...deps];
+    const stale = !this.surface || key.length !== this.deps.length || key.some((d, i) => d !== this.deps[i]);
+
+    if (stale) {
+      if (!this.surface || this.surface.width !== w || this.surface.height !== h) this.surface = createSurface(w, h);
+      // An offscreen context has the same drawing API as an on-screen one
+      const bg = this.surface.getContext('2d') as CanvasRenderingContext2D | null;
+      if (!bg) return;
+      bg.setTransform(1, 0, 0, 1, 0, 0);
+      bg.clearRect(0, 0, w, h);
+      bg.setTransform(scale, 0, 0, scale, 0, 0);
+      paint(bg);
+      this.deps = key;
+    }
+    ctx.drawImage(this.surface!, 0, 0, world.w, world.h);
+  }
+}
@@ -0,0 +1,456 @@
+import { BARK_RADIUS, COLORS, FLOCKING_RADIUS, FOG_CLEAR_RADIUS, LANTERN_RADIUS, LIE_DOWN_CALM_RADIUS } from '../constants';
+import { breedOf } from '../engine/breeds';
+import { darknessAt, skyTint, windVector } from '../engine/environment';
+import { PastureView } from '../engine/pastures';
+import { WorldSize } from '../engine/simulation';
+import { SpatialHash } from '../engine/spatialHash';
+import { dist, vecMag, vecMult, vecNorm } from '../engine/vector';
+import { Dog, GameState, Obstacle, Sheep, Wolf } from '../types';
+import { AccessibilitySettings, drawMarking, HIGH_CONTRAST_FLOCKS, reducedMotion } from './accessibility';
+
+// --- Scene Drawing ---
+// The field in world coordinates: the still background, then the grass, animals and foliage,
+// then weather and light. The game draws it through its camera; the benchmark page draws it
+// offscreen to time a frame.
+
+export interface GrassBlade {
+  x: number;
+  y: number;
+  angle: number;
+  size: number;
+}
+
+const FENCE_POST_SPACING = 36;
+const MARKING_SPACING = 48; // Between the flock markings patterned across a pasture
+
+// Scratch surface for fog and darkness, reused every frame
+const veilCanvas = document.createElement('canvas');
+
+// Sheep bucketed per frame so each grass blade only checks the sheep standing near it
+const grassGrid = new SpatialHash<Sheep>(FLOCKING_RADIUS);
+const nearGrass: Sheep[] = [];
+
+// Loose tufts scattered over a field; the game keeps one set per field size
+export const generateGrass = (w: number, h: number) => {
+  const grass: GrassBlade[] = [];
+  // Density based on area, but capped for performance
+  const count = Math.min(150, Math.floor((w * h) / 10000));
+  
+  for (let i = 0; i < count; i++) {
+    grass.push({
+      x: Math.random() * w,
+      y: Math.random() * h,
+      angle: (Math.random() * Math.PI) / 4 - Math.PI / 8, // slight random tilt
+      size: 3 + Math.random() * 2
+    });
+  }
+  return grass;
+};
+
+// --- Helpers ---
+const drawWobblyCircle = (ctx: CanvasRenderingContext2D, x: number, y: number, r: number, color: string, offset: number) => {
+  ctx.beginPath();
+  const segments = 12;
+  const step = (Math.PI * 2) / segments;
+  for (let i = 0; i <= segments; i++) {
+      const theta = i * step;
+      const rNoise = r + Math.sin(theta * 5 + offset) * 1.5;
+      const px = x + Math.cos(theta) * rNoise;
+      const py = y + Math.sin(theta) * rNoise;
+      if (i === 0) ctx.moveTo(px, py);
+      else ctx.lineTo(px, py);
+  }
+  ctx.closePath();
+  ctx.fillStyle = color;
+  ctx.fill();
+  ctx.strokeStyle = 'rgba(0,0,0,0.1)';
+  ctx.lineWidth = 1;
+  ctx.stroke();
+};
+
+const drawShadow = (ctx: CanvasRenderingContext2D, x: number, y: number, r: number) => {
+    ctx.beginPath();
+    ctx.ellipse(x, y + r * 0.5, r, r * 0.4, 0, 0, Math.PI * 2);
+    ctx.fillStyle = COLORS.shadow;
+    ctx.fill();
+};
+
+// Everything that holds still for the whole level. Painted once into the background layer.
+export const drawBackground = (ctx: CanvasRenderingContext2D, game: GameState, world: WorldSize, pastures: PastureView[], accessibility: AccessibilitySettings) => {
+  const { markings, highContrast } = accessibility;
+  ctx.fillStyle = COLORS.grass;
+  ctx.fillRect(0, 0, world.w, world.h);
+
+  pastures.forEach(p => {
+    ctx.fillStyle = highContrast ? HIGH_CONTRAST_FLOCKS[p.type].pasture : p.color;
+    ctx.beginPath();
+    p.outline.forEach((pt, i) => i === 0 ? ctx.moveTo(pt.x, pt.y) : ctx.lineTo(pt.x, pt.y));
+    ctx.closePath();
+    ctx.fill();
+    if (highContrast) {
+      ctx.strokeStyle = HIGH_CONTRAST_FLOCKS[p.type].border;
+      ctx.lineWidth = 4;
+      ctx.stroke();
+    }
+
+    // The flock's marking, faintly repeated across the pen
+    if (markings) {
+      ctx.save();
+      ctx.clip();
+      ctx.globalAlpha = 0.25;
+      for (let x = p.bounds.x + MARKING_SPACING / 2; x < p.bounds.x + p.bounds.w; x += MARKING_SPACING) {
+        for (let y = p.bounds.y + MARKING_SPACING / 2; y < p.bounds.y + p.bounds.h; y += MARKING_SPACING) {
+          drawMarking(ctx, p.type, x, y, 14, COLORS.fencePost);
+        }
+      }
+      ctx.restore();
+    }
+
+    // Gateways: a faint line across the opening between two heavier posts
+    ctx.strokeStyle = COLORS.fence;
+    ctx.lineWidth = 1.5;
+    ctx.setLineDash([4, 6]);
+    p.gates.forEach(g => {
+      ctx.beginPath();
+      ctx.moveTo(g.a.x, g.a.y);
+      ctx.lineTo(g.b.x, g.b.y);
+      ctx.stroke();
+    });
+    ctx.setLineDash([]);
+    ctx.fillStyle = COLORS.fencePost;
+    p.gates.forEach(g => [g.a, g.b].forEach(pt => {
+      ctx.beginPath();
+      ctx.arc(pt.x, pt.y, 5, 0, Math.PI * 2);
+      ctx.fill();
+    }));
+
+    ctx.fillStyle = COLORS.fence;
+    ctx.font = '600 16px Outfit';
+    ctx.textAlign = 'center';
+    ctx.fillText(p.label, p.bounds.x + p.bounds.w/2, p.bounds.y - 12);
+    if (markings) drawMarking(ctx, p.type, p.bounds.x + p.bounds.w/2 - ctx.measureText(p.label).width / 2 - 14, p.bounds.y - 17, 12, COLORS.fencePost);
+  });
+
+  // Fences: rails with a post every few paces
+  ctx.strokeStyle = COLORS.fence;
+  ctx.lineWidth = 3;
+  ctx.lineCap = 'round';
+  game.fences.forEach(f => {
+    ctx.beginPath();
+    ctx.moveTo(f.a.x, f.a.y);
+    ctx.lineTo(f.b.x, f.b.y);
+    ctx.stroke();
+  });
+  ctx.fillStyle = COLORS.fencePost;
+  game.fences.forEach(f => {
+    const len = dist(f.a, f.b);
+    const posts = Math.max(1, Math.round(len / FENCE_POST_SPACING));
+    for (let i = 0; i <= posts; i++) {
+      const t = i / posts;
+      ctx.beginPath();
+      ctx.arc(f.a.x + (f.b.x - f.a.x) * t, f.a.y + (f.b.y - f.a.y) * t, 3, 0, Math.PI * 2);
+      ctx.fill();
+    }
+  });
+
+  // Shade under every obstacle, and the parts that don't sway: rocks and tree trunks
+  game.obstacles.forEach(obs => {
+    drawShadow(ctx, obs.pos.x, obs.pos.y, obs.radius * 1.2);
+    if (obs.type === 'ROCK') {
+      drawWobblyCircle(ctx, obs.pos.x, obs.pos.y, obs.radius, COLORS.rock, obs.wobbleOffset);
+      ctx.fillStyle = COLORS.rockShadow;
+      ctx.beginPath();
+      ctx.arc(obs.pos.x - 5, obs.pos.y - 5, obs.radius * 0.3, 0, Math.PI*2);
+      ctx.fill();
+    } else if (obs.type === 'TREE') {
+      ctx.fillStyle = COLORS.treeTrunk;
+      ctx.beginPath();
+      ctx.arc(obs.pos.x, obs.pos.y, obs.radius * 0.3, 0, Math.PI*2);
+      ctx.fill();
+    }
+  });
+};
+
+// Grass blades, animals and swaying foliage, then the weather on top. Redrawn every frame.
+export const drawEntities = (ctx: CanvasRenderingContext2D, time: number, game: GameState, world: WorldSize, grass: GrassBlade[], accessibility: AccessibilitySettings, lighting = true) => {
+  // Draw Grass with Physics (Bending)
+  const { dogs, sheep, wolves, obstacles } = game;
+  const { markings, highContrast } = accessibility;
+  const still = reducedMotion(accessibility); // No wobble, sway or bending
+  
+  ctx.fillStyle = COLORS.grassDetails;
+  grassGrid.rebuild(sheep);
+  const wind = windVector(game.environment, game.timeElapsed);
+  const maxRadius = sheep.reduce((max, s) => Math.max(max, s.radius), 0);
+  if (still) grass.forEach(g => {
+      ctx.beginPath();
+      ctx.arc(g.x, g.y, g.size, 0, Math.PI*2);
+      ctx.fill();
+  });
+  else grass.forEach(g => {
+      // Sway with the wind
+      const sway = 3 * (1 + Math.sin(time * 0.003 + g.x * 0.02));
+      let offsetX = wind.x * sway;
+      let offsetY = wind.y * sway;
+
+      // Bending logic: Check distance to the Dogs
+      dogs.forEach(dog => {
+          const dDog = Math.sqrt(Math.pow(dog.pos.x - g.x, 2) + Math.pow(dog.pos.y - g.y, 2));
+          if (dDog < dog.radius + 20) {
+              const angle = Math.atan2(g.y - dog.pos.y, g.x - dog.pos.x);
+              const force = (dog.radius + 20 - dDog) / 10;
+              offsetX += Math.cos(angle) * force * 2;
+              offsetY += Math.sin(angle) * force * 2;
+          }
+      });
+
+      // Bending logic: Check distance to nearby Sheep
+      nearGrass.length = 0;
+      for (const s of grassGrid.query(g, maxRadius + 15, nearGrass)) {
+          const dSheep = Math.sqrt(Math.pow(s.pos.x - g.x, 2) + Math.pow(s.pos.y - g.y, 2));
+          if (dSheep < s.radius + 15) {
+              const angle = Math.atan2(g.y - s.pos.y, g.x - s.pos.x);
+              const force = (s.radius + 15 - dSheep) / 8;
+              offsetX += Math.cos(angle) * force * 2;
+              offsetY += Math.sin(angle) * force * 2;
+              // Break early if we found a sheep close enough to save perf? 
+              // No, additive bending looks better if multiple are close.
+          }
+      }
+
+      ctx.beginPath();
+      const gx = g.x + offsetX;
+      const gy = g.y + offsetY;
+      ctx.arc(gx, gy, g.size, 0, Math.PI*2);
+      ctx.fill();
+  });
+
+  // Voice commands: expanding bark rings and the settled zone around a lying dog
+  game.barkWaves.forEach(wave => {
+    ctx.strokeStyle = COLORS.barkRing;
+    ctx.globalAlpha = Math.max(0, 1 - wave.radius / BARK_RADIUS);
+    ctx.lineWidth = 3;
+    ctx.beginPath();
+    ctx.arc(wave.pos.x, wave.pos.y, wave.radius, 0, Math.PI * 2);
+    ctx.stroke();
+    ctx.globalAlpha = 1;
+  });
+  dogs.filter(dog => dog.isLyingDown).forEach(dog => {
+    ctx.fillStyle = COLORS.calmRing;
+    ctx.beginPath();
+    ctx.arc(dog.pos.x, dog.pos.y, LIE_DOWN_CALM_RADIUS, 0, Math.PI * 2);
+    ctx.fill();
+  });
+
+  const renderList = [
+      ...sheep.map(s => ({ type: 'sheep', obj: s, y: s.pos.y })),
+      ...obstacles.filter(o => o.type !== 'ROCK').map(o => ({ type: 'obstacle', obj: o, y: o.pos.y })),
+      ...wolves.filter(wf => wf.state !== 'AWAY').map(wf => ({ type: 'wolf', obj: wf, y: wf.pos.y })),
+      ...dogs.map(d => ({ type: 'dog', obj: d, y: d.pos.y }))
+  ].sort((a, b) => a.y - b.y);
+
+  renderList.forEach(item => {
+      if (item.type === 'obstacle') {
+          const obs = item.obj as Obstacle;
+          if (obs.type === 'BUSH') {
+              // Low and clumpy: three overlapping puffs, no trunk
+              const sway = obs.wobbleOffset + (still ? 0 : time * 0.0015);
+              drawWobblyCircle(ctx, obs.pos.x - obs.radius * 0.45, obs.pos.y, obs.radius * 0.65, COLORS.bushLeaves, sway);
+              drawWobblyCircle(ctx, obs.pos.x + obs.radius * 0.45, obs.pos.y, obs.radius * 0.65, COLORS.bushLeaves, sway + 2);
+              drawWobblyCircle(ctx, obs.pos.x, obs.pos.y - obs.radius * 0.35, obs.radius * 0.7, COLORS.treeLeaves, sway + 4);
+          } else {
+              drawWobblyCircle(ctx, obs.pos.x, obs.pos.y - 15, obs.radius, COLORS.treeLeaves, obs.wobbleOffset + (still ? 0 : time * 0.001));
+          }
+      }
+      else if (item.type === 'sheep') {
+          const s = item.obj as Sheep;
+          drawShadow(ctx, s.pos.x, s.pos.y, s.radius);
+          
+          const breed = breedOf(s);
+          const colors = highContrast ? HIGH_CONTRAST_FLOCKS[s.type] : breed.colors;
+          const wobble = s.state === 'FLEEING' && !still ? time * 0.02 : s.wobbleOffset;
+          
+          drawWobblyCircle(ctx, s.pos.x, s.pos.y, s.radius, colors.body, wobble);
+          if (highContrast) {
+              ctx.strokeStyle = HIGH_CONTRAST_FLOCKS[s.type].outline;
+              ctx.lineWidth = 2;
+              ctx.beginPath();
+              ctx.arc(s.pos.x, s.pos.y, s.radius + 1, 0, Math.PI * 2);
+              ctx.stroke();
+          }
+
+          const moving = vecMag(s.vel) > 0.1;
+          const headOffset = vecMult(vecNorm(s.vel), s.radius * 0.5);
+          const headX = s.pos.x + (moving ? headOffset.x : 0);
+          const headY = s.pos.y + (moving ? headOffset.y : 0);
+          const headR = s.radius * 0.6;
+          
+          ctx.fillStyle = colors.head;
+          ctx.beginPath();
+          ctx.arc(headX, headY, headR, 0, Math.PI*2);
+          ctx.fill();
+
+          // Marked on the back, behind the head
+          if (markings) {
+              const back = moving ? vecMult(headOffset, -0.6) : { x: 0, y: -s.radius * 0.3 };
+              drawMarking(ctx, s.type, s.pos.x + back.x, s.pos.y + back.y, s.radius * 0.9);
+          }
+
+          // Horns either side of the head: curled for rams, swept back for goats
+          if (breed.look !== 'woolly') {
+              const dir = moving ? vecNorm(s.vel) : { x: 0, y: 1 };
+              const side = { x: -dir.y, y: dir.x };
+              ctx.strokeStyle = COLORS.horn;
+              ctx.lineWidth = breed.look === 'horned' ? 3 : 2;
+              ctx.lineCap = 'round';
+              [-1, 1].forEach(k => {
+                  const hx = headX + side.x * k * headR * 0.8;
+                  const hy = headY + side.y * k * headR * 0.8;
+                  ctx.beginPath();
+                  if (breed.look === 'horned') {
+                      ctx.arc(hx, hy, headR * 0.55, 0, Math.PI * 1.5);
+                  } else {
+                      ctx.moveTo(hx, hy);
+                      ctx.lineTo(hx - dir.x * headR * 1.1 + side.x * k * 2, hy - dir.y * headR * 1.1 + side.y * k * 2);
+                  }
+                  ctx.stroke();
+              });
+          }
+
+          if (s.state === 'FLEEING' && s.panicLevel > 0.5) {
+              ctx.fillStyle = '#60a5fa'; 
+              const dropY = s.pos.y - s.radius - 5 - (still ? 0 : Math.sin(time * 0.01) * 3);
+              ctx.beginPath();
+              ctx.arc(s.pos.x + 5, dropY, 3, 0, Math.PI*2);
+              ctx.fill();
+          }
+      }
+      else if (item.type === 'wolf') {
+          const wf = item.obj as Wolf;
+          const moving = vecMag(wf.vel) > 0.2;
+          const dir = moving ? vecNorm(wf.vel) : { x: 0, y: 1 };
+          const side = { x: -dir.y, y: dir.x };
+          const wobble = wf.state === 'STALKING' || still ? wf.wobbleOffset : time * 0.02;
+
+          drawShadow(ctx, wf.pos.x, wf.pos.y, wf.radius);
+          drawWobblyCircle(ctx, wf.pos.x, wf.pos.y, wf.radius, COLORS.wolf, wobble);
+
+          // Long head with pointed ears, and eyes that catch the light
+          const headX = wf.pos.x + dir.x * wf.radius * 0.75;
+          const headY = wf.pos.y + dir.y * wf.radius * 0.75;
+          const headR = wf.radius * 0.55;
+          ctx.fillStyle = COLORS.wolfShadow;
+          [-1, 1].forEach(k => {
+              ctx.beginPath();
+              ctx.moveTo(headX + side.x * k * headR * 0.3, headY + side.y * k * headR * 0.3);
+              ctx.lineTo(headX + side.x * k * headR - dir.x * headR * 1.2, headY + side.y * k * headR - dir.y * headR * 1.2);
+              ctx.lineTo(headX + side.x * k * headR, headY + side.y * k * headR);
+              ctx.fill();
+          });
+          ctx.beginPath();
+          ctx.arc(headX, headY, headR, 0, Math.PI * 2);
+          ctx.fill();
+          ctx.fillStyle = COLORS.wolfEye;
+          [-1, 1].forEach(k => {
+              ctx.beginPath();
+              ctx.arc(headX + side.x * k * headR * 0.4 + dir.x * 2, headY + side.y * k * headR * 0.4 + dir.y * 2, 1.6, 0, Math.PI * 2);
+              ctx.fill();
+          });
+      }
+      else if (item.type === 'dog') {
+          const d = item.obj as Dog;
+          const isIdle = vecMag(d.vel) < 0.2;
+          
+          // Breathing animation; lying down flattens the dog a little
+          const breath = isIdle && !still ? Math.sin(time * 0.005) * 0.8 : 0;
+          const r = (d.isLyingDown ? d.radius * 0.85 : d.radius) + breath;
+
+          drawShadow(ctx, d.pos.x, d.pos.y, r);
+          
+          // Body Main Color
+          ctx.fillStyle = d.palette.primary;
+          ctx.beginPath();
+          ctx.arc(d.pos.x, d.pos.y, r, 0, Math.PI * 2);
+          ctx.fill();
+          
+          // White Markings
+          ctx.fillStyle = d.palette.secondary;
+          ctx.beginPath();
+          ctx.arc(d.pos.x, d.pos.y, r * 0.5, 0, Math.PI * 2);
+          ctx.fill();
+
+          // Collar
+          ctx.strokeStyle = COLORS.dogCollar;
+          ctx.lineWidth = 2.5;
+          ctx.beginPath();
+          ctx.arc(d.pos.x, d.pos.y, r, 0, Math.PI * 2);
+          ctx.stroke();
+
+          // Head/Snout indicator (Uses facingDir now)
+          // Normalized facingDir stored in d.facingDir
+          const snoutX = d.pos.x + d.facingDir.x * r * 0.7;
+          const snoutY = d.pos.y + d.facingDir.y * r * 0.7;
+          ctx.fillStyle = '#111';
+          ctx.beginPath();
+          ctx.arc(snoutX, snoutY, 3, 0, Math.PI*2);
+          ctx.fill();
+      }
+  });
+
+  if (lighting) drawEnvironment(ctx, time, game, world);
+};
+
+// Weather and time of day over the finished scene: tint, rain, fog and the dark with a
+// lantern's worth of light around each dog
+const drawEnvironment = (ctx: CanvasRenderingContext2D, time: number, game: GameState, world: WorldSize) => {
+  const { environment: env, dogs } = game;
+  const { w, h } = world;
+
+  const tint = skyTint(env.hour);
+  if (tint) {
+    ctx.fillStyle = tint;
+    ctx.fillRect(0, 0, w, h);
+  }
+
+  if (env.weather === 'RAIN' && env.intensity > 0) {
+    const drops = Math.round((w * h / 8000) * env.intensity);
+    ctx.strokeStyle = COLORS.rain;
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    for (let i = 0; i < drops; i++) {
+      const x = ((i * 7919) % w + time * 0.12) % w;
+      const y = ((i * 104729) % h + time * 0.9) % h;
+      ctx.moveTo(x, y);
+      ctx.lineTo(x - 3, y + 12);
+    }
+    ctx.stroke();
+  }
+
+  // `color` at `alpha` over the field, with a clear circle around every dog. Painted on a
+  // scratch canvas so overlapping circles don't darken each other.
+  const veil = (radius: number, color: string, alpha: number) => {
+    if (veilCanvas.width !== w || veilCanvas.height !== h) {
+      veilCanvas.width = w;
+      veilCanvas.height = h;
+    }
+    const vctx = veilCanvas.getContext('2d');
+    if (!vctx) return;
+    vctx.globalCompositeOperation = 'source-over';
+    vctx.clearRect(0, 0, w, h);
+    vctx.fillStyle = `rgba(${color}, ${alpha})`;
+    vctx.fillRect(0, 0, w, h);
+    vctx.globalCompositeOperation = 'destination-out';
+    dogs.forEach(dog => {
+      const gradient = vctx.createRadialGradient(dog.pos.x, dog.pos.y, radius * 0.5, dog.pos.x, dog.pos.y, radius);
+      gradient.addColorStop(0, 'rgba(0, 0, 0, 1)');
+      gradient.addColorStop(1, 'rgba(0, 0, 0, 0)');
+      vctx.fillStyle = gradient;
+      vctx.fillRect(0, 0, w, h);
+    });
+    ctx.drawImage(veilCanvas, 0, 0);
+  };
+
+  if (env.weather === 'FOG' && env.intensity > 0) veil(FOG_CLEAR_RADIUS, '232, 236, 230', 0.85 * env.intensity);
+  const dark = darknessAt(env.hour);
+  if (dark > 0) veil(LANTERN_RADIUS, '10, 14, 36', 0.75 * dark);
+};
@@ -1,8 +1,15 @@
 export type Vector2 = { x: number; y: number };
 
+// Mutable PRNG state, advanced by engine/random.ts
+export interface Rng {
+  state: number;
+}
+
+// Which pen an animal belongs in. Breeds (engine/breeds.ts) each map to one of these.
 export enum SheepType {
   WHITE = 'WHITE',
   BLACK = 'BLACK',
+  GOAT = 'GOAT',
 }
 
 export interface DogPalette {
@@ -20,6 +27,8 @@ export interface Entity {
 
 export interface Sheep extends Entity {
   type: SheepType;
+  breed: string; // Key into the breed registry
+  followId?: string; // Sheep this one keeps close to (lambs and their ewes)
   state: 'GRAZING' | 'FLEEING' | 'SECURE';
   panicLevel: number; // 0 to 1
   wobbleOffset: number; // For hand-drawn animation effect
@@ -27,7 +36,26 @@ export interface Sheep extends Entity {
 
 export interface Dog extends Entity {
   speed: number;
+  palette: DogPalette;
   facingDir: Vector2; // Direction the dog is looking
+  isLyingDown: boolean;
+  barkCooldown: number; // Ticks until the dog can bark again
+  lieDownCooldown: number; // Ticks until the dog can lie down again
+}
+
+// Expanding ring of panic sent out by a bark
+export interface BarkWave {
+  pos: Vector2;
+  radius: number;
+}
+
+// Prowls in from the edge of the field after stray sheep and bolts when a dog comes near.
+// While AWAY it is off the field, counting down `timer` ticks until it returns.
+export interface Wolf extends Entity {
+  state: 'AWAY' | 'STALKING' | 'HUNTING' | 'FLEEING';
+  timer: number;
+  targetId?: string; // Sheep being hunted
+  wobbleOffset: number;
 }
 
 export interface Obstacle extends Entity {
@@ -35,25 +63,125 @@ export interface Obstacle extends Entity {
   wobbleOffset: number;
 }
 
+export type Rect = { x: number; y: number; w: number; h: number };
+
+// Straight run of fence between two points (pixels)
+export interface FenceSegment {
+  a: Vector2;
+  b: Vector2;
+}
+
 export interface Pasture {
   id: string;
   type: SheepType;
-  bounds: { x: number; y: number; w: number; h: number };
+  bounds: Rect; // Bounding box of the outline
+  outline: Vector2[]; // Closed polygon; edge i runs from point i to point i + 1
+  fences: FenceSegment[]; // The outline with the gate openings cut out
+  gates: FenceSegment[]; // Openings the flock has to be driven through
+}
+
+export type Weather = 'CLEAR' | 'WIND' | 'RAIN' | 'FOG';
+
+// Time of day and weather for the current level, advanced by the simulation
+export interface Environment {
+  hour: number; // 0 to 24
+  dayLength: number; // Seconds of play per full day; 0 holds the hour still
+  weather: Weather;
+  intensity: number; // 0 to 1
+  windAngle: number; // Direction the wind blows toward, degrees clockwise from east
+}
+
+// Running tallies for the current level, used for scoring
+export interface LevelStats {
+  dogDistance: number; // Pixels travelled by the dogs, all together
+  panicSeconds: number; // Sum over sheep of panicLevel x seconds
+  escapes: number; // Times a SECURE sheep wandered back out of its pasture
+  sheepLost: number; // Taken by wolves
 }
 
 export interface GameState {
   sheep: Sheep[];
-  dog: Dog;
+  dogs: Dog[]; // One per player
+  wolves: Wolf[];
   obstacles: Obstacle[];
+  barkWaves: BarkWave[];
+  fences: FenceSegment[]; // Every fence that blocks movement: pasture outlines and free-standing runs
+  environment: Environment;
   level: number;
-  score: number;
-  timeElapsed: number;
+  seed: number;
+  rng: Rng; // Drives all simulation noise so runs are reproducible
+  score: number; // Live score for the current level
+  timeElapsed: number; // Seconds of play this level
+  parTime: number; // Seconds; finishing faster earns a time bonus
+  stats: LevelStats;
+  lossLimit: number; // Sheep the level can afford to lose to wolves; one more fails it
   isPlaying: boolean;
   isLevelComplete: boolean;
-  dogPalette: DogPalette;
+}
+
+// --- Level Definitions (loaded from levels/*.json) ---
+// Positions and sizes in level files are fractions of the world (0 to 1). The world has a
+// fixed size per level and the camera scrolls it through whatever window it's played in.
+
+export type PastureAnchor = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+
+// Opening in a pasture fence. `at` (centre) and `width` are fractions of the edge's length.
+export interface GateLayout {
+  edge: number;
+  at?: number;
+  width?: number;
+}
+
+// A square pinned to a corner (sized from the window like the classic layout), an explicit
+// rectangle, or any polygon. Without `gates`, one gate opens on the edge facing the field.
+export type PastureLayout =
+  | { type: SheepType; anchor: PastureAnchor; scale?: number; gates?: GateLayout[] }
+  | { type: SheepType; bounds: Rect; gates?: GateLayout[] }
+  | { type: SheepType; polygon: Vector2[]; gates?: GateLayout[] };
+
+export interface ObstaclePlacement {
+  type: Obstacle['type'];
+  x: number;
+  y: number;
+  radius?: number;
+}
+
+// Random scatter: `count` obstacles plus one per `pxPerExtra` of world width
+export interface ObstacleDensity {
+  count: number;
+  pxPerExtra?: number;
+  treeRatio?: number; // 0 to 1, remainder are rocks
+}
+
+// A painted region that spawns `count` sheep of one colour, or of one breed when `breed` is set
+export interface SpawnZone {
+  type: SheepType;
+  breed?: string;
+  bounds: Rect;
+  count: number;
+}
+
+// Wolves start AWAY and first come in after `delay` seconds
+export interface WolfPack {
+  count: number;
+  delay?: number;
+  maxLosses?: number; // Sheep you can lose before the level is failed
 }
 
 export interface LevelConfig {
+  name?: string;
+  world?: { w: number; h: number }; // Pixels; engine/level.ts has the default
   sheepCount: number;
   blackSheepRatio: number; // 0 to 1
+  obstacles: ObstacleDensity | ObstaclePlacement[];
+  pastures: PastureLayout[];
+  spawn: Rect; // Region sheep start in
+  spawnZones?: SpawnZone[]; // When present, replaces sheepCount/blackSheepRatio/spawn
+  fences?: Vector2[][]; // Free-standing fence lines for corridors and funnels
+  environment?: Partial<Environment>;
+  wolves?: WolfPack;
+  targets?: {
+    time?: number; // Seconds
+    score?: number;
+  };
 }
\ No newline at end of file
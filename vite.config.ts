@@ -1,18 +1,44 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, ProxyOptions } from 'vite';
 import react from '@vitejs/plugin-react';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // Model keys never reach the browser: it calls these paths on the dev (or preview)
+    // server, which adds the key on the way through
+    const proxy: Record<string, ProxyOptions> = {};
+    if (env.GEMINI_API_KEY) {
+      proxy['/api/gemini'] = {
+        target: 'https://generativelanguage.googleapis.com',
+        changeOrigin: true,
+        rewrite: p => p.replace(/^\/api\/gemini/, ''),
+        headers: { 'x-goog-api-key': env.GEMINI_API_KEY },
+      };
+    }
+    if (env.LLM_BASE_URL) {
+      proxy['/api/llm'] = {
+        target: env.LLM_BASE_URL,
+        changeOrigin: true,
+        rewrite: p => p.replace(/^\/api\/llm/, ''),
+        headers: env.LLM_API_KEY ? { Authorization: `Bearer ${env.LLM_API_KEY}` } : {},
+      };
+    }
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy,
+      },
+      preview: {
+        proxy,
       },
       plugins: [react()],
+      // Only which model is set up, never its key
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.FLAVOR_PROVIDER': JSON.stringify(env.FLAVOR_PROVIDER ?? ''),
+        'process.env.GEMINI_PROXY': JSON.stringify(env.GEMINI_API_KEY ? '/api/gemini' : ''),
+        'process.env.LLM_PROXY': JSON.stringify(env.LLM_BASE_URL ? '/api/llm' : ''),
+        'process.env.LLM_MODEL': JSON.stringify(env.LLM_MODEL ?? '')
       },
       resolve: {
         alias: {